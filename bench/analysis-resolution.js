@@ -0,0 +1,197 @@
+#!/usr/bin/env node
+
+/**
+ * Analysis resolution benchmark - Accuracy and speed of downscaled detection
+ *
+ * Generates synthetic video with known cuts (smooth textures with solid
+ * boxes, panning under noise, a different texture per scene) and runs
+ * detection at the source resolution and at several analysisResolution
+ * values. For each run it reports the cuts found against the known ones
+ * and against the full-resolution run, and the throughput.
+ *
+ * Frames come from a frame source, so the TypeScript box filter does the
+ * downscaling (video files are scaled by ffmpeg instead).
+ *
+ * Usage:
+ *   npm run bench:resolution -- [--width 1920] [--height 1080] [--scenes 8] [--length 30]
+ */
+
+const { detectSceneChanges } = require('../dist/keyframes.cjs.js');
+
+/** Heights to analyze at, besides the source resolution */
+const RESOLUTIONS = [1080, 720, 540, 360, 270, 180];
+
+function parseArgs(argv) {
+  const options = { width: 1920, height: 1080, scenes: 8, length: 30 };
+
+  for (let i = 0; i < argv.length; i += 2) {
+    const name = argv[i].replace(/^--/, '');
+    const value = parseInt(argv[i + 1], 10);
+
+    if (!(name in options) || !Number.isInteger(value) || value < 1) {
+      throw new Error(`Invalid argument: ${argv[i]} ${argv[i + 1]}`);
+    }
+    options[name] = value;
+  }
+
+  return options;
+}
+
+/**
+ * Small deterministic PRNG (xorshift32), so every run sees the same frames
+ */
+function createRandom(seed) {
+  let state = seed >>> 0 || 1;
+  return () => {
+    state ^= state << 13;
+    state >>>= 0;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    state >>>= 0;
+    return state;
+  };
+}
+
+/**
+ * Texture for one scene: smooth waves and a few solid boxes, sized relative
+ * to the frame height so every resolution sees the same picture
+ */
+function createTexture(scene, width, height) {
+  const random = createRandom(scene * 104729 + 7);
+  const waves = Array.from({ length: 3 }, () => ({
+    fx: ((random() % 1000) / 1000 - 0.5) * 12 * Math.PI / height,
+    fy: ((random() % 1000) / 1000 - 0.5) * 12 * Math.PI / height,
+    phase: (random() % 1000) / 1000 * 2 * Math.PI,
+    amplitude: 20 + (random() % 30)
+  }));
+
+  const texture = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = 128;
+      for (const wave of waves) {
+        value += wave.amplitude * Math.sin(wave.fx * x + wave.fy * y + wave.phase);
+      }
+      texture[y * width + x] = Math.max(0, Math.min(255, Math.round(value)));
+    }
+  }
+
+  for (let i = 0; i < 6; i++) {
+    const w = Math.round(height * (0.05 + (random() % 100) / 500));
+    const h = Math.round(height * (0.05 + (random() % 100) / 500));
+    const left = random() % (width - w);
+    const top = random() % (height - h);
+    const value = random() & 0xff;
+    for (let y = top; y < top + h; y++) {
+      texture.fill(value, y * width + left, y * width + left + w);
+    }
+  }
+
+  return texture;
+}
+
+/**
+ * Frame source for the synthetic video: each scene pans across its own texture
+ */
+function createSource(options) {
+  const { width, height, scenes, length } = options;
+  const totalFrames = scenes * length;
+
+  // Pan at up to 1% of the frame height per frame
+  const speed = Math.max(1, Math.round(height / 100));
+  const margin = speed * length;
+  const textureWidth = width + margin;
+  const textureHeight = height + margin;
+
+  return {
+    async getMetadata() {
+      return {
+        totalFrames,
+        duration: totalFrames / 24,
+        fps: 24,
+        resolution: { width, height }
+      };
+    },
+
+    async extractFrames(onFrame) {
+      let texture = null;
+
+      for (let frameNumber = 0; frameNumber < totalFrames; frameNumber++) {
+        const scene = Math.floor(frameNumber / length);
+        const t = frameNumber % length;
+        const random = createRandom(frameNumber * 7919 + 1);
+
+        if (t === 0) {
+          texture = createTexture(scene, textureWidth, textureHeight);
+        }
+
+        // Pan direction differs per scene
+        const dx = scene % 2 === 0 ? t * speed : margin - t * speed;
+        const dy = Math.round((t * speed * (scene % 3)) / 2);
+
+        const data = new Uint8Array(width * height);
+        for (let y = 0; y < height; y++) {
+          const row = (y + dy) * textureWidth + dx;
+          for (let x = 0; x < width; x++) {
+            data[y * width + x] = Math.min(255, texture[row + x] + (random() & 7));
+          }
+        }
+
+        const more = await onFrame({ data, width, height, stride: width, pts: frameNumber / 24, frameNumber });
+        if (more === false) {
+          break;
+        }
+      }
+    },
+
+    destroy() {}
+  };
+}
+
+function compare(found, expected) {
+  const expectedSet = new Set(expected);
+  const hits = found.filter(frame => expectedSet.has(frame)).length;
+
+  return { hits, misses: expected.length - hits, extra: found.length - hits };
+}
+
+async function run(options, analysisResolution) {
+  const start = process.hrtime.bigint();
+  const result = await detectSceneChanges(createSource(options), { analysisResolution, workers: 1 });
+  const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+
+  // Frame 0 always starts a scene
+  const cuts = result.scenes.map(scene => scene.frameNumber).filter(frame => frame > 0);
+  return { cuts, fps: (options.scenes * options.length) / seconds };
+}
+
+function report(label, run, truth, reference) {
+  const vsTruth = compare(run.cuts, truth);
+  const vsReference = reference ? compare(run.cuts, reference.cuts) : null;
+
+  console.log(
+    `${label.padEnd(12)} ${`${vsTruth.hits}/${truth.length}`.padStart(6)} ${String(vsTruth.extra).padStart(6)}` +
+    `  ${vsReference ? `${vsReference.hits}/${reference.cuts.length}`.padStart(9) : '-'.padStart(9)}` +
+    `  ${run.fps.toFixed(1).padStart(7)} fps`
+  );
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const truth = Array.from({ length: options.scenes - 1 }, (_, i) => (i + 1) * options.length);
+
+  console.log(`${options.width}x${options.height}, ${options.scenes} scenes of ${options.length} frames\n`);
+  console.log(`${'analysis'.padEnd(12)} ${'cuts'.padStart(6)} ${'extra'.padStart(6)}  ${'full-res'.padStart(9)}  ${'speed'.padStart(11)}`);
+
+  const full = await run(options, undefined);
+  report(`${options.width}x${options.height}`, full, truth, null);
+
+  for (const height of RESOLUTIONS.filter(height => height < options.height)) {
+    report(`${height}p`, await run(options, height), truth, full);
+  }
+}
+
+main().catch(error => {
+  console.error(`Error: ${error.message}`);
+  process.exit(1);
+});
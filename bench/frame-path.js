@@ -0,0 +1,178 @@
+#!/usr/bin/env node
+
+/**
+ * Frame path benchmark - Per-frame copying and padding cost, before and after pooling
+ *
+ * Feeds synthetic decoder output through two frame paths and reports the
+ * throughput of each:
+ * - copying: pipe chunks go through a ring buffer into a fresh Buffer, then
+ *   a fresh Uint8Array, and both frames of every pair are padded in WASM
+ * - pooled: pipe chunks are copied once into pooled buffers, and the padded
+ *   current frame is reused as the next pair's reference
+ *
+ * Both paths run the same MEanalysis on the same frames, so the difference
+ * is the frame handling alone.
+ *
+ * Usage:
+ *   npm run bench -- [--width 1920] [--height 1080] [--frames 300]
+ */
+
+const { WasmBridge, BufferPool, FrameBuffer } = require('../dist/keyframes.cjs.js');
+
+/** Size of the chunks ffmpeg's stdout pipe delivers */
+const CHUNK_SIZE = 64 * 1024;
+
+/** Distinct frames to cycle through, so consecutive frames differ */
+const SOURCE_FRAMES = 4;
+
+/** Timed runs of each path; they alternate and the best of each counts */
+const ROUNDS = 3;
+
+function parseArgs(argv) {
+  const options = { width: 1920, height: 1080, frames: 300 };
+
+  for (let i = 0; i < argv.length; i += 2) {
+    const name = argv[i].replace(/^--/, '');
+    const value = parseInt(argv[i + 1], 10);
+
+    if (!(name in options) || !Number.isInteger(value) || value < 1) {
+      throw new Error(`Invalid argument: ${argv[i]} ${argv[i + 1]}`);
+    }
+    options[name] = value;
+  }
+
+  return options;
+}
+
+/**
+ * Decoder output as a list of pipe chunks per frame: a moving gradient with noise
+ */
+function createSource(width, height) {
+  const frames = [];
+
+  for (let f = 0; f < SOURCE_FRAMES; f++) {
+    const data = Buffer.alloc(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        data[y * width + x] = ((x + y + f * 8) & 0xff) ^ ((x * 31 + y * 17 + f) & 0x0f);
+      }
+    }
+
+    const chunks = [];
+    for (let offset = 0; offset < data.length; offset += CHUNK_SIZE) {
+      chunks.push(data.subarray(offset, offset + CHUNK_SIZE));
+    }
+    frames.push(chunks);
+  }
+
+  return frames;
+}
+
+/**
+ * Old path: ring buffer write, Buffer read, Uint8Array copy, both frames padded
+ */
+function runCopying(bridge, source, options) {
+  const { width, height, frames } = options;
+  const frameSize = width * height;
+  const ring = Buffer.allocUnsafe(frameSize + CHUNK_SIZE);
+  let prevFrame = null;
+
+  for (let n = 0; n < frames; n++) {
+    let filled = 0;
+    for (const chunk of source[n % SOURCE_FRAMES]) {
+      chunk.copy(ring, filled);
+      filled += chunk.length;
+    }
+
+    const read = Buffer.allocUnsafe(frameSize);
+    ring.copy(read, 0, 0, frameSize);
+
+    const frame = { data: new Uint8Array(read), width, height, stride: width, pts: 0, frameNumber: n };
+
+    if (prevFrame) {
+      // A copy of the frame object defeats the bridge's reuse of the padded reference
+      bridge.analyzeFrames({ ...prevFrame }, frame, 10);
+    }
+    prevFrame = frame;
+  }
+}
+
+/**
+ * New path: one copy into a pooled buffer, one frame padded per pair
+ */
+function runPooled(bridge, source, options) {
+  const { width, height, frames } = options;
+  const frameSize = width * height;
+  const pool = new BufferPool();
+  const frameBuffer = new FrameBuffer(2);
+
+  for (let n = 0; n < frames; n++) {
+    const data = pool.acquire(frameSize, false);
+    let filled = 0;
+    for (const chunk of source[n % SOURCE_FRAMES]) {
+      data.set(chunk, filled);
+      filled += chunk.length;
+    }
+
+    const frame = {
+      data, width, height, stride: width, pts: 0, frameNumber: n,
+      release: () => pool.release(data)
+    };
+
+    frameBuffer.push(frame);
+    const prevFrame = frameBuffer.getPrevious();
+
+    if (prevFrame) {
+      bridge.analyzeFrames(prevFrame, frame, 10);
+    }
+  }
+
+  frameBuffer.clear();
+}
+
+function measure(bridge, run, source, options) {
+  const start = process.hrtime.bigint();
+  run(bridge, source, options);
+  const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+
+  return options.frames / seconds;
+}
+
+function report(name, fps) {
+  console.log(`${name.padEnd(8)} ${fps.toFixed(1).padStart(8)} fps  (${(1000 / fps).toFixed(2)} ms/frame)`);
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const source = createSource(options.width, options.height);
+
+  // One bridge for both paths, so they share WASM memory
+  const bridge = new WasmBridge();
+  await bridge.init();
+  bridge.allocateBuffers(options.width, options.height);
+
+  console.log(`${options.width}x${options.height}, ${options.frames} frames, best of ${ROUNDS}\n`);
+
+  // Warm up the JIT and WASM memory
+  const warmUp = { ...options, frames: Math.min(10, options.frames) };
+  runCopying(bridge, source, warmUp);
+  runPooled(bridge, source, warmUp);
+
+  let copying = 0;
+  let pooled = 0;
+  for (let round = 0; round < ROUNDS; round++) {
+    copying = Math.max(copying, measure(bridge, runCopying, source, options));
+    pooled = Math.max(pooled, measure(bridge, runPooled, source, options));
+  }
+
+  bridge.destroy();
+
+  report('copying', copying);
+  report('pooled', pooled);
+  console.log(`\nSpeedup: ${(pooled / copying).toFixed(2)}x`);
+}
+
+main().catch(error => {
+  console.error(`Error: ${error.message}`);
+  process.exit(1);
+});
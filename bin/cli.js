@@ -7,9 +7,19 @@
  *   keyframes input.mp4
  *   keyframes input.mkv --output results.json
  *   keyframes video.mp4 --sensitivity high
+ *   keyframes thumbnails video.mp4 --contact-sheet
+ *   keyframes split video.mp4 --mode encode
  */
 
-const { detectSceneChanges } = require('../dist/keyframes.cjs.js');
+const {
+  detectSceneChanges,
+  exportScenes,
+  importScenes,
+  generateThumbnails,
+  createHtmlReport,
+  splitByScenes,
+  FFmpegDecoder
+} = require('../dist/keyframes.cjs.js');
 const path = require('path');
 const fs = require('fs');
 
@@ -22,32 +32,81 @@ Scenecut - Scene change detection for videos
 
 Usage:
   scenecut <video-file> [options]
+  scenecut thumbnails <video-file> [options]
+  scenecut split <video-file> [options]
 
 Examples:
   scenecut input.mp4
   scenecut video.mkv --output keyframes.txt --format aegisub
   scenecut movie.mp4 --sensitivity high --format timecode
   scenecut video.mp4 --format csv --output scenes.csv
+  scenecut video.mp4 --format edl --fcm drop --output cuts.edl
+  scenecut video.mkv --format qpfile --output video.qp
+  scenecut video.mkv --format matroska-chapters --chapter-name "Scene {n}"
+  scenecut video.mp4 --sensitivity high --report report.html
+  scenecut video.mp4 --algorithm adaptive --threshold 2.5
+  scenecut thumbnails video.mp4 --middle --contact-sheet --columns 6
+  scenecut thumbnails video.mkv --scenes video.qp --output thumbs
+  scenecut split video.mp4 --mode encode --min-duration 1 --name "shot-{n}.mp4"
 
 Options:
   --output, -o <file>       Output file (default: {filename}_keyframes.txt)
-  --format, -f <format>     Output format: json|csv|aegisub|timecode (default: aegisub)
+  --format, -f <format>     Output format (see Formats below, default: aegisub)
   --sensitivity, -s <level> Sensitivity: low|medium|high (default: medium)
+  --algorithm <name>        Frame comparison: wwxd|histogram|scdet|adaptive (default: wwxd)
+  --threshold <n>           Decision threshold for histogram, scdet or adaptive, instead of --sensitivity
+  --fcm <drop|non-drop>     EDL timecode mode (default: non-drop)
+  --chapter-name <template> Chapter name, {n} {frame} {timecode} replaced (default: "Scene {n}")
+  --start <seconds>         Only analyse from this time on
+  --end <seconds>           Only analyse frames before this time
+  --start-frame <n>         Only analyse from this frame on
+  --end-frame <n>           Only analyse up to this frame (inclusive)
+  --chroma <add|confirm>    Also compare color histograms: add color-only cuts, or drop cuts without a color change
+  --report <file>           Also write an HTML report: timeline, per-frame scores vs. thresholds, thumbnails
   --quiet, -q               Suppress progress output
   --verbose, -v             Show detailed output
   --help, -h                Show this help
 
+Thumbnail Options (scenecut thumbnails):
+  --output, -o <dir>        Output directory (default: {filename}_thumbnails)
+  --image-format <format>   jpeg|png (default: jpeg)
+  --width <px>              Thumbnail width (default: 320)
+  --middle                  Also save the middle frame of each scene
+  --contact-sheet           Compose a contact sheet with timecode labels
+  --columns <n>             Contact sheet columns (default: 5)
+  --rows <n>                Rows per contact sheet, more scenes start a new sheet
+  --scenes <file>           Use scene changes from a keyframe file (aegisub, qpfile, xvid, csv, json) instead of detecting
+
+Split Options (scenecut split):
+  --output, -o <dir>        Output directory (default: {filename}_scenes)
+  --mode <copy|encode>      Stream copy (fast, cuts on keyframes) or re-encode (frame-exact) (default: copy)
+  --name <template>         File names: {n} {name} {ext} {start} {end} {timecode} (default: "{name}-{n}.{ext}")
+  --min-duration <seconds>  Merge scenes shorter than this into the next one
+  --max-duration <seconds>  Split scenes longer than this into equal parts
+  --encode-options <args>   ffmpeg output options for encode mode (default: "-c:v libx264 -crf 18 -preset fast -c:a aac")
+  --scenes <file>           Use scene changes from a keyframe file instead of detecting
+
 Formats:
   json                      JSON with full metadata
-  csv                       CSV with frame,timestamp,timecode
+  csv                       CSV with frame,timestamp,timecode,confidence
   aegisub (or txt)          Aegisub keyframes format (frame numbers)
   timecode (or tc)          Simple timecode list (HH:MM:SS.mmm)
+  timecodes-v2 (or v2)      Matroska timecodes v2, one timestamp per frame (keeps VFR timing)
+  edl                       CMX3600 edit decision list, one event per scene
+  qpfile                    x264/x265 qpfile forcing an I-frame at each scene change
+  ffmpeg                    Time list for ffmpeg -force_key_frames
+  ffmpeg-expr               Frame-exact expr: for ffmpeg -force_key_frames
+  av1an                     av1an / SVT-AV1 scenes JSON
+  matroska-chapters (or mkv) Matroska XML chapters for mkvmerge
+  ogm-chapters (or ogm)     OGM chapter text
 
 Video Formats:
   Supports MP4, MKV, AVI, WebM, MOV, and any format FFmpeg supports
 
 Output:
   Results are saved to the output file and printed to stdout
+  thumbnails saves images and a manifest.json linking each image to its frame number
+  split saves one file per scene and a manifest.json with each file's frame range
 `;
 
 // Show help
@@ -56,11 +115,28 @@ if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
   process.exit(0);
 }
 
+// Subcommand
+let command = 'detect';
+if (args[0] === 'thumbnails' || args[0] === 'split') {
+  command = args.shift();
+}
+
 // Parse arguments
 let videoPath = null;
 let outputPath = null; // Will be derived from video filename if not specified
 let outputFormat = 'aegisub'; // Default to Aegisub format
 let sensitivity = 'medium';
+let fcm = 'NON-DROP FRAME';
+let chapterName;
+let chromaMode = null;
+let algorithm = 'wwxd';
+let threshold;
+const range = {};
+const thumbnailOptions = {};
+const contactSheet = {};
+const splitOptions = {};
+let scenesPath = null;
+let reportPath = null;
 let quiet = false;
 let verbose = false;
 
@@ -73,6 +149,74 @@ for (let i = 0; i < args.length; i++) {
     outputFormat = args[++i];
   } else if (arg === '--sensitivity' || arg === '-s') {
     sensitivity = args[++i];
+  } else if (arg === '--algorithm') {
+    algorithm = args[++i];
+    if (!['wwxd', 'histogram', 'scdet', 'adaptive'].includes(algorithm)) {
+      console.error(`Unknown algorithm: ${algorithm} (use wwxd, histogram, scdet or adaptive)`);
+      process.exit(1);
+    }
+  } else if (arg === '--threshold') {
+    threshold = Number(args[++i]);
+    if (!(threshold > 0)) {
+      console.error(`Invalid value for ${arg}: ${args[i]}`);
+      process.exit(1);
+    }
+  } else if (arg === '--fcm') {
+    fcm = args[++i] === 'drop' ? 'DROP FRAME' : 'NON-DROP FRAME';
+  } else if (arg === '--chapter-name') {
+    chapterName = args[++i];
+  } else if (arg === '--start' || arg === '--end' || arg === '--start-frame' || arg === '--end-frame') {
+    const RANGE_OPTIONS = { '--start': 'startTime', '--end': 'endTime', '--start-frame': 'startFrame', '--end-frame': 'endFrame' };
+    const value = Number(args[++i]);
+    if (!Number.isFinite(value) || value < 0) {
+      console.error(`Invalid value for ${arg}: ${args[i]}`);
+      process.exit(1);
+    }
+    range[RANGE_OPTIONS[arg]] = value;
+  } else if (arg === '--chroma') {
+    chromaMode = args[++i];
+    if (chromaMode !== 'add' && chromaMode !== 'confirm') {
+      console.error(`Unknown chroma mode: ${chromaMode} (use add or confirm)`);
+      process.exit(1);
+    }
+  } else if (arg === '--report') {
+    reportPath = args[++i];
+  } else if (command === 'thumbnails' && arg === '--image-format') {
+    thumbnailOptions.format = args[++i] === 'jpg' ? 'jpeg' : args[i];
+  } else if (command === 'thumbnails' && (arg === '--width' || arg === '--columns' || arg === '--rows')) {
+    const value = Number(args[++i]);
+    if (!Number.isInteger(value) || value < 1) {
+      console.error(`Invalid value for ${arg}: ${args[i]}`);
+      process.exit(1);
+    }
+    if (arg === '--width') {
+      thumbnailOptions.width = value;
+    } else {
+      contactSheet[arg.slice(2)] = value;
+    }
+  } else if (command === 'thumbnails' && arg === '--middle') {
+    thumbnailOptions.middleFrame = true;
+  } else if (command === 'thumbnails' && arg === '--contact-sheet') {
+    thumbnailOptions.contactSheet = contactSheet;
+  } else if (command === 'split' && arg === '--mode') {
+    splitOptions.mode = args[++i];
+    if (splitOptions.mode !== 'copy' && splitOptions.mode !== 'encode') {
+      console.error(`Unknown split mode: ${splitOptions.mode} (use copy or encode)`);
+      process.exit(1);
+    }
+  } else if (command === 'split' && arg === '--name') {
+    splitOptions.fileName = args[++i];
+  } else if (command === 'split' && (arg === '--min-duration' || arg === '--max-duration')) {
+    const value = Number(args[++i]);
+    if (!Number.isFinite(value) || value <= 0) {
+      console.error(`Invalid value for ${arg}: ${args[i]}`);
+      process.exit(1);
+    }
+    splitOptions[arg === '--min-duration' ? 'minDuration' : 'maxDuration'] = value;
+  } else if (command === 'split' && arg === '--encode-options') {
+    splitOptions.encodeOptions = args[++i].split(/\s+/).filter(Boolean);
+  } else if (command !== 'detect' && arg === '--scenes') {
+    scenesPath = args[++i];
   } else if (arg === '--quiet' || arg === '-q') {
     quiet = true;
   } else if (arg === '--verbose' || arg === '-v') {
@@ -86,10 +230,40 @@ for (let i = 0; i < args.length; i++) {
   }
 }
 
+// Normalise format aliases
+const FORMAT_ALIASES = { txt: 'aegisub', tc: 'timecode', v2: 'timecodes-v2', mkv: 'matroska-chapters', ogm: 'ogm-chapters' };
+outputFormat = FORMAT_ALIASES[outputFormat] || outputFormat;
+
+// ffmpeg-expr is the expr: mode of the ffmpeg format
+let keyframeMode = 'timestamps';
+if (outputFormat === 'ffmpeg-expr') {
+  outputFormat = 'ffmpeg';
+  keyframeMode = 'expr';
+}
+
+const FORMAT_EXTENSIONS = {
+  json: '.json',
+  csv: '.csv',
+  edl: '.edl',
+  aegisub: '.txt',
+  timecode: '.txt',
+  'timecodes-v2': '.txt',
+  qpfile: '.qp',
+  ffmpeg: '.txt',
+  av1an: '.json',
+  'matroska-chapters': '.xml',
+  'ogm-chapters': '.txt'
+};
+if (command === 'detect' && !FORMAT_EXTENSIONS[outputFormat]) {
+  console.error(`Unknown format: ${outputFormat}`);
+  console.error('Run "scenecut --help" for usage');
+  process.exit(1);
+}
+
 // Validate video path
 if (!videoPath) {
   console.error('Error: No video file specified');
-  console.error('Usage: scenecut <video-file>');
+  console.error(command === 'detect' ? 'Usage: scenecut <video-file>' : `Usage: scenecut ${command} <video-file>`);
   console.error('Run "scenecut --help" for more information');
   process.exit(1);
 }
@@ -102,12 +276,18 @@ if (!fs.existsSync(videoPath)) {
   process.exit(1);
 }
 
+if (scenesPath && !fs.existsSync(scenesPath)) {
+  console.error(`Error: Scene file not found: ${path.resolve(scenesPath)}`);
+  process.exit(1);
+}
+
 // Generate default output path if not specified
 if (!outputPath) {
   const videoBasename = path.basename(videoPath, path.extname(videoPath));
-  const extension = (outputFormat === 'json') ? '.json' :
-                    (outputFormat === 'csv') ? '.csv' : '.txt';
-  outputPath = `${videoBasename}_keyframes${extension}`;
+  const OUTPUT_DIRECTORIES = { thumbnails: '_thumbnails', split: '_scenes' };
+  outputPath = command === 'detect'
+    ? `${videoBasename}_keyframes${FORMAT_EXTENSIONS[outputFormat]}`
+    : `${videoBasename}${OUTPUT_DIRECTORIES[command]}`;
 }
 
 // Get file info
@@ -131,10 +311,18 @@ async function run() {
   let lastProgressFrame = 0;
   let sceneCount = 0;
 
+  // Per-frame scores for the report
+  const frames = [];
+
   try {
-    const results = await detectSceneChanges(videoPath, {
+    const results = scenesPath ? await loadScenes() : await detectSceneChanges(videoPath, {
       sensitivity,
+      algorithm,
+      threshold,
       searchRange: 'medium',
+      chroma: chromaMode ? { enabled: true, mode: chromaMode } : undefined,
+      onAnalysis: reportPath ? (frame) => frames.push(frame) : undefined,
+      ...range,
       onProgress: (progress) => {
         if (quiet) return;
 
@@ -161,7 +349,8 @@ async function run() {
         sceneCount++;
         if (verbose && !quiet) {
           console.log();
-          console.log(`  Scene ${sceneCount}: Frame ${scene.frameNumber} at ${scene.timecode}`);
+          const confidence = scene.confidence !== undefined ? ` (confidence ${scene.confidence.toFixed(2)})` : '';
+          console.log(`  Scene ${sceneCount}: Frame ${scene.frameNumber} at ${scene.timecode}${confidence}`);
         }
       }
     });
@@ -169,7 +358,7 @@ async function run() {
     const endTime = Date.now();
     const elapsed = (endTime - startTime) / 1000;
 
-    if (!quiet) {
+    if (!quiet && !scenesPath) {
       console.log('\n');
       console.log('='.repeat(60));
       console.log('Complete!');
@@ -180,27 +369,38 @@ async function run() {
       console.log('='.repeat(60));
     }
 
-    // Format output
-    let output;
-    if (outputFormat === 'csv') {
-      output = formatCSV(results);
-      if (outputPath.endsWith('.json')) {
-        outputPath = outputPath.replace('.json', '.csv');
-      }
-    } else if (outputFormat === 'aegisub' || outputFormat === 'txt') {
-      output = formatAegisub(results);
-      if (outputPath.endsWith('.json')) {
-        outputPath = outputPath.replace('.json', '.txt');
-      }
-    } else if (outputFormat === 'timecode' || outputFormat === 'tc') {
-      output = formatTimecode(results);
-      if (outputPath.endsWith('.json')) {
-        outputPath = outputPath.replace('.json', '.txt');
+    if (reportPath) {
+      const report = await createHtmlReport(results, {
+        frames,
+        video: videoPath,
+        title: `Scenes in ${path.basename(videoPath)}`,
+        sensitivity: scenesPath ? undefined : sensitivity
+      });
+      fs.writeFileSync(reportPath, report);
+
+      if (!quiet) {
+        console.log(`Report saved to: ${path.resolve(reportPath)}`);
       }
-    } else {
-      output = JSON.stringify(results, null, 2);
     }
 
+    if (command === 'thumbnails') {
+      await saveThumbnails(results);
+      process.exit(0);
+    }
+
+    if (command === 'split') {
+      await splitScenes(results);
+      process.exit(0);
+    }
+
+    // Format output
+    const output = exportScenes(results, outputFormat, {
+      title: path.basename(videoPath),
+      fcm,
+      mode: keyframeMode,
+      nameTemplate: chapterName
+    });
+
     // Save to file
     fs.writeFileSync(outputPath, output);
 
@@ -230,6 +430,59 @@ async function run() {
   }
 }
 
+// Read scene changes from a keyframe file, timed with the video's own frame rate
+async function loadScenes() {
+  const decoder = new FFmpegDecoder(videoPath);
+  const metadata = await decoder.getMetadata();
+  const content = fs.readFileSync(scenesPath, 'utf8');
+
+  return importScenes(content, undefined, {
+    fps: metadata.fps,
+    totalFrames: metadata.totalFrames,
+    resolution: metadata.resolution
+  });
+}
+
+// Save thumbnails (and contact sheets) for the scenes
+async function saveThumbnails(results) {
+  const manifest = await generateThumbnails(videoPath, results.scenes, {
+    outputDir: outputPath,
+    ...thumbnailOptions
+  });
+
+  if (!quiet) {
+    console.log();
+    console.log(`Thumbnails: ${manifest.thumbnails.length} (${manifest.width}x${manifest.height} ${manifest.format})`);
+    manifest.contactSheets.forEach((sheet) => {
+      console.log(`Contact sheet: ${sheet.file} (${sheet.columns}x${sheet.rows})`);
+    });
+    console.log(`Saved to: ${path.resolve(outputPath)}`);
+  } else {
+    console.log(path.resolve(outputPath, 'manifest.json'));
+  }
+}
+
+// Write one file per scene
+async function splitScenes(results) {
+  const manifest = await splitByScenes(videoPath, results, {
+    outputDir: outputPath,
+    ...splitOptions,
+    onProgress: (done, total) => {
+      if (!quiet) {
+        process.stdout.write(`\rWriting clips: ${done}/${total}`);
+      }
+    }
+  });
+
+  if (!quiet) {
+    console.log();
+    console.log(`Clips: ${manifest.clips.length} (${manifest.mode})`);
+    console.log(`Saved to: ${path.resolve(outputPath)}`);
+  } else {
+    console.log(path.resolve(outputPath, 'manifest.json'));
+  }
+}
+
 // Helper functions
 function createProgressBar(percent) {
   const width = 30;
@@ -252,42 +505,5 @@ function formatTime(seconds) {
   }
 }
 
-function formatCSV(results) {
-  let csv = 'frame,timestamp,timecode\n';
-  results.scenes.forEach(scene => {
-    csv += `${scene.frameNumber},${scene.timestamp},${scene.timecode || ''}\n`;
-  });
-  return csv;
-}
-
-function formatAegisub(results) {
-  // Aegisub keyframes format - simple text file with frame numbers
-  // One frame number per line
-  let output = '# keyframe format v1\n';
-  output += `fps ${results.metadata.fps}\n`;
-  results.scenes.forEach(scene => {
-    output += `${scene.frameNumber}\n`;
-  });
-  return output;
-}
-
-function formatTimecode(results) {
-  // Simple timecode list - one per line
-  // Can be used with various subtitle tools
-  let output = '';
-  results.scenes.forEach(scene => {
-    output += `${scene.timecode || formatTimecodeFull(scene.timestamp)}\n`;
-  });
-  return output;
-}
-
-function formatTimecodeFull(seconds) {
-  const h = Math.floor(seconds / 3600);
-  const m = Math.floor((seconds % 3600) / 60);
-  const s = Math.floor(seconds % 60);
-  const ms = Math.floor((seconds % 1) * 1000);
-  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}.${ms.toString().padStart(3, '0')}`;
-}
-
 // Run
 run();
@@ -1,114 +1,45 @@
 /**
  * FFmpeg Decoder - Extract frames from video files
  *
- * Uses fluent-ffmpeg to extract grayscale frames for scene detection
+ * Uses fluent-ffmpeg to extract grayscale (or yuv420p) frames for scene detection
  */
 
 import * as ffmpeg from 'fluent-ffmpeg';
 import * as ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
 import * as ffprobeInstaller from '@ffprobe-installer/ffprobe';
-import { RawFrame, VideoMetadata } from '../types';
+import { RawFrame, Rational, VideoMetadata } from '../types';
 import { FrameBuffer } from './frame-buffer';
+import { BufferPool } from '../utils/buffer-pool';
+import { AbortError, DecodeTimeoutError, throwIfAborted } from '../utils/errors';
+import { chromaPlaneSize } from '../utils/chroma-histogram';
+import { calculateAnalysisSize, findFrameAtTime, getFrameTimestamp } from '../utils/frame-processor';
 import { Readable } from 'stream';
+import { spawn } from 'child_process';
 
 // Set FFmpeg and FFprobe paths from installers
 ffmpeg.setFfmpegPath(ffmpegInstaller.path);
 ffmpeg.setFfprobePath(ffprobeInstaller.path);
 
-/**
- * Ring Buffer - Fixed-size circular buffer for streaming data
- * Eliminates repeated Buffer.concat() allocations and GC pressure
- */
-class RingBuffer {
-  private buffer: Buffer;
-  private writePos: number = 0;
-  private readPos: number = 0;
-  private availableBytes: number = 0;
-  private capacity: number;
-
-  constructor(size: number = 8 * 1024 * 1024) { // 8MB default
-    this.buffer = Buffer.allocUnsafe(size);
-    this.capacity = size;
-  }
-
-  /**
-   * Write data to the ring buffer
-   */
-  write(chunk: Buffer): void {
-    const chunkSize = chunk.length;
-
-    if (chunkSize > this.capacity - this.availableBytes) {
-      throw new Error('RingBuffer overflow: chunk too large for available space');
-    }
-
-    // Write in two parts if wrapping around
-    const endSpace = this.capacity - this.writePos;
-
-    if (chunkSize <= endSpace) {
-      // No wrap-around needed
-      chunk.copy(this.buffer, this.writePos);
-      this.writePos += chunkSize;
-    } else {
-      // Wrap-around: split write
-      chunk.copy(this.buffer, this.writePos, 0, endSpace);
-      chunk.copy(this.buffer, 0, endSpace, chunkSize);
-      this.writePos = chunkSize - endSpace;
-    }
-
-    // Wrap write position if at end
-    if (this.writePos >= this.capacity) {
-      this.writePos = 0;
-    }
-
-    this.availableBytes += chunkSize;
-  }
+/** Requested frames further apart than this are fetched with a new seek instead of decoding through */
+const MAX_DECODE_GAP = 300;
 
-  /**
-   * Read data from the ring buffer
-   */
-  read(size: number): Buffer {
-    if (size > this.availableBytes) {
-      throw new Error('RingBuffer underflow: not enough data available');
-    }
-
-    const result = Buffer.allocUnsafe(size);
-    const endSpace = this.capacity - this.readPos;
-
-    if (size <= endSpace) {
-      // No wrap-around needed
-      this.buffer.copy(result, 0, this.readPos, this.readPos + size);
-      this.readPos += size;
-    } else {
-      // Wrap-around: split read
-      this.buffer.copy(result, 0, this.readPos, this.capacity);
-      this.buffer.copy(result, endSpace, 0, size - endSpace);
-      this.readPos = size - endSpace;
-    }
-
-    // Wrap read position if at end
-    if (this.readPos >= this.capacity) {
-      this.readPos = 0;
-    }
+/** Inactivity limit for extractFrame() when the decoder has no timeout of its own, in milliseconds */
+const RANDOM_ACCESS_TIMEOUT_MS = 30000;
 
-    this.availableBytes -= size;
-    return result;
-  }
+/** Largest gap between a decoded frame's PTS and a container timestamp that still counts as a match, in seconds */
+const PTS_TOLERANCE = 1e-4;
 
-  /**
-   * Get number of bytes available to read
-   */
-  available(): number {
-    return this.availableBytes;
-  }
+/** Frame line logged by the showinfo filter */
+const SHOWINFO_PATTERN = /Parsed_showinfo.*\bn:\s*\d+\s+pts:\s*-?\d+\s+pts_time:\s*(-?[\d.]+)/;
 
-  /**
-   * Reset the ring buffer
-   */
-  reset(): void {
-    this.writePos = 0;
-    this.readPos = 0;
-    this.availableBytes = 0;
-  }
+/**
+ * Options for one ffmpeg run
+ */
+interface PumpOptions {
+  /** Log every frame with showinfo and pass its PTS (container time, in seconds) to onData */
+  readPts?: boolean;
+  /** Kill ffmpeg when it delivers nothing for this many milliseconds (0 = no limit) */
+  timeout?: number;
 }
 
 export interface DecoderOptions {
@@ -118,12 +49,23 @@ export interface DecoderOptions {
   maxBufferFrames?: number;
   /** Skip every N frames for testing */
   skipFrames?: number;
+  /** Kill ffmpeg and reject with AbortError when aborted */
+  signal?: AbortSignal;
+  /** Metadata already read for this file by another decoder (skips probing) */
+  metadata?: VideoMetadata;
+  /** Fail with DecodeTimeoutError when ffmpeg delivers no data for this many milliseconds (default: no limit; 30 s for extractFrame) */
+  timeout?: number;
+  /** Scale frames taller than this down to this height, keeping the aspect ratio, with ffmpeg's area filter (default: no scaling) */
+  maxHeight?: number;
 }
 
 export class FFmpegDecoder {
   private videoPath: string;
-  private options: Required<DecoderOptions>;
+  private options: Required<Omit<DecoderOptions, 'signal' | 'metadata'>>;
+  private signal: AbortSignal | null;
   private metadata: VideoMetadata | null = null;
+  private keyframes: number[] | null = null;
+  private bufferPool: BufferPool;
   private frameBuffer: FrameBuffer;
 
   constructor(videoPath: string, options: DecoderOptions = {}) {
@@ -131,51 +73,208 @@ export class FFmpegDecoder {
     this.options = {
       pixelFormat: options.pixelFormat || 'gray',
       maxBufferFrames: options.maxBufferFrames || 2,
-      skipFrames: options.skipFrames || 0
+      skipFrames: options.skipFrames || 0,
+      timeout: options.timeout || 0,
+      maxHeight: options.maxHeight || 0
     };
-    this.frameBuffer = new FrameBuffer(this.options.maxBufferFrames);
+    this.signal = options.signal || null;
+    this.metadata = options.metadata || null;
+    this.bufferPool = new BufferPool();
+    this.frameBuffer = new FrameBuffer(this.options.maxBufferFrames, this.bufferPool);
   }
 
   /**
    * Get video metadata
+   *
+   * Stream information comes from ffprobe; the frame count and per-frame
+   * timestamps come from the container's packet timing, so they are exact
+   * for variable frame rate files too.
    */
   async getMetadata(): Promise<VideoMetadata> {
     if (this.metadata) {
       return this.metadata;
     }
 
-    return new Promise((resolve, reject) => {
+    throwIfAborted(this.signal);
+
+    const probed = await new Promise<ffmpeg.FfprobeData>((resolve, reject) => {
       ffmpeg.ffprobe(this.videoPath, (err, metadata) => {
         if (err) {
           reject(new Error(`Failed to read video metadata: ${err.message}`));
+        } else {
+          resolve(metadata);
+        }
+      });
+    });
+
+    const videoStream = probed.streams.find(s => s.codec_type === 'video');
+    if (!videoStream) {
+      throw new Error('No video stream found');
+    }
+
+    const rate = videoStream.r_frame_rate || videoStream.avg_frame_rate || '30/1';
+    const duration = parseFloat(String(probed.format.duration || 0));
+    const startTime = parseFloat(String(probed.format.start_time || 0)) || 0;
+    const packets = await this.probePacketTimes();
+    this.keyframes = packets.keyframes;
+
+    let fps = this.parseFps(rate);
+    let frameRate = this.parseFrameRate(rate);
+    let totalFrames = Math.floor(duration * fps);
+    let timestamps: number[] | undefined;
+    let vfr = false;
+
+    if (packets.count > 0) {
+      totalFrames = packets.count;
+    }
+
+    if (packets.times) {
+      // Rounded to microseconds so subtracting the start time leaves no float noise
+      timestamps = packets.times.map(time => Math.round((time - startTime) * 1e6) / 1e6);
+      vfr = this.isVariableFrameRate(timestamps, fps);
+
+      // A variable rate has no exact ratio; report the average instead
+      if (vfr) {
+        const span = timestamps[timestamps.length - 1] - timestamps[0];
+        fps = (timestamps.length - 1) / span;
+        frameRate = undefined;
+      }
+    }
+
+    this.metadata = {
+      totalFrames,
+      duration,
+      fps,
+      ...(frameRate ? { frameRate } : {}),
+      startTime,
+      vfr,
+      ...(timestamps ? { timestamps } : {}),
+      resolution: {
+        width: videoStream.width || 0,
+        height: videoStream.height || 0
+      }
+    };
+
+    return this.metadata;
+  }
+
+  /**
+   * Get the frame numbers of the source's keyframes
+   *
+   * Read from the container's packet flags, so nothing is decoded. Useful
+   * for snapping scene changes to points where a stream copy can start.
+   *
+   * @returns Keyframe frame numbers in ascending order
+   */
+  async getKeyframes(): Promise<number[]> {
+    if (!this.keyframes) {
+      this.keyframes = (await this.probePacketTimes()).keyframes;
+    }
+
+    return this.keyframes;
+  }
+
+  /**
+   * Read the presentation time and keyframe flag of every video packet with ffprobe
+   *
+   * Only the container is read (nothing is decoded). Packets come in decode
+   * order, so the times are sorted into presentation order.
+   *
+   * @returns Number of packets, their times in seconds (null if any packet has no timestamp), and keyframe frame numbers
+   */
+  private probePacketTimes(): Promise<{ count: number; times: number[] | null; keyframes: number[] }> {
+    throwIfAborted(this.signal);
+
+    return new Promise((resolve, reject) => {
+      const signal = this.signal;
+      const probe = spawn(ffprobeInstaller.path, [
+        '-v', 'error',
+        '-select_streams', 'v:0',
+        '-show_entries', 'packet=pts_time,dts_time,flags',
+        '-of', 'csv=p=0',
+        this.videoPath
+      ]);
+
+      const output: Buffer[] = [];
+      let errorOutput = '';
+
+      const onAbort = () => probe.kill('SIGKILL');
+      if (signal) {
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+
+      probe.stdout.on('data', (chunk: Buffer) => output.push(chunk));
+      probe.stderr.on('data', (chunk: Buffer) => {
+        errorOutput += chunk.toString();
+      });
+
+      probe.on('error', (err: Error) => {
+        if (signal) {
+          signal.removeEventListener('abort', onAbort);
+        }
+        reject(new Error(`Failed to read frame timestamps: ${err.message}`));
+      });
+
+      probe.on('close', (code: number | null) => {
+        if (signal) {
+          signal.removeEventListener('abort', onAbort);
+        }
+
+        if (signal && signal.aborted) {
+          reject(new AbortError(signal.reason));
           return;
         }
 
-        const videoStream = metadata.streams.find(s => s.codec_type === 'video');
-        if (!videoStream) {
-          reject(new Error('No video stream found'));
+        if (code !== 0) {
+          reject(new Error(`Failed to read frame timestamps: ${errorOutput.trim() || `ffprobe exited with code ${code}`}`));
           return;
         }
 
-        const fps = this.parseFps(videoStream.r_frame_rate || videoStream.avg_frame_rate || '30/1');
-        const duration = parseFloat(String(metadata.format.duration || 0));
-        const totalFrames = Math.floor(duration * fps);
-
-        this.metadata = {
-          totalFrames,
-          duration,
-          fps,
-          resolution: {
-            width: videoStream.width || 0,
-            height: videoStream.height || 0
+        const lines = Buffer.concat(output).toString().split('\n').filter(line => line.trim() !== '');
+        const packets = lines.map(line => {
+          // pts_time,dts_time,flags; either time may be N/A (raw streams have neither)
+          const [pts, dts, flags] = line.trim().split(',');
+          return { time: parseFloat(pts !== 'N/A' ? pts : dts), key: (flags || '').includes('K') };
+        });
+
+        // Without timestamps, decode order is the best guess at presentation order
+        const timed = packets.length > 0 && packets.every(packet => Number.isFinite(packet.time));
+        if (timed) {
+          packets.sort((a, b) => a.time - b.time);
+        }
+
+        const keyframes: number[] = [];
+        packets.forEach((packet, frameNumber) => {
+          if (packet.key) {
+            keyframes.push(frameNumber);
           }
-        };
+        });
 
-        resolve(this.metadata);
+        resolve({
+          count: lines.length,
+          times: timed ? packets.map(packet => packet.time) : null,
+          keyframes
+        });
       });
     });
   }
 
+  /**
+   * Check whether frame durations vary by more than timestamp rounding
+   */
+  private isVariableFrameRate(timestamps: number[], fps: number): boolean {
+    const nominal = 1 / fps;
+    const tolerance = Math.max(0.002, nominal * 0.05);
+
+    for (let i = 1; i < timestamps.length; i++) {
+      if (Math.abs(timestamps[i] - timestamps[i - 1] - nominal) > tolerance) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
   /**
    * Parse frame rate from FFmpeg format (e.g., "30000/1001")
    */
@@ -188,134 +287,632 @@ export class FFmpegDecoder {
   }
 
   /**
-   * Extract frames as grayscale data
+   * Parse an exact frame rate from FFmpeg format, if it is a ratio of integers
+   */
+  private parseFrameRate(fpsString: string): Rational | undefined {
+    const match = /^(\d+)\/(\d+)$/.exec(fpsString);
+    if (!match || match[1] === '0' || match[2] === '0') {
+      return undefined;
+    }
+    return { num: parseInt(match[1], 10), den: parseInt(match[2], 10) };
+  }
+
+  /**
+   * Size of the frames delivered: the video's resolution, scaled down to maxHeight
+   */
+  getFrameDimensions(metadata: VideoMetadata): { width: number; height: number } {
+    return calculateAnalysisSize(metadata.resolution.width, metadata.resolution.height, this.options.maxHeight);
+  }
+
+  /**
+   * Size of one decoded frame in bytes for the configured pixel format
+   */
+  private getFrameSize(width: number, height: number): number {
+    return this.options.pixelFormat === 'yuv420p'
+      ? width * height + 2 * chromaPlaneSize(width, height)
+      : width * height;
+  }
+
+  /**
+   * Wrap a pooled buffer of decoded output as a frame, without copying
+   *
+   * The planes are views into frameData; release() returns it to the pool.
+   */
+  private createFrame(frameData: Uint8Array, width: number, height: number, frameNumber: number, pts: number): RawFrame {
+    const lumaSize = width * height;
+    let released = false;
+
+    const frame: RawFrame = {
+      data: frameData.subarray(0, lumaSize),
+      width,
+      height,
+      stride: width,
+      pts,
+      frameNumber,
+      release: () => {
+        if (!released) {
+          released = true;
+          this.bufferPool.release(frameData);
+        }
+      }
+    };
+
+    if (this.options.pixelFormat === 'yuv420p') {
+      const chromaSize = chromaPlaneSize(width, height);
+      frame.u = frameData.subarray(lumaSize, lumaSize + chromaSize);
+      frame.v = frameData.subarray(lumaSize + chromaSize, lumaSize + 2 * chromaSize);
+    }
+
+    return frame;
+  }
+
+  /**
+   * Extract frames as grayscale data (plus U/V planes for yuv420p)
+   *
+   * Given a callback, every frame is decoded in order. Decoding waits for
+   * the promise returned by onFrame, so a slow consumer holds ffmpeg back
+   * instead of buffering frames.
    *
-   * @param onFrame Callback for each frame
+   * Given a list of frame numbers, just those frames are fetched exactly as
+   * extractFrame() does, with nearby frames sharing one decode pass.
+   *
+   * @param onFrame Callback for each frame; return false to stop decoding early
    * @param onProgress Optional progress callback
    */
   async extractFrames(
-    onFrame: (frame: RawFrame) => Promise<void> | void,
+    onFrame: (frame: RawFrame) => Promise<boolean | void> | boolean | void,
     onProgress?: (current: number, total: number) => void
-  ): Promise<void> {
+  ): Promise<void>;
+  /**
+   * @param frameNumbers Frames to fetch, in any order
+   * @returns The frames, in the order requested
+   */
+  async extractFrames(frameNumbers: number[]): Promise<RawFrame[]>;
+  async extractFrames(
+    onFrame: ((frame: RawFrame) => Promise<boolean | void> | boolean | void) | number[],
+    onProgress?: (current: number, total: number) => void
+  ): Promise<void | RawFrame[]> {
+    if (Array.isArray(onFrame)) {
+      return this.extractFrameList(onFrame);
+    }
+
     const metadata = await this.getMetadata();
-    const { width, height } = metadata.resolution;
+    const { width, height } = this.getFrameDimensions(metadata);
+    const frameSize = this.getFrameSize(width, height);
+    let frameNumber = 0;
+
+    // Pass frames through as decoded: the pipe's default constant rate would duplicate or drop VFR frames
+    const command = ffmpeg.default(this.videoPath).outputOptions(['-vsync', '0']);
+
+    await this.pumpFrames(command, frameSize, async (frameData: Uint8Array) => {
+      // Skip frames if requested
+      if (this.options.skipFrames > 0 && frameNumber % (this.options.skipFrames + 1) !== 0) {
+        this.bufferPool.release(frameData);
+        frameNumber++;
+        return;
+      }
+
+      // Create RawFrame
+      const frame = this.createFrame(frameData, width, height, frameNumber, getFrameTimestamp(metadata, frameNumber));
+
+      const more = await onFrame(frame);
+
+      // Progress callback
+      if (onProgress && frameNumber % 30 === 0) {
+        onProgress(frameNumber, metadata.totalFrames);
+      }
+
+      frameNumber++;
+      return more;
+    }, { timeout: this.options.timeout });
+  }
 
-    return new Promise((resolve, reject) => {
-      let frameNumber = 0;
-      const ringBuffer = new RingBuffer(); // 8MB ring buffer
-      const frameSize = width * height; // Grayscale: 1 byte per pixel
+  /**
+   * Extract a range of frames using a frame-accurate input seek
+   *
+   * FFmpeg seeks to the keyframe before the range and decodes forward,
+   * discarding everything before the midpoint between startFrame and the
+   * frame before it, so the first frame delivered is startFrame itself.
+   *
+   * @param startFrame First frame to extract
+   * @param endFrame Last frame to extract (inclusive), or Infinity for the end of the stream
+   * @param step Deliver every Nth frame counted from startFrame; endFrame is always delivered
+   * @param onFrame Callback for each frame; return false to stop decoding early
+   */
+  async extractFrameRange(
+    startFrame: number,
+    endFrame: number,
+    step: number,
+    onFrame: (frame: RawFrame) => Promise<boolean | void> | boolean | void
+  ): Promise<void> {
+    return this.decodeRange(startFrame, endFrame, step, onFrame, this.options.timeout);
+  }
 
-      const command = ffmpeg.default(this.videoPath)
-        .outputOptions([
-          '-f', 'image2pipe',
-          '-pix_fmt', 'gray',
-          '-vcodec', 'rawvideo'
-        ])
-        .on('error', (err: Error) => {
-          reject(new Error(`FFmpeg error: ${err.message}`));
-        })
-        .on('end', () => {
-          resolve();
-        });
+  /**
+   * extractFrameRange() with an explicit inactivity timeout
+   */
+  private async decodeRange(
+    startFrame: number,
+    endFrame: number,
+    step: number,
+    onFrame: (frame: RawFrame) => Promise<boolean | void> | boolean | void,
+    timeout: number
+  ): Promise<void> {
+    if (!Number.isInteger(startFrame) || startFrame < 0) {
+      throw new Error(`Invalid start frame: ${startFrame}`);
+    }
+    if ((endFrame !== Infinity && !Number.isInteger(endFrame)) || endFrame < startFrame) {
+      throw new Error(`Invalid end frame: ${endFrame} (start frame: ${startFrame})`);
+    }
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid frame step: ${step}`);
+    }
 
-      const stream = command.pipe() as Readable;
+    const metadata = await this.getMetadata();
+    const { width, height } = this.getFrameDimensions(metadata);
+    const frameSize = this.getFrameSize(width, height);
 
-      stream.on('data', async (chunk: Buffer) => {
-        // Write chunk to ring buffer (no allocation, no copying)
-        ringBuffer.write(chunk);
+    // Frames ffmpeg will deliver: every step-th one, plus endFrame itself
+    const span = endFrame - startFrame;
+    const frameCount = span === Infinity
+      ? Infinity
+      : Math.floor(span / step) + 1 + (span % step !== 0 ? 1 : 0);
 
-        // Process complete frames
-        while (ringBuffer.available() >= frameSize) {
-          const frameData = ringBuffer.read(frameSize);
+    const command = ffmpeg.default(this.videoPath);
 
-          // Skip frames if requested
-          if (this.options.skipFrames > 0 && frameNumber % (this.options.skipFrames + 1) !== 0) {
-            frameNumber++;
-            continue;
-          }
+    if (startFrame > 0) {
+      const seekTime = (getFrameTimestamp(metadata, startFrame - 1) + getFrameTimestamp(metadata, startFrame)) / 2;
+      command.seekInput(seekTime);
+    }
 
-          // Create RawFrame
-          const frame: RawFrame = {
-            data: new Uint8Array(frameData),
-            width,
-            height,
-            stride: width,
-            pts: frameNumber / metadata.fps,
-            frameNumber
-          };
-
-          // Call callback
-          try {
-            await onFrame(frame);
-          } catch (err) {
-            stream.destroy();
-            reject(err);
-            return;
-          }
+    // After the seek, n counts from startFrame
+    if (step > 1) {
+      const last = span !== Infinity ? `+eq(n,${span})` : '';
+      command.videoFilters(`select='not(mod(n,${step}))${last}'`);
+    }
 
-          // Progress callback
-          if (onProgress && frameNumber % 30 === 0) {
-            onProgress(frameNumber, metadata.totalFrames);
-          }
+    command.outputOptions(['-vsync', '0']);
+    if (frameCount !== Infinity) {
+      command.outputOptions(['-frames:v', String(frameCount)]);
+    }
 
-          frameNumber++;
-        }
-      });
+    let index = 0;
 
-      stream.on('error', (err) => {
-        reject(new Error(`Stream error: ${err.message}`));
-      });
-    });
+    await this.pumpFrames(command, frameSize, (frameData: Uint8Array) => {
+      if (index >= frameCount) {
+        this.bufferPool.release(frameData);
+        return false;
+      }
+
+      const frameNumber = Math.min(startFrame + index * step, endFrame);
+      index++;
+
+      return onFrame(this.createFrame(frameData, width, height, frameNumber, getFrameTimestamp(metadata, frameNumber)));
+    }, { timeout });
   }
 
   /**
-   * Extract a single frame at specific frame number
+   * Extract a single frame, exactly
+   *
+   * Decoding starts at the keyframe before the frame and each decoded frame
+   * is identified by its PTS, so long GOPs and variable frame rates can't
+   * shift the result. Files without container timestamps fall back to an
+   * accurate seek by frame count.
+   *
+   * @param frameNumber Frame to extract
+   * @throws Error if the stream has no such frame, DecodeTimeoutError if ffmpeg stalls
    */
   async extractFrame(frameNumber: number): Promise<RawFrame> {
+    const [frame] = await this.extractFrameList([frameNumber]);
+    return frame;
+  }
+
+  /**
+   * Fetch a list of frames, decoding nearby ones in a single pass
+   */
+  private async extractFrameList(frameNumbers: number[]): Promise<RawFrame[]> {
     const metadata = await this.getMetadata();
-    const { width, height } = metadata.resolution;
-    const timestamp = frameNumber / metadata.fps;
+
+    for (const frameNumber of frameNumbers) {
+      if (!Number.isInteger(frameNumber) || frameNumber < 0) {
+        throw new Error(`Invalid frame number: ${frameNumber}`);
+      }
+      if (metadata.totalFrames > 0 && frameNumber >= metadata.totalFrames) {
+        throw new Error(`Frame ${frameNumber} not found (video has ${metadata.totalFrames} frames)`);
+      }
+    }
+
+    const targets = Array.from(new Set(frameNumbers)).sort((a, b) => a - b);
+    const found = new Map<number, RawFrame>();
+    let first = 0;
+
+    while (first < targets.length) {
+      let last = first;
+      while (last + 1 < targets.length && targets[last + 1] - targets[last] <= MAX_DECODE_GAP) {
+        last++;
+      }
+
+      await this.decodeTargets(targets.slice(first, last + 1), found, metadata);
+      first = last + 1;
+    }
+
+    return frameNumbers.map(frameNumber => found.get(frameNumber)!);
+  }
+
+  /**
+   * Decode a group of frames (sorted, close together) into found
+   */
+  private async decodeTargets(
+    targets: number[],
+    found: Map<number, RawFrame>,
+    metadata: VideoMetadata
+  ): Promise<void> {
+    const timeout = this.options.timeout || RANDOM_ACCESS_TIMEOUT_MS;
+    const wanted = new Set(targets);
+    const lastTarget = targets[targets.length - 1];
+
+    if (!metadata.timestamps) {
+      // Nothing to match PTS against: count frames from an accurate seek instead
+      await this.decodeRange(targets[0], lastTarget, 1, (frame: RawFrame) => {
+        if (wanted.has(frame.frameNumber)) {
+          found.set(frame.frameNumber, frame);
+        } else {
+          frame.release!();
+        }
+      }, timeout);
+    } else {
+      // Demuxers that can't seek precisely may land past the target: back off, then start over
+      const targetTime = getFrameTimestamp(metadata, targets[0]);
+      const seekTimes = Array.from(new Set([targetTime, Math.max(0, targetTime - 10), 0]));
+
+      for (const seekTime of seekTimes) {
+        const overshot = await this.decodeByPts(seekTime, targets, found, metadata, timeout);
+        if (!overshot) {
+          break;
+        }
+      }
+    }
+
+    const missing = targets.find(frameNumber => !found.has(frameNumber));
+    if (missing !== undefined) {
+      throw new Error(`Frame ${missing} not found (video has ${metadata.totalFrames} frames)`);
+    }
+  }
+
+  /**
+   * Decode from the keyframe before seekTime, keeping the target frames by PTS
+   *
+   * @returns true if decoding started after the first missing target
+   */
+  private async decodeByPts(
+    seekTime: number,
+    targets: number[],
+    found: Map<number, RawFrame>,
+    metadata: VideoMetadata,
+    timeout: number
+  ): Promise<boolean> {
+    const { width, height } = this.getFrameDimensions(metadata);
+    const missing = targets.filter(frameNumber => !found.has(frameNumber));
+    if (missing.length === 0) {
+      return false;
+    }
+
+    // No accurate seek: ffmpeg would drop frames by its own count; -copyts keeps container PTS
+    const command = ffmpeg.default(this.videoPath)
+      .inputOptions(['-noaccurate_seek', '-copyts'])
+      .outputOptions(['-vsync', '0']);
+
+    if (seekTime > 0) {
+      command.seekInput(seekTime);
+    }
+
+    const wanted = new Set(missing);
+    const lastTarget = missing[missing.length - 1];
+    let matched = false;
+    let overshot = false;
+
+    await this.pumpFrames(command, this.getFrameSize(width, height), (frameData: Uint8Array, pts: number | null) => {
+      const frameNumber = pts !== null ? this.findFrameByPts(metadata, pts) : -1;
+
+      if (frameNumber >= 0 && !matched) {
+        matched = true;
+        overshot = frameNumber > missing[0];
+      }
+
+      if (overshot || !wanted.has(frameNumber)) {
+        this.bufferPool.release(frameData);
+      } else {
+        found.set(frameNumber, this.createFrame(frameData, width, height, frameNumber, getFrameTimestamp(metadata, frameNumber)));
+      }
+
+      // Frames without a matching PTS (-1) are skipped
+      return !overshot && frameNumber < lastTarget;
+    }, { readPts: true, timeout });
+
+    return overshot;
+  }
+
+  /**
+   * Frame number for a decoded frame's container PTS, or -1 if none matches
+   */
+  private findFrameByPts(metadata: VideoMetadata, pts: number): number {
+    const timestamps = metadata.timestamps!;
+    const time = pts - (metadata.startTime || 0);
+    const index = Math.min(findFrameAtTime(metadata, time), timestamps.length - 1);
+
+    for (const candidate of [index - 1, index]) {
+      if (candidate >= 0 && Math.abs(timestamps[candidate] - time) <= PTS_TOLERANCE) {
+        return candidate;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * Run an ffmpeg command and deliver its raw output frame by frame
+   *
+   * Output is read with async iteration, so the next chunk is only pulled
+   * once every frame in the last one has been handled: frames arrive in
+   * order, one at a time, and a slow onData holds ffmpeg back through the
+   * pipe instead of piling up data.
+   *
+   * Chunks are copied straight into buffers from the decoder's pool. onData
+   * owns each buffer it is given: wrap it with createFrame() or release it.
+   *
+   * With maxHeight set, frames are scaled here, after the command's own
+   * filters (so a select filter drops frames before they are scaled).
+   *
+   * @param command FFmpeg command with input, seek and filters configured
+   * @param frameSize Size of one frame in bytes
+   * @param onData Callback for each frame with its PTS (null unless readPts); return false to stop decoding early
+   * @param options PTS reporting and inactivity timeout
+   */
+  private pumpFrames(
+    command: ffmpeg.FfmpegCommand,
+    frameSize: number,
+    onData: (frameData: Uint8Array, pts: number | null) => Promise<boolean | void> | boolean | void,
+    options: PumpOptions = {}
+  ): Promise<void> {
+    throwIfAborted(this.signal);
 
     return new Promise((resolve, reject) => {
-      const ringBuffer = new RingBuffer();
-      const frameSize = width * height;
+      const signal = this.signal;
+      const timeout = options.timeout || 0;
+      const ptsQueue: number[] = [];
+      let ptsWaiter: (() => void) | null = null;
+      let idleTimer: NodeJS.Timeout | null = null;
+      let finished = false;
+      let stopping = false;
+      let stopError: Error | null = null;
+      let commandEnded = false;
+      let streamEnded = false;
+
+      // Frame being filled straight from the pipe, in a buffer from the pool
+      let partial: Uint8Array | null = null;
+      let filled = 0;
+
+      const wakePtsWaiter = () => {
+        const wake = ptsWaiter;
+        ptsWaiter = null;
+        if (wake) {
+          wake();
+        }
+      };
+
+      // Frame data and showinfo lines arrive on different pipes, so either may come first
+      const nextPts = async (): Promise<number | null> => {
+        while (ptsQueue.length === 0 && !commandEnded && !finished && !stopping) {
+          armIdleTimer();
+          await new Promise<void>(resolve => {
+            ptsWaiter = resolve;
+          });
+          clearIdleTimer();
+        }
+
+        return ptsQueue.length > 0 ? ptsQueue.shift()! : null;
+      };
+
+      const clearIdleTimer = () => {
+        if (idleTimer) {
+          clearTimeout(idleTimer);
+          idleTimer = null;
+        }
+      };
+
+      // Restarted whenever ffmpeg shows signs of life; paused while onData holds it back
+      const armIdleTimer = () => {
+        clearIdleTimer();
+
+        if (timeout > 0 && !finished && !stopping) {
+          idleTimer = setTimeout(() => {
+            idleTimer = null;
+            if (!finished && !stopping) {
+              stop(new DecodeTimeoutError(timeout));
+            }
+          }, timeout);
+        }
+      };
+
+      const finish = (err?: Error) => {
+        if (finished) {
+          return;
+        }
+        finished = true;
+        clearIdleTimer();
+        wakePtsWaiter();
+
+        if (partial) {
+          this.bufferPool.release(partial);
+          partial = null;
+        }
+
+        if (signal) {
+          signal.removeEventListener('abort', onAbort);
+        }
+
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      };
+
+      // Kill ffmpeg and settle once it has exited, so no process outlives the call
+      const stop = (err?: Error) => {
+        stopping = true;
+        stopError = err || null;
+        clearIdleTimer();
+        wakePtsWaiter();
+
+        if (commandEnded) {
+          finish(stopError || undefined);
+          return;
+        }
 
-      const command = ffmpeg.default(this.videoPath)
-        .seekInput(timestamp)
+        command.kill('SIGKILL');
+      };
+
+      const metadata = this.metadata;
+      if (metadata) {
+        const { width, height } = this.getFrameDimensions(metadata);
+        if (width !== metadata.resolution.width || height !== metadata.resolution.height) {
+          command.videoFilters(`scale=${width}:${height}:flags=area`);
+        }
+      }
+
+      if (options.readPts) {
+        command
+          .videoFilters('showinfo')
+          .on('stderr', (line: string) => {
+            const match = SHOWINFO_PATTERN.exec(line);
+            if (match) {
+              ptsQueue.push(parseFloat(match[1]));
+              wakePtsWaiter();
+              if (idleTimer) {
+                armIdleTimer();
+              }
+            }
+          });
+      }
+
+      command
         .outputOptions([
-          '-vframes', '1',
           '-f', 'image2pipe',
-          '-pix_fmt', 'gray',
+          '-pix_fmt', this.options.pixelFormat,
           '-vcodec', 'rawvideo'
         ])
         .on('error', (err: Error) => {
-          reject(new Error(`FFmpeg error: ${err.message}`));
+          // A kill we asked for is not an error
+          if (stopping) {
+            finish(stopError || undefined);
+          } else {
+            finish(new Error(`FFmpeg error: ${err.message}`));
+          }
+        })
+        .on('end', () => {
+          commandEnded = true;
+          clearIdleTimer();
+          wakePtsWaiter();
+
+          // Frames may still be waiting in the pipe
+          if (streamEnded || stopping) {
+            finish(stopError || undefined);
+          }
         });
 
       const stream = command.pipe() as Readable;
 
-      stream.on('data', (chunk: Buffer) => {
-        ringBuffer.write(chunk);
+      // Copy a chunk into pooled frames, handing each complete one to onData (which then owns it);
+      // false once decoding should stop
+      const deliverChunk = async (chunk: Buffer): Promise<boolean> => {
+        let offset = 0;
+
+        while (offset < chunk.length) {
+          if (!partial) {
+            partial = this.bufferPool.acquire(frameSize, false);
+            filled = 0;
+          }
+
+          const count = Math.min(frameSize - filled, chunk.length - offset);
+          partial.set(chunk.subarray(offset, offset + count), filled);
+          filled += count;
+          offset += count;
 
-        if (ringBuffer.available() >= frameSize) {
-          const frameData = ringBuffer.read(frameSize);
+          if (filled < frameSize) {
+            break;
+          }
+
+          const frameData = partial;
+          partial = null;
 
-          const frame: RawFrame = {
-            data: new Uint8Array(frameData),
-            width,
-            height,
-            stride: width,
-            pts: timestamp,
-            frameNumber
-          };
+          const pts = options.readPts ? await nextPts() : null;
+          if (finished || stopping) {
+            this.bufferPool.release(frameData);
+            return false;
+          }
 
-          resolve(frame);
+          if ((await onData(frameData, pts)) === false) {
+            return false;
+          }
         }
-      });
 
-      stream.on('error', (err) => {
-        reject(new Error(`Stream error: ${err.message}`));
-      });
+        return true;
+      };
+
+      const consume = async () => {
+        try {
+          for await (const chunk of stream) {
+            // Once stopping, drain what is left so ffmpeg's exit is noticed
+            if (finished || stopping) {
+              continue;
+            }
+
+            clearIdleTimer();
+
+            let more: boolean;
+            try {
+              more = await deliverChunk(chunk as Buffer);
+            } catch (err) {
+              stop(err as Error);
+              continue;
+            }
+
+            if (!more) {
+              if (!finished && !stopping) {
+                stop();
+              }
+              continue;
+            }
+
+            armIdleTimer();
+          }
+        } catch (err) {
+          if (!finished && !stopping) {
+            stop(new Error(`Stream error: ${(err as Error).message}`));
+          }
+          return;
+        }
+
+        streamEnded = true;
+        if (commandEnded) {
+          finish(stopError || undefined);
+        }
+      };
+
+      // Aborting kills ffmpeg even while it is held back waiting for onData
+      const onAbort = () => {
+        if (!finished && !stopping) {
+          stop(new AbortError(signal!.reason));
+        }
+      };
+
+      if (signal) {
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+
+      armIdleTimer();
+      consume();
     });
   }
 
@@ -331,5 +928,6 @@ export class FFmpegDecoder {
    */
   destroy(): void {
     this.frameBuffer.clear();
+    this.bufferPool.clear();
   }
 }
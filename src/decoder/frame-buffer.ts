@@ -37,7 +37,7 @@ export class FrameBuffer {
 
     // Release the evicted frame's buffer back to pool
     if (evictedFrame) {
-      this.bufferPool.release(evictedFrame.data);
+      this.releaseFrame(evictedFrame);
     }
 
     // Store the new frame
@@ -111,7 +111,7 @@ export class FrameBuffer {
     // Release all buffers back to pool
     for (const frame of this.frames) {
       if (frame) {
-        this.bufferPool.release(frame.data);
+        this.releaseFrame(frame);
       }
     }
 
@@ -133,6 +133,17 @@ export class FrameBuffer {
     return this.size() === this.maxFrames;
   }
 
+  /**
+   * Return a frame's memory, to the pool it came from if it has one
+   */
+  private releaseFrame(frame: RawFrame): void {
+    if (frame.release) {
+      frame.release();
+    } else {
+      this.bufferPool.release(frame.data);
+    }
+  }
+
   /**
    * Get buffer statistics
    */
@@ -0,0 +1,452 @@
+/**
+ * Frame Sources - Feed frames decoded outside ffmpeg to the detector
+ *
+ * - PushFrameSource: push RawFrame objects from your own decoder
+ * - ReadableFrameSource: read headerless gray or YUV4MPEG2 from any Readable
+ */
+
+import { Readable } from 'stream';
+import {
+  FrameSource,
+  PushFrameSourceOptions,
+  RawFrame,
+  ReadableFrameSourceOptions,
+  VideoMetadata
+} from '../types';
+import { ChunkReader } from '../utils/chunk-reader';
+import { AbortError, throwIfAborted } from '../utils/errors';
+import { validateFrameDimensions } from '../utils/frame-processor';
+import { Y4mReader, y4mMetadata } from './y4m-decoder';
+
+/**
+ * Frame queued by push(), settled once the detector has analysed it
+ */
+interface PendingFrame {
+  frame: RawFrame;
+  resolve: (accepted: boolean) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * Build metadata for a source with a known resolution and frame rate
+ */
+function createMetadata(width: number, height: number, fps: number, totalFrames: number): VideoMetadata {
+  validateFrameDimensions(width, height, Infinity);
+
+  if (!(fps > 0) || !Number.isFinite(fps)) {
+    throw new Error(`Invalid frame rate: ${fps}`);
+  }
+
+  return {
+    totalFrames,
+    duration: totalFrames / fps,
+    fps,
+    resolution: { width, height }
+  };
+}
+
+/**
+ * Copy a frame's luma into a packed buffer (stride === width) if it isn't already
+ */
+function packFrame(frame: RawFrame): RawFrame {
+  const { width, height, stride } = frame;
+  const size = width * height;
+
+  if (stride === width && frame.data.length === size) {
+    return frame;
+  }
+
+  if (stride < width || frame.data.length < stride * (height - 1) + width) {
+    throw new Error(`Frame data too small for ${width}x${height} with stride ${stride}`);
+  }
+
+  const data = new Uint8Array(size);
+  for (let y = 0; y < height; y++) {
+    data.set(frame.data.subarray(y * stride, y * stride + width), y * width);
+  }
+
+  return { ...frame, data, stride: width };
+}
+
+/**
+ * Frame source fed by push()
+ *
+ * push() resolves once the detector has analysed the frame, so awaiting it
+ * keeps the producer in step with detection. Once detection has stopped,
+ * for whatever reason, push() resolves false.
+ *
+ * @example
+ * ```typescript
+ * const source = new PushFrameSource({ width: 1920, height: 1080, fps: 24 });
+ *
+ * const feed = async () => {
+ *   try {
+ *     for (const frame of myDecoder) {
+ *       if (!(await source.push(frame))) break; // Detection stopped
+ *     }
+ *   } finally {
+ *     source.end();
+ *   }
+ * };
+ *
+ * // Awaiting both at once reports a failed detection instead of leaving it unhandled
+ * const [result] = await Promise.all([detector.detect(source), feed()]);
+ * ```
+ */
+export class PushFrameSource implements FrameSource {
+  private metadata: VideoMetadata;
+  private signal: AbortSignal | null;
+  private queue: PendingFrame[] = [];
+  private wakeConsumer: (() => void) | null = null;
+  private ended: boolean = false;
+  private closed: boolean = false;
+  private failure: Error | null = null;
+  private started: boolean = false;
+
+  /**
+   * Create a push source
+   *
+   * @param options Resolution, frame rate and optional frame count
+   */
+  constructor(options: PushFrameSourceOptions) {
+    this.metadata = createMetadata(options.width, options.height, options.fps, options.totalFrames || 0);
+    this.signal = options.signal || null;
+  }
+
+  /**
+   * Get video metadata
+   */
+  async getMetadata(): Promise<VideoMetadata> {
+    return this.metadata;
+  }
+
+  /**
+   * Queue a frame for detection
+   *
+   * Frames with padded rows are repacked; frameNumber and pts are used as given.
+   *
+   * @param frame 8-bit luma frame matching the source resolution
+   * @returns true once the frame has been analysed, false if detection has stopped
+   */
+  push(frame: RawFrame): Promise<boolean> {
+    if (this.ended) {
+      return Promise.reject(new Error('push() called after end()'));
+    }
+
+    const { width, height } = this.metadata.resolution;
+    if (frame.width !== width || frame.height !== height) {
+      return Promise.reject(new Error(
+        `Frame ${frame.frameNumber} is ${frame.width}x${frame.height}, expected ${width}x${height}`
+      ));
+    }
+
+    if (this.closed) {
+      return Promise.resolve(false);
+    }
+
+    let packed: RawFrame;
+    try {
+      packed = packFrame(frame);
+    } catch (err) {
+      return Promise.reject(err);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ frame: packed, resolve, reject });
+      this.wake();
+    });
+  }
+
+  /**
+   * Signal that no more frames will be pushed
+   */
+  end(): void {
+    this.ended = true;
+    this.wake();
+  }
+
+  /**
+   * Fail the running detection with an error from the producer
+   */
+  error(err: Error): void {
+    this.failure = err;
+    this.ended = true;
+    this.wake();
+  }
+
+  /**
+   * Deliver pushed frames in order until end() is called
+   *
+   * @param onFrame Callback for each frame; return false to stop early
+   * @param onProgress Optional progress callback (only when totalFrames is known)
+   */
+  async extractFrames(
+    onFrame: (frame: RawFrame) => Promise<boolean | void> | boolean | void,
+    onProgress?: (current: number, total: number) => void
+  ): Promise<void> {
+    if (this.started) {
+      throw new Error('PushFrameSource can only be read once');
+    }
+    this.started = true;
+    throwIfAborted(this.signal);
+
+    const signal = this.signal;
+    const onAbort = () => this.wake();
+    if (signal) {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+
+    let delivered = 0;
+
+    try {
+      while (true) {
+        throwIfAborted(signal);
+
+        const pending = this.queue.shift();
+        if (!pending) {
+          if (this.failure) {
+            throw this.failure;
+          }
+          if (this.ended) {
+            break;
+          }
+
+          await new Promise<void>(resolve => {
+            this.wakeConsumer = resolve;
+          });
+          continue;
+        }
+
+        let more: boolean | void;
+        try {
+          more = await onFrame(pending.frame);
+        } catch (err) {
+          pending.reject(err as Error);
+          throw err;
+        }
+
+        pending.resolve(more !== false);
+        delivered++;
+
+        if (onProgress && this.metadata.totalFrames > 0 && delivered % 30 === 0) {
+          onProgress(delivered, this.metadata.totalFrames);
+        }
+
+        if (more === false) {
+          break;
+        }
+      }
+    } finally {
+      if (signal) {
+        signal.removeEventListener('abort', onAbort);
+      }
+      this.close();
+    }
+
+    if (!this.metadata.totalFrames) {
+      this.metadata.totalFrames = delivered;
+      this.metadata.duration = delivered / this.metadata.fps;
+    }
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    this.close();
+  }
+
+  /**
+   * Stop accepting frames; anything still queued, and anything pushed
+   * later, is reported as not analysed
+   *
+   * The detector calls this when its run ends, including a run that failed
+   * before reading the first frame.
+   */
+  close(): void {
+    this.closed = true;
+
+    for (const pending of this.queue.splice(0)) {
+      pending.resolve(false);
+    }
+  }
+
+  /**
+   * Wake extractFrames() if it is waiting for a frame
+   */
+  private wake(): void {
+    const resolve = this.wakeConsumer;
+    this.wakeConsumer = null;
+    if (resolve) {
+      resolve();
+    }
+  }
+}
+
+/**
+ * Frame source that reads a Node stream, e.g. a decoder's stdout
+ *
+ * 'gray' streams are headerless width × height frames back to back; 'y4m'
+ * streams carry their own resolution and frame rate, and only the luma
+ * plane of each frame is kept unless the chroma option is set.
+ *
+ * @example
+ * ```typescript
+ * const vspipe = spawn('vspipe', ['-c', 'y4m', 'script.vpy', '-']);
+ * const source = new ReadableFrameSource(vspipe.stdout, { format: 'y4m' });
+ * const result = await detector.detect(source);
+ * ```
+ */
+export class ReadableFrameSource implements FrameSource {
+  private stream: Readable;
+  private reader: ChunkReader;
+  private y4m: Y4mReader | null;
+  private options: ReadableFrameSourceOptions;
+  private metadataPromise: Promise<VideoMetadata> | null = null;
+  private started: boolean = false;
+
+  /**
+   * Create a stream source
+   *
+   * @param stream Stream to read frames from
+   * @param options Stream format, plus resolution and frame rate for 'gray'
+   */
+  constructor(stream: Readable, options: ReadableFrameSourceOptions) {
+    if (options.format !== 'gray' && options.format !== 'y4m') {
+      throw new Error(`Unknown frame stream format: ${options.format}`);
+    }
+
+    this.stream = stream;
+    this.reader = new ChunkReader(stream);
+    this.y4m = options.format === 'y4m' ? new Y4mReader(this.reader, { chroma: options.chroma }) : null;
+    this.options = options;
+
+    const signal = options.signal;
+    if (signal) {
+      const onAbort = () => stream.destroy(new AbortError(signal.reason));
+
+      if (signal.aborted) {
+        onAbort();
+      } else {
+        signal.addEventListener('abort', onAbort, { once: true });
+        stream.once('close', () => signal.removeEventListener('abort', onAbort));
+      }
+    }
+  }
+
+  /**
+   * Get video metadata (reads the header of a y4m stream)
+   */
+  getMetadata(): Promise<VideoMetadata> {
+    if (!this.metadataPromise) {
+      this.metadataPromise = this.options.format === 'y4m'
+        ? this.y4mMetadata()
+        : this.grayMetadata();
+    }
+
+    return this.metadataPromise;
+  }
+
+  /**
+   * Read frames until the end of the stream
+   *
+   * @param onFrame Callback for each frame; return false to stop early (the stream is destroyed)
+   * @param onProgress Optional progress callback (only when totalFrames is known)
+   */
+  async extractFrames(
+    onFrame: (frame: RawFrame) => Promise<boolean | void> | boolean | void,
+    onProgress?: (current: number, total: number) => void
+  ): Promise<void> {
+    if (this.started) {
+      throw new Error('ReadableFrameSource can only be read once');
+    }
+    this.started = true;
+
+    const metadata = await this.getMetadata();
+    const { width, height } = metadata.resolution;
+    let frameNumber = 0;
+
+    while (true) {
+      const frame = this.y4m
+        ? await this.y4m.readFrame(frameNumber)
+        : await this.readGrayFrame(frameNumber, width, height, metadata.fps);
+
+      if (!frame) {
+        break;
+      }
+
+      const more = await onFrame(frame);
+
+      frameNumber++;
+
+      if (onProgress && metadata.totalFrames > 0 && frameNumber % 30 === 0) {
+        onProgress(frameNumber, metadata.totalFrames);
+      }
+
+      if (more === false) {
+        await this.reader.close();
+        break;
+      }
+    }
+
+    if (!this.options.totalFrames) {
+      metadata.totalFrames = frameNumber;
+      metadata.duration = frameNumber / metadata.fps;
+    }
+  }
+
+  /**
+   * Clean up resources (destroys the stream)
+   */
+  destroy(): void {
+    this.stream.destroy();
+  }
+
+  /**
+   * Metadata for a headerless gray stream, which must come from the options
+   */
+  private async grayMetadata(): Promise<VideoMetadata> {
+    const { width, height, fps } = this.options;
+
+    if (!width || !height || !fps) {
+      throw new Error('Gray frame streams need width, height and fps options');
+    }
+
+    return createMetadata(width, height, fps, this.options.totalFrames || 0);
+  }
+
+  /**
+   * Metadata from a y4m stream header
+   */
+  private async y4mMetadata(): Promise<VideoMetadata> {
+    const header = await this.y4m!.readHeader();
+    return y4mMetadata(header, this.options.totalFrames || 0);
+  }
+
+  /**
+   * Read one headerless gray frame
+   *
+   * @returns The frame, or null at the end of the stream
+   */
+  private async readGrayFrame(
+    frameNumber: number,
+    width: number,
+    height: number,
+    fps: number
+  ): Promise<RawFrame | null> {
+    const data = new Uint8Array(width * height);
+
+    if (!(await this.reader.readInto(data))) {
+      return null;
+    }
+
+    return {
+      data,
+      width,
+      height,
+      stride: width,
+      pts: frameNumber / fps,
+      frameNumber
+    };
+  }
+}
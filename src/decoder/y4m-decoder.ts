@@ -0,0 +1,546 @@
+/**
+ * Y4M Decoder - Native YUV4MPEG2 reader
+ *
+ * Reads .y4m files or streams (e.g. vspipe output) without ffmpeg. Only the
+ * luma plane is kept unless chroma is asked for, in which case the U/V
+ * planes are resampled to 4:2:0; high bit depths are scaled down to 8 bits.
+ */
+
+import * as fs from 'fs';
+import { Readable } from 'stream';
+import {
+  FrameSource,
+  RawFrame,
+  Rational,
+  VideoMetadata,
+  Y4mDecoderOptions,
+  Y4mHeader
+} from '../types';
+import { ChunkReader } from '../utils/chunk-reader';
+import { AbortError } from '../utils/errors';
+import { validateFrameDimensions } from '../utils/frame-processor';
+
+/** Stream signature at the start of the header */
+const SIGNATURE = 'YUV4MPEG2';
+
+/** Longest header or FRAME line accepted */
+const MAX_LINE_LENGTH = 4096;
+
+/** Length of a parameterless frame header ("FRAME\n") */
+const FRAME_HEADER_LENGTH = 6;
+
+const INTERLACING: Record<string, Y4mHeader['interlacing']> = {
+  p: 'progressive',
+  t: 'top-first',
+  b: 'bottom-first',
+  m: 'mixed',
+  '?': 'unknown'
+};
+
+/**
+ * Byte layout of one frame
+ */
+interface FrameLayout {
+  /** Bytes per sample (1, or 2 above 8 bits) */
+  bytesPerSample: number;
+  /** Size of the luma plane in bytes */
+  lumaSize: number;
+  /** Width of each chroma plane in samples (0 for mono) */
+  chromaWidth: number;
+  /** Height of each chroma plane in samples (0 for mono) */
+  chromaHeight: number;
+  /** Size of everything after the luma plane (chroma and alpha) in bytes */
+  restSize: number;
+}
+
+/**
+ * Options for a Y4mReader
+ */
+interface Y4mReaderOptions {
+  /** Keep the U/V planes, resampled to 4:2:0 */
+  chroma?: boolean;
+}
+
+/**
+ * Parse a ratio tag value such as "30000:1001"
+ */
+function parseRational(value: string, tag: string): Rational {
+  const match = /^(\d+):(\d+)$/.exec(value);
+
+  if (!match) {
+    throw new Error(`Y4M header: invalid ${tag} value "${value}"`);
+  }
+
+  return { num: parseInt(match[1], 10), den: parseInt(match[2], 10) };
+}
+
+/**
+ * Parse a YUV4MPEG2 header line (without the trailing newline)
+ *
+ * @param line Header line starting with "YUV4MPEG2"
+ * @returns Parsed header
+ */
+export function parseY4mHeader(line: string): Y4mHeader {
+  const tokens = line.split(' ');
+
+  if (tokens[0] !== SIGNATURE) {
+    throw new Error('Y4M header: missing YUV4MPEG2 signature');
+  }
+
+  let width = 0;
+  let height = 0;
+  let frameRate: Rational | null = null;
+  let interlacing: Y4mHeader['interlacing'] = 'unknown';
+  let pixelAspectRatio: Rational | null = null;
+  let colorspace = '420jpeg';
+  const comments: string[] = [];
+
+  for (const token of tokens.slice(1)) {
+    if (token === '') {
+      continue;
+    }
+
+    const value = token.slice(1);
+
+    switch (token[0]) {
+      case 'W':
+        width = parseInt(value, 10);
+        break;
+      case 'H':
+        height = parseInt(value, 10);
+        break;
+      case 'F':
+        frameRate = parseRational(value, 'F');
+        break;
+      case 'I':
+        if (!(value in INTERLACING)) {
+          throw new Error(`Y4M header: invalid interlacing "${value}"`);
+        }
+        interlacing = INTERLACING[value];
+        break;
+      case 'A': {
+        const ratio = parseRational(value, 'A');
+        pixelAspectRatio = ratio.num > 0 && ratio.den > 0 ? ratio : null;
+        break;
+      }
+      case 'C':
+        colorspace = value;
+        break;
+      case 'X':
+        comments.push(value);
+        break;
+      default:
+        // Reserved tags: ignored, as other readers do
+        break;
+    }
+  }
+
+  if (!width || !height) {
+    throw new Error('Y4M header: missing W or H');
+  }
+  validateFrameDimensions(width, height, Infinity);
+
+  if (!frameRate || frameRate.num <= 0 || frameRate.den <= 0) {
+    throw new Error('Y4M header: missing or invalid frame rate (F)');
+  }
+
+  return {
+    width,
+    height,
+    frameRate,
+    interlacing,
+    pixelAspectRatio,
+    colorspace,
+    bitDepth: getFrameLayout({ width, height, colorspace }).bitDepth,
+    comments
+  };
+}
+
+/**
+ * Work out plane sizes from the colorspace tag
+ */
+function getFrameLayout(header: Pick<Y4mHeader, 'width' | 'height' | 'colorspace'>): FrameLayout & { bitDepth: number } {
+  const match = /^(mono|411|420|422|444)(jpeg|paldv|mpeg2|alpha)?(?:p?(\d+))?$/.exec(header.colorspace);
+
+  if (!match) {
+    throw new Error(`Y4M header: unsupported colorspace C${header.colorspace}`);
+  }
+
+  const [, sampling, variant, depth] = match;
+  const bitDepth = depth ? parseInt(depth, 10) : 8;
+
+  if (bitDepth < 8 || bitDepth > 16) {
+    throw new Error(`Y4M header: unsupported bit depth in C${header.colorspace}`);
+  }
+
+  const { width, height } = header;
+  const bytesPerSample = bitDepth > 8 ? 2 : 1;
+  const halfWidth = Math.ceil(width / 2);
+
+  let chromaWidth: number;
+  let chromaHeight: number;
+  switch (sampling) {
+    case 'mono':
+      chromaWidth = 0;
+      chromaHeight = 0;
+      break;
+    case '411':
+      chromaWidth = Math.ceil(width / 4);
+      chromaHeight = height;
+      break;
+    case '420':
+      chromaWidth = halfWidth;
+      chromaHeight = Math.ceil(height / 2);
+      break;
+    case '422':
+      chromaWidth = halfWidth;
+      chromaHeight = height;
+      break;
+    default:
+      chromaWidth = width;
+      chromaHeight = height;
+  }
+
+  const chromaSamples = 2 * chromaWidth * chromaHeight;
+  const alphaSamples = variant === 'alpha' ? width * height : 0;
+
+  return {
+    bitDepth,
+    bytesPerSample,
+    lumaSize: width * height * bytesPerSample,
+    chromaWidth,
+    chromaHeight,
+    restSize: (chromaSamples + alphaSamples) * bytesPerSample
+  };
+}
+
+/**
+ * Resample a chroma plane to 4:2:0 by picking the nearest sample
+ *
+ * @param plane Chroma plane of planeWidth x planeHeight samples
+ * @param width Luma width
+ * @param height Luma height
+ * @returns The plane itself when it is already 4:2:0
+ */
+function toChroma420(plane: Uint8Array, planeWidth: number, planeHeight: number, width: number, height: number): Uint8Array {
+  const targetWidth = Math.ceil(width / 2);
+  const targetHeight = Math.ceil(height / 2);
+
+  if (planeWidth === targetWidth && planeHeight === targetHeight) {
+    return plane;
+  }
+
+  const resampled = new Uint8Array(targetWidth * targetHeight);
+  for (let y = 0; y < targetHeight; y++) {
+    const row = Math.floor((y * planeHeight) / targetHeight) * planeWidth;
+    for (let x = 0; x < targetWidth; x++) {
+      resampled[y * targetWidth + x] = plane[row + Math.floor((x * planeWidth) / targetWidth)];
+    }
+  }
+
+  return resampled;
+}
+
+/**
+ * Build video metadata from a y4m header
+ *
+ * @param header Parsed header
+ * @param totalFrames Number of frames, or 0 when unknown
+ */
+export function y4mMetadata(header: Y4mHeader, totalFrames: number): VideoMetadata {
+  const fps = header.frameRate.num / header.frameRate.den;
+
+  return {
+    totalFrames,
+    duration: totalFrames / fps,
+    fps,
+    frameRate: { ...header.frameRate },
+    resolution: { width: header.width, height: header.height }
+  };
+}
+
+/**
+ * Pulls the header and then one frame at a time out of a y4m byte stream
+ */
+export class Y4mReader {
+  private reader: ChunkReader;
+  private chroma: boolean;
+  private header: Y4mHeader | null = null;
+  private headerLength: number = 0;
+  private layout: FrameLayout | null = null;
+  private sampleBuffer: Uint8Array | null = null;
+
+  /**
+   * Create a reader
+   *
+   * @param reader Chunk reader positioned at the start of the stream
+   * @param options Whether to keep the U/V planes
+   */
+  constructor(reader: ChunkReader, options: Y4mReaderOptions = {}) {
+    this.reader = reader;
+    this.chroma = options.chroma || false;
+  }
+
+  /**
+   * Read and parse the stream header (once)
+   */
+  async readHeader(): Promise<Y4mHeader> {
+    if (this.header) {
+      return this.header;
+    }
+
+    const line = await this.reader.readLine(MAX_LINE_LENGTH);
+    if (line === null) {
+      throw new Error('Y4M stream is empty');
+    }
+
+    this.header = parseY4mHeader(line);
+    this.headerLength = line.length + 1;
+    this.layout = getFrameLayout(this.header);
+
+    if (this.chroma && this.layout.chromaWidth === 0) {
+      throw new Error(`Y4M stream has no color planes (C${this.header.colorspace}); chroma detection needs them`);
+    }
+
+    return this.header;
+  }
+
+  /**
+   * Size of the stream header line in bytes, newline included
+   */
+  getHeaderLength(): number {
+    return this.headerLength;
+  }
+
+  /**
+   * Size of one frame's planes in bytes (without its FRAME line)
+   */
+  getFrameSize(): number {
+    if (!this.layout) {
+      throw new Error('Y4M header not read yet');
+    }
+    return this.layout.lumaSize + this.layout.restSize;
+  }
+
+  /**
+   * Read the next frame's luma plane, and its U/V planes if chroma was asked for
+   *
+   * @param frameNumber Frame number to report
+   * @returns Packed 8-bit frame, or null at the end of the stream
+   */
+  async readFrame(frameNumber: number): Promise<RawFrame | null> {
+    const header = await this.readHeader();
+    const layout = this.layout!;
+
+    const line = await this.reader.readLine(MAX_LINE_LENGTH);
+    if (line === null) {
+      return null;
+    }
+    if (line !== 'FRAME' && !line.startsWith('FRAME ')) {
+      throw new Error(`Y4M stream: expected FRAME header before frame ${frameNumber}`);
+    }
+
+    const { width, height } = header;
+    const data = await this.readPlane(width * height, frameNumber);
+
+    const frame: RawFrame = {
+      data,
+      width,
+      height,
+      stride: width,
+      pts: frameNumber * header.frameRate.den / header.frameRate.num,
+      frameNumber
+    };
+
+    let rest = layout.restSize;
+
+    if (this.chroma) {
+      const { chromaWidth, chromaHeight } = layout;
+      const u = await this.readPlane(chromaWidth * chromaHeight, frameNumber);
+      const v = await this.readPlane(chromaWidth * chromaHeight, frameNumber);
+
+      frame.u = toChroma420(u, chromaWidth, chromaHeight, width, height);
+      frame.v = toChroma420(v, chromaWidth, chromaHeight, width, height);
+      rest -= 2 * chromaWidth * chromaHeight * layout.bytesPerSample;
+    }
+
+    await this.reader.skip(rest);
+
+    return frame;
+  }
+
+  /**
+   * Stop reading and destroy the stream
+   */
+  close(): Promise<void> {
+    return this.reader.close();
+  }
+
+  /**
+   * Read one plane of samples as 8 bits per sample
+   *
+   * @param samples Number of samples in the plane
+   * @param frameNumber Frame being read, for errors
+   */
+  private async readPlane(samples: number, frameNumber: number): Promise<Uint8Array> {
+    const layout = this.layout!;
+    const plane = new Uint8Array(samples);
+
+    if (layout.bytesPerSample === 1) {
+      if (!(await this.reader.readInto(plane))) {
+        throw new Error(`Y4M stream: frame ${frameNumber} has no data`);
+      }
+      return plane;
+    }
+
+    // Little-endian samples; keep the top 8 significant bits
+    if (!this.sampleBuffer) {
+      this.sampleBuffer = new Uint8Array(layout.lumaSize);
+    }
+    const buffer = this.sampleBuffer.subarray(0, samples * 2);
+
+    if (!(await this.reader.readInto(buffer))) {
+      throw new Error(`Y4M stream: frame ${frameNumber} has no data`);
+    }
+
+    const shift = this.header!.bitDepth - 8;
+    for (let i = 0; i < samples; i++) {
+      plane[i] = Math.min(255, (buffer[2 * i] | (buffer[2 * i + 1] << 8)) >> shift);
+    }
+
+    return plane;
+  }
+}
+
+/**
+ * Frame source for .y4m files and streams
+ *
+ * Used automatically by the detector for paths ending in .y4m.
+ *
+ * @example
+ * ```typescript
+ * const decoder = new Y4mDecoder('clip.y4m');
+ * const header = await decoder.getHeader();
+ * console.log(header.frameRate, header.interlacing);
+ * ```
+ */
+export class Y4mDecoder implements FrameSource {
+  private filePath: string | null;
+  private stream: Readable;
+  private y4m: Y4mReader;
+  private metadataPromise: Promise<VideoMetadata> | null = null;
+  private started: boolean = false;
+
+  /**
+   * Create a decoder
+   *
+   * @param source Path to a .y4m file, or a stream of y4m data
+   * @param options Chroma planes and abort signal
+   */
+  constructor(source: string | Readable, options: Y4mDecoderOptions = {}) {
+    this.filePath = typeof source === 'string' ? source : null;
+    this.stream = typeof source === 'string' ? fs.createReadStream(source) : source;
+    this.y4m = new Y4mReader(new ChunkReader(this.stream), { chroma: options.chroma });
+
+    const signal = options.signal;
+    if (signal) {
+      const stream = this.stream;
+      const onAbort = () => stream.destroy(new AbortError(signal.reason));
+
+      if (signal.aborted) {
+        onAbort();
+      } else {
+        signal.addEventListener('abort', onAbort, { once: true });
+        stream.once('close', () => signal.removeEventListener('abort', onAbort));
+      }
+    }
+  }
+
+  /**
+   * Get the parsed stream header
+   */
+  getHeader(): Promise<Y4mHeader> {
+    return this.y4m.readHeader();
+  }
+
+  /**
+   * Get video metadata
+   *
+   * For files the frame count is exact as long as FRAME lines carry no
+   * parameters; otherwise (and for streams) it is 0 until all frames are read.
+   */
+  getMetadata(): Promise<VideoMetadata> {
+    if (!this.metadataPromise) {
+      this.metadataPromise = this.readMetadata();
+    }
+    return this.metadataPromise;
+  }
+
+  /**
+   * Read frames until the end of the stream
+   *
+   * @param onFrame Callback for each frame; return false to stop early
+   * @param onProgress Optional progress callback (only when the frame count is known)
+   */
+  async extractFrames(
+    onFrame: (frame: RawFrame) => Promise<boolean | void> | boolean | void,
+    onProgress?: (current: number, total: number) => void
+  ): Promise<void> {
+    if (this.started) {
+      throw new Error('Y4mDecoder can only be read once');
+    }
+    this.started = true;
+
+    const metadata = await this.getMetadata();
+    const knownTotal = metadata.totalFrames;
+    let frameNumber = 0;
+
+    while (true) {
+      const frame = await this.y4m.readFrame(frameNumber);
+      if (!frame) {
+        break;
+      }
+
+      const more = await onFrame(frame);
+      frameNumber++;
+
+      if (onProgress && knownTotal > 0 && frameNumber % 30 === 0) {
+        onProgress(frameNumber, knownTotal);
+      }
+
+      if (more === false) {
+        await this.y4m.close();
+        return;
+      }
+    }
+
+    metadata.totalFrames = frameNumber;
+    metadata.duration = frameNumber / metadata.fps;
+  }
+
+  /**
+   * Clean up resources (closes the file or destroys the stream)
+   */
+  destroy(): void {
+    this.stream.destroy();
+  }
+
+  /**
+   * Read the header and, for files, count frames from the file size
+   */
+  private async readMetadata(): Promise<VideoMetadata> {
+    const header = await this.y4m.readHeader();
+    let totalFrames = 0;
+
+    if (this.filePath) {
+      const payload = (await fs.promises.stat(this.filePath)).size - this.y4m.getHeaderLength();
+      const frameBytes = FRAME_HEADER_LENGTH + this.y4m.getFrameSize();
+
+      if (payload % frameBytes === 0) {
+        totalFrames = payload / frameBytes;
+      }
+    }
+
+    return y4mMetadata(header, totalFrames);
+  }
+}
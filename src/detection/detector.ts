@@ -2,25 +2,58 @@
  * Scene Detector - Main orchestrator for scene change detection
  */
 
+import * as path from 'path';
 import { FFmpegDecoder } from '../decoder/ffmpeg-decoder';
-import { WasmBridge } from './wasm-bridge';
+import { FrameBuffer } from '../decoder/frame-buffer';
+import { Y4mDecoder } from '../decoder/y4m-decoder';
+import { createComparator } from './frame-comparators';
 import {
   DetectionOptions,
   DetectionResult,
   SceneInfo,
   Progress,
   DetectionState,
-  RawFrame
+  RawFrame,
+  MotionAnalysis,
+  FrameAnalysis,
+  ExportOptions,
+  FrameSource,
+  FrameComparator,
+  ComparatorOptions,
+  DetectionAlgorithm,
+  VideoMetadata
 } from '../types';
 import {
   formatTimecode,
-  calculateFcode,
-  validateFrame
+  calculateConfidence,
+  calculateAnalysisSize,
+  validateAnalysisResolution,
+  validateFrame,
+  getFrameTimestamp,
+  findFrameAtTime
 } from '../utils/frame-processor';
+import { TemporalSmoother } from '../utils/temporal-smoothing';
+import { ChromaComparator } from '../utils/chroma-histogram';
+import { downscaleFrame } from '../utils/downscale';
+import { BufferPool } from '../utils/buffer-pool';
+import { ProgressiveScanner } from './progressive-scanner';
+import { WorkerPool, planSegments } from './worker-pool';
+import { SegmentCut } from './segment-worker';
+import { exportScenes } from '../export/exporters';
+import { AbortError, throwIfAborted } from '../utils/errors';
+
+/**
+ * Options that restrict detection to part of the video
+ */
+type RangeOptions = Pick<DetectionOptions, 'startFrame' | 'endFrame' | 'startTime' | 'endTime'>;
 
 export class SceneDetector {
-  private options: Required<DetectionOptions>;
-  private wasmBridge: WasmBridge;
+  private options: Required<Omit<DetectionOptions, 'signal' | 'onAnalysis' | 'threshold' | keyof RangeOptions>>;
+  private signal: AbortSignal | null;
+  private onAnalysis: ((frame: FrameAnalysis) => void) | null;
+  private range: RangeOptions;
+  private comparator: FrameComparator;
+  private threshold: number | undefined;
   private state: DetectionState;
 
   constructor(options: DetectionOptions = {}) {
@@ -28,138 +61,452 @@ export class SceneDetector {
     this.options = {
       sensitivity: options.sensitivity || 'medium',
       customThresholds: options.customThresholds || { intraThresh: 2000, intraThresh2: 90 },
+      algorithm: options.algorithm || 'wwxd',
       searchRange: options.searchRange || 'medium',
-      workers: options.workers || 1, // Multi-threading not implemented yet
+      workers: options.workers || 1,
+      temporalPredictor: options.temporalPredictor || false,
+      analysisResolution: options.analysisResolution || 0,
       progressive: options.progressive || { enabled: false, initialStep: 1, refinementSteps: [] },
       temporalSmoothing: options.temporalSmoothing || { enabled: false, windowSize: 5, minConsecutive: 2 },
+      chroma: options.chroma || { enabled: false },
       frameExtraction: options.frameExtraction || { pixelFormat: 'gray', maxBufferFrames: 2 },
       onProgress: options.onProgress || (() => {}),
       onScene: options.onScene || (() => {}),
       format: options.format || 'json'
     };
+    this.signal = options.signal || null;
+    this.onAnalysis = options.onAnalysis || null;
+    this.threshold = options.threshold;
+    this.range = {
+      startFrame: options.startFrame,
+      endFrame: options.endFrame,
+      startTime: options.startTime,
+      endTime: options.endTime
+    };
+    this.validateRange();
+    if (this.options.analysisResolution) {
+      validateAnalysisResolution(this.options.analysisResolution);
+    }
+
+    // Refinement passes start without the earlier pairs the adaptive ratio is taken against
+    if (this.options.progressive.enabled && this.options.algorithm === 'adaptive') {
+      throw new Error('Progressive processing does not work with the adaptive algorithm');
+    }
 
-    this.wasmBridge = new WasmBridge();
+    // A comparator object passed in belongs to the caller
+    const algorithm = this.options.algorithm;
+    this.comparator = typeof algorithm === 'string'
+      ? createComparator(algorithm, this.comparatorOptions())
+      : algorithm;
 
     // Initialize detection state
     this.state = {
       intraCount: 1,
-      fcode: 4,
       prevFrame: null,
       curFrame: null
     };
   }
 
   /**
-   * Detect scene changes in a video file
+   * Detect scene changes in a video file or frame source
+   *
+   * Progressive mode and worker threads seek with ffmpeg, so frame sources
+   * and .y4m files (read natively) are always analysed sequentially.
+   *
+   * @param input Path to a video file (decoded with ffmpeg, or natively for .y4m), or a FrameSource
    */
-  async detect(videoPath: string): Promise<DetectionResult> {
-    // Initialize WASM module
-    await this.wasmBridge.init();
+  async detect(input: string | FrameSource): Promise<DetectionResult> {
+    return this.run(input);
+  }
 
-    // Create decoder
-    const decoder = new FFmpegDecoder(videoPath, {
-      pixelFormat: this.options.frameExtraction.pixelFormat,
-      maxBufferFrames: this.options.frameExtraction.maxBufferFrames,
-      skipFrames: this.options.frameExtraction.skipFrames
-    });
+  /**
+   * Stream scene changes as they are found
+   *
+   * Detection only moves on while the consumer asks for the next scene, so a
+   * slow loop body holds ffmpeg back. Leaving the loop early stops ffmpeg and
+   * any worker threads before the loop statement completes.
+   *
+   * @example
+   * ```typescript
+   * for await (const scene of detector.scenes('input.mp4')) {
+   *   await publish(scene);
+   * }
+   * ```
+   */
+  async *scenes(input: string | FrameSource): AsyncGenerator<SceneInfo, void, undefined> {
+    const queue: SceneInfo[] = [];
+    let wakeConsumer: (() => void) | null = null;
+    let resumeProducer: (() => void) | null = null;
+    let stopped = false;
+    let done = false;
+    let failure: unknown = null;
+
+    const wake = () => {
+      const resolve = wakeConsumer;
+      wakeConsumer = null;
+      if (resolve) {
+        resolve();
+      }
+    };
+
+    const resume = () => {
+      const resolve = resumeProducer;
+      resumeProducer = null;
+      if (resolve) {
+        resolve();
+      }
+    };
+
+    // Each scene waits in the queue until the consumer comes back for the next one
+    const running = this.run(input, (scene: SceneInfo) => {
+      if (stopped) {
+        return false;
+      }
+
+      queue.push(scene);
+      wake();
+
+      return new Promise<boolean>(resolve => {
+        resumeProducer = () => resolve(!stopped);
+      });
+    }).then(
+      () => {
+        done = true;
+        wake();
+      },
+      (err: unknown) => {
+        failure = err;
+        done = true;
+        wake();
+      }
+    );
+
+    try {
+      while (true) {
+        if (queue.length > 0) {
+          yield queue.shift()!;
+          resume();
+          continue;
+        }
+
+        if (done) {
+          break;
+        }
+
+        await new Promise<void>(resolve => {
+          wakeConsumer = resolve;
+        });
+      }
+
+      if (failure) {
+        throw failure;
+      }
+    } finally {
+      // Reached on break/return too: stop decoding and wait until ffmpeg is gone
+      stopped = true;
+      resume();
+      await running;
+    }
+  }
+
+  /**
+   * Run detection, passing each scene to an optional sink as it is found
+   *
+   * @param input Path to the video file, or a frame source
+   * @param sink Awaited for each scene (frame 0 included); return false to stop
+   */
+  private async run(
+    input: string | FrameSource,
+    sink?: (scene: SceneInfo) => Promise<boolean> | boolean
+  ): Promise<DetectionResult> {
+    try {
+      return await this.analyzeInput(input, sink);
+    } finally {
+      // A producer may be waiting on the source even if the run failed before reading it
+      if (typeof input !== 'string' && input.close) {
+        input.close();
+      }
+    }
+  }
+
+  /**
+   * Decode and analyse the input (see run())
+   */
+  private async analyzeInput(
+    input: string | FrameSource,
+    sink?: (scene: SceneInfo) => Promise<boolean> | boolean
+  ): Promise<DetectionResult> {
+    throwIfAborted(this.signal);
+
+    // Load the comparator (the WASM module, for wwxd)
+    await this.comparator.init();
+
+    // Create decoder (it kills ffmpeg itself when the signal fires)
+    const videoPath = typeof input === 'string' ? input : null;
+    const decoder: FrameSource = videoPath !== null
+      ? this.createDecoder(videoPath)
+      : input as FrameSource;
 
     // Get video metadata
     const metadata = await decoder.getMetadata();
 
-    // Calculate fcode from search range
-    this.state.fcode = calculateFcode(
-      this.options.searchRange,
+    // Size the comparator sees; ffmpeg scales video files, other sources are scaled below
+    const analysisSize = calculateAnalysisSize(
       metadata.resolution.width,
-      metadata.resolution.height
+      metadata.resolution.height,
+      this.options.analysisResolution
     );
 
-    // Pre-allocate WASM buffers (eliminates per-frame allocation overhead)
-    this.wasmBridge.allocateBuffers(
-      metadata.resolution.width,
-      metadata.resolution.height
-    );
+    // Settings for this size, and any buffers (the WASM ones, for wwxd)
+    this.comparator.prepare(analysisSize.width, analysisSize.height, metadata.resolution);
+
+    // Start from a clean state in case this detector was used before
+    this.state.intraCount = 1;
+    this.state.prevFrame = null;
+    this.state.curFrame = null;
+
+    // Optional color check run on every frame pair compared
+    const chroma = this.options.chroma.enabled
+      ? new ChromaComparator(this.options.chroma)
+      : null;
 
-    // Initialize scene list (frame 0 is always a scene change)
-    const scenes: SceneInfo[] = [
-      {
-        frameNumber: 0,
-        timestamp: 0,
-        timecode: '00:00:00.000'
+    const analyze = (prevFrame: RawFrame, curFrame: RawFrame, intraCount: number): MotionAnalysis => {
+      const analysis = this.comparator.compare(prevFrame, curFrame, intraCount);
+
+      const result = chroma ? chroma.apply(analysis, prevFrame, curFrame) : analysis;
+
+      if (this.onAnalysis) {
+        this.onAnalysis({
+          frameNumber: curFrame.frameNumber,
+          timestamp: curFrame.pts,
+          sceneChange: result.sceneChange,
+          metrics: result.metrics
+        });
       }
-    ];
+
+      return result;
+    };
+
+    // Optional post-filter for flash/strobe bursts
+    const smoother = this.options.temporalSmoothing.enabled
+      ? new TemporalSmoother(this.options.temporalSmoothing)
+      : null;
+
+    // Frames to analyse; frame numbers and timestamps stay absolute
+    const { startFrame, endFrame } = this.resolveRange(metadata);
+    const isRange = startFrame > 0 || endFrame !== Infinity;
+    const rangeFrames = endFrame !== Infinity
+      ? endFrame - startFrame + 1
+      : metadata.totalFrames - startFrame;
+
+    // Initialize scene list (the first frame analysed is always a scene change)
+    const firstTime = getFrameTimestamp(metadata, startFrame);
+    const firstScene: SceneInfo = {
+      frameNumber: startFrame,
+      timestamp: firstTime,
+      timecode: formatTimecode(firstTime),
+      confidence: 1
+    };
+    const scenes: SceneInfo[] = smoother ? smoother.push(firstScene) : [firstScene];
+    let stopped = false;
+
+    for (const scene of scenes) {
+      if (sink && !stopped && (await sink(scene)) === false) {
+        stopped = true;
+      }
+    }
+
+    // Record final scenes and report them; false once the sink has asked to stop
+    const emit = async (found: SceneInfo[]): Promise<boolean> => {
+      for (const scene of found) {
+        if (stopped) {
+          break;
+        }
+
+        scenes.push(scene);
+        this.options.onScene(scene);
+
+        if (sink && (await sink(scene)) === false) {
+          stopped = true;
+        }
+      }
+
+      return !stopped;
+    };
+
+    // Smoothing may hold a scene back until its window has passed
+    const addScene = (scene: SceneInfo): Promise<boolean> => {
+      return emit(smoother ? smoother.push(scene) : [scene]);
+    };
 
     // Processing statistics
     const startTime = Date.now();
     let processedFrames = 0;
 
-    // Process frames
-    await decoder.extractFrames(
-      async (frame: RawFrame) => {
-        validateFrame(frame);
-
-        // Update current frame
-        this.state.curFrame = frame;
-
-        // Need at least 2 frames to detect scene change
-        if (this.state.prevFrame) {
-          const isSceneChange = this.wasmBridge.detectSceneChange(
-            this.state.prevFrame,
-            this.state.curFrame,
-            this.state.intraCount,
-            this.state.fcode
-          );
-
-          if (isSceneChange) {
-            const scene: SceneInfo = {
-              frameNumber: frame.frameNumber,
-              timestamp: frame.pts,
-              timecode: formatTimecode(frame.pts)
-            };
-
-            scenes.push(scene);
-
-            // Call scene callback
-            this.options.onScene(scene);
-
-            // Reset intraCount
-            this.state.intraCount = 1;
-          } else {
-            // Increment intraCount
-            this.state.intraCount++;
-          }
+    // Progress counts frames within the range
+    const reportProgress = (done: number) => {
+      if (rangeFrames <= 0) {
+        return;
+      }
+
+      const current = Math.min(Math.max(done, 0), rangeFrames);
+      const total = rangeFrames;
+      const progress: Progress = {
+        currentFrame: current,
+        totalFrames: total,
+        percent: Math.round((current / total) * 100)
+      };
+
+      // Calculate ETA
+      const elapsed = (Date.now() - startTime) / 1000;
+      const fps = current / elapsed;
+      const remaining = (total - current) / fps;
+      progress.eta = remaining;
+
+      this.options.onProgress(progress);
+    };
+
+    // Holds the frame pair under analysis; evicted frames go back to the decoder's buffer pool
+    const frameBuffer = new FrameBuffer(2);
+
+    // Buffers for frames scaled here rather than by ffmpeg
+    const downscalePool = new BufferPool();
+
+    const analyzeFrame = async (input: RawFrame): Promise<boolean> => {
+      // Frame sources have no ffmpeg to kill, so check between frames
+      throwIfAborted(this.signal);
+
+      let frame = input;
+      if (frame.width !== analysisSize.width || frame.height !== analysisSize.height) {
+        frame = downscaleFrame(input, analysisSize.width, analysisSize.height, downscalePool);
+        if (input.release) {
+          input.release();
         }
+      }
 
-        // Move current frame to previous
-        this.state.prevFrame = this.state.curFrame;
+      // Size limits are the comparator's, checked by prepare()
+      validateFrame(frame, Infinity);
 
-        processedFrames++;
-      },
-      (current: number, total: number) => {
-        // Progress callback
-        const progress: Progress = {
-          currentFrame: current,
-          totalFrames: total,
-          percent: Math.round((current / total) * 100)
-        };
-
-        // Calculate ETA
-        const elapsed = (Date.now() - startTime) / 1000;
-        const fps = current / elapsed;
-        const remaining = (total - current) / fps;
-        progress.eta = remaining;
-
-        this.options.onProgress(progress);
+      // Update current frame
+      frameBuffer.push(frame);
+      this.state.curFrame = frame;
+
+      // Need at least 2 frames to detect scene change
+      let more = true;
+
+      if (this.state.prevFrame) {
+        const analysis = analyze(this.state.prevFrame, this.state.curFrame, this.state.intraCount);
+
+        if (analysis.sceneChange) {
+          more = await addScene(this.createScene(frame.frameNumber, frame.pts, analysis));
+
+          // Reset intraCount
+          this.state.intraCount = 1;
+        } else {
+          // Increment intraCount
+          this.state.intraCount++;
+        }
       }
-    );
+
+      // Move current frame to previous
+      this.state.prevFrame = this.state.curFrame;
+
+      processedFrames++;
+      return more;
+    };
+
+    try {
+      if (stopped) {
+        // The consumer stopped after the first scene: nothing to decode
+      } else if (decoder instanceof FFmpegDecoder && this.options.progressive.enabled) {
+        // Coarse-to-fine: compare every Nth frame, then refine flagged intervals
+        const scanner = new ProgressiveScanner(decoder, analyze, this.options.progressive);
+
+        processedFrames = await scanner.scan(
+          (frameNumber: number, pts: number, analysis: MotionAnalysis) =>
+            addScene(this.createScene(frameNumber, pts, analysis)),
+          (current: number) => reportProgress(current - startFrame),
+          startFrame,
+          endFrame !== Infinity ? endFrame : undefined
+        );
+      } else if (
+        decoder instanceof FFmpegDecoder &&
+        videoPath &&
+        this.useWorkers(metadata.totalFrames, startFrame, endFrame)
+      ) {
+        // Split into segments analysed by worker threads, stitched in order
+        const pool = new WorkerPool(decoder, this.comparator);
+
+        processedFrames = await pool.run({
+          videoPath,
+          metadata,
+          workers: this.options.workers,
+          startFrame,
+          endFrame,
+          algorithm: this.options.algorithm as DetectionAlgorithm,
+          comparator: this.comparatorOptions(),
+          analysisResolution: this.options.analysisResolution,
+          chroma: this.options.chroma.enabled ? this.options.chroma : undefined,
+          onCut: (cut: SegmentCut) =>
+            addScene(this.createScene(cut.frameNumber, cut.pts, cut.analysis)),
+          onProgress: (framesDecoded: number) => reportProgress(framesDecoded),
+          signal: this.signal || undefined
+        });
+      } else if (decoder instanceof FFmpegDecoder && isRange) {
+        // Accurate input seek straight to the range (skipFrames becomes the step)
+        const step = (this.options.frameExtraction.skipFrames || 0) + 1;
+
+        await decoder.extractFrameRange(startFrame, endFrame, step, async (frame: RawFrame) => {
+          const more = await analyzeFrame(frame);
+
+          if ((frame.frameNumber - startFrame) % 30 === 0) {
+            reportProgress(frame.frameNumber - startFrame);
+          }
+
+          return more;
+        });
+      } else {
+        // Process frames; sources that can't seek are read up to the range and stopped after it
+        await decoder.extractFrames(
+          (frame: RawFrame) => {
+            if (frame.frameNumber < startFrame) {
+              return true;
+            }
+            if (frame.frameNumber > endFrame) {
+              return false;
+            }
+            return analyzeFrame(frame);
+          },
+          (current: number) => reportProgress(current - startFrame)
+        );
+      }
+    } catch (error) {
+      // Nothing of this run is reusable after an abort
+      if (error instanceof AbortError && typeof this.options.algorithm === 'string') {
+        this.comparator.release();
+      }
+      throw error;
+    } finally {
+      frameBuffer.clear();
+      downscalePool.clear();
+      this.state.prevFrame = null;
+      this.state.curFrame = null;
+
+      // Frame sources belong to the caller
+      if (videoPath !== null) {
+        decoder.destroy();
+      }
+    }
+
+    if (smoother && !stopped) {
+      await emit(smoother.flush());
+    }
 
     // Calculate statistics
     const endTime = Date.now();
     const processingTime = (endTime - startTime) / 1000;
     const framesPerSecond = processedFrames / processingTime;
 
-    // Clean up
-    decoder.destroy();
-
     return {
       scenes,
       metadata,
@@ -170,11 +517,151 @@ export class SceneDetector {
     };
   }
 
+  /**
+   * Format a detection result using the configured output format
+   *
+   * @param result Result returned by detect()
+   * @param options Format-specific options
+   */
+  format(result: DetectionResult, options?: ExportOptions): string {
+    return exportScenes(result, this.options.format, options);
+  }
+
+  /**
+   * Pick a decoder for a file: .y4m is read natively, everything else via ffmpeg
+   */
+  private createDecoder(videoPath: string): FrameSource {
+    const signal = this.signal || undefined;
+
+    if (path.extname(videoPath).toLowerCase() === '.y4m') {
+      return new Y4mDecoder(videoPath, { chroma: this.options.chroma.enabled, signal });
+    }
+
+    // Chroma detection needs the U/V planes
+    return new FFmpegDecoder(videoPath, {
+      pixelFormat: this.options.chroma.enabled ? 'yuv420p' : this.options.frameExtraction.pixelFormat,
+      maxBufferFrames: this.options.frameExtraction.maxBufferFrames,
+      skipFrames: this.options.frameExtraction.skipFrames,
+      maxHeight: this.options.analysisResolution || undefined,
+      signal
+    });
+  }
+
+  /**
+   * Check whether a video (or range) is worth splitting across worker threads
+   */
+  private useWorkers(totalFrames: number, startFrame: number, endFrame: number): boolean {
+    // Skipping frames changes which pairs are compared, so segments can't be stitched;
+    // per-frame reports need every pair in order, with the real intraCount;
+    // the temporal predictor chains vectors through every pair since the start,
+    // which no pre-roll can rebuild; a comparator object can't be handed to another thread
+    if (
+      this.options.workers <= 1 ||
+      this.options.frameExtraction.skipFrames ||
+      this.onAnalysis ||
+      (this.options.temporalPredictor && this.options.algorithm === 'wwxd') ||
+      typeof this.options.algorithm !== 'string'
+    ) {
+      return false;
+    }
+
+    return planSegments(totalFrames, this.options.workers, startFrame, endFrame).length > 1;
+  }
+
+  /**
+   * Settings for the built-in comparators, also passed to worker threads
+   */
+  private comparatorOptions(): ComparatorOptions {
+    return {
+      sensitivity: this.options.sensitivity,
+      customThresholds: this.options.customThresholds,
+      threshold: this.threshold,
+      searchRange: this.options.searchRange,
+      temporalPredictor: this.options.temporalPredictor
+    };
+  }
+
+  /**
+   * Check the range options before anything is decoded
+   */
+  private validateRange(): void {
+    const { startFrame, endFrame, startTime, endTime } = this.range;
+
+    if (startFrame !== undefined && startTime !== undefined) {
+      throw new Error('Use either startFrame or startTime, not both');
+    }
+    if (endFrame !== undefined && endTime !== undefined) {
+      throw new Error('Use either endFrame or endTime, not both');
+    }
+
+    for (const [name, frame] of [['startFrame', startFrame], ['endFrame', endFrame]] as const) {
+      if (frame !== undefined && (!Number.isInteger(frame) || frame < 0)) {
+        throw new Error(`Invalid ${name}: ${frame} (must be a non-negative integer)`);
+      }
+    }
+
+    for (const [name, time] of [['startTime', startTime], ['endTime', endTime]] as const) {
+      if (time !== undefined && !(time >= 0 && Number.isFinite(time))) {
+        throw new Error(`Invalid ${name}: ${time} (must be a non-negative number of seconds)`);
+      }
+    }
+
+    if (startFrame !== undefined && endFrame !== undefined && endFrame < startFrame) {
+      throw new Error(`Invalid endFrame: ${endFrame} (before startFrame ${startFrame})`);
+    }
+    if (startTime !== undefined && endTime !== undefined && endTime <= startTime) {
+      throw new Error(`Invalid endTime: ${endTime} (must be after startTime ${startTime})`);
+    }
+  }
+
+  /**
+   * Turn the range options into frame numbers
+   *
+   * @returns First and last frame to analyse (endFrame is Infinity for the end of the video)
+   */
+  private resolveRange(metadata: VideoMetadata): { startFrame: number; endFrame: number } {
+    const { startTime, endTime } = this.range;
+
+    const startFrame = startTime !== undefined
+      ? findFrameAtTime(metadata, startTime)
+      : this.range.startFrame || 0;
+
+    // endTime is exclusive: the last frame starts before it
+    const endFrame = endTime !== undefined
+      ? findFrameAtTime(metadata, endTime) - 1
+      : this.range.endFrame ?? Infinity;
+
+    if (metadata.totalFrames > 0 && startFrame >= metadata.totalFrames) {
+      throw new Error(`Range starts at frame ${startFrame}, past the end of the video (${metadata.totalFrames} frames)`);
+    }
+
+    if (endFrame < startFrame) {
+      throw new Error(`Range contains no frames (start frame ${startFrame}, end frame ${endFrame})`);
+    }
+
+    return { startFrame, endFrame };
+  }
+
+  /**
+   * Build the scene entry for a frame where the comparison reported a change
+   */
+  private createScene(frameNumber: number, pts: number, analysis: MotionAnalysis): SceneInfo {
+    return {
+      frameNumber,
+      timestamp: pts,
+      timecode: formatTimecode(pts),
+      confidence: calculateConfidence(analysis.metrics),
+      metrics: analysis.metrics
+    };
+  }
+
   /**
    * Destroy the detector and clean up resources
    */
   destroy(): void {
-    this.wasmBridge.destroy();
+    if (typeof this.options.algorithm === 'string') {
+      this.comparator.destroy();
+    }
     this.state.prevFrame = null;
     this.state.curFrame = null;
   }
@@ -0,0 +1,394 @@
+/**
+ * Frame Comparators - The ways of deciding whether a frame starts a new scene
+ *
+ * wwxd runs Xvid's motion estimation in WebAssembly, as vapoursynth-wwxd
+ * does. The others are plain TypeScript over the luma plane and work
+ * without the WASM build:
+ * - histogram: half the L1 distance between normalized luma histograms
+ * - scdet: ffmpeg's scdet score, the mean absolute pixel difference less
+ *   the previous pair's, so steady motion doesn't add up to a cut
+ * - adaptive: PySceneDetect's AdaptiveDetector, the mean absolute pixel
+ *   difference as a ratio of its average over the previous pairs
+ */
+
+import { WasmBridge } from './wasm-bridge';
+import {
+  ComparatorOptions,
+  CustomThresholds,
+  DetectionAlgorithm,
+  FrameComparator,
+  MotionAnalysis,
+  RawFrame,
+  SearchRange,
+  SensitivityLevel
+} from '../types';
+import {
+  calculateFcode,
+  calculateThresholds,
+  validateFrameDimensions
+} from '../utils/frame-processor';
+import { histogramDifference } from '../utils/chroma-histogram';
+
+/** Luma histogram bins */
+const HISTOGRAM_BINS = 64;
+
+/** Earlier pairs the adaptive ratio is taken against (PySceneDetect uses 2 on each side) */
+const ADAPTIVE_WINDOW = 4;
+
+/** Smallest mean pixel difference the adaptive comparator calls a cut, however large the ratio */
+const MIN_CONTENT_VALUE = 15;
+
+/** Thresholds for each sensitivity preset, and the largest threshold that makes sense */
+const PRESETS: Record<Exclude<DetectionAlgorithm, 'wwxd'>, { low: number; medium: number; high: number; max: number }> = {
+  histogram: { low: 0.5, medium: 0.35, high: 0.2, max: 1 },
+  scdet: { low: 15, medium: 10, high: 5, max: 100 },
+  adaptive: { low: 4, medium: 3, high: 2, max: Infinity }
+};
+
+/**
+ * Create one of the built-in comparators
+ *
+ * @param algorithm Comparison method
+ * @param options Sensitivity and algorithm-specific settings
+ */
+export function createComparator(algorithm: DetectionAlgorithm, options: ComparatorOptions = {}): FrameComparator {
+  switch (algorithm) {
+    case 'wwxd':
+      return new WwxdComparator(options);
+    case 'histogram':
+      return new HistogramComparator(options);
+    case 'scdet':
+      return new ScdetComparator(options);
+    case 'adaptive':
+      return new AdaptiveComparator(options);
+    default:
+      throw new Error(`Invalid algorithm: ${algorithm} (must be 'wwxd', 'histogram', 'scdet' or 'adaptive')`);
+  }
+}
+
+/**
+ * Threshold for a pure-TypeScript comparator: the explicit one, or the sensitivity preset
+ */
+function resolveThreshold(algorithm: Exclude<DetectionAlgorithm, 'wwxd'>, options: ComparatorOptions): number {
+  const preset = PRESETS[algorithm];
+
+  if (options.threshold === undefined) {
+    const sensitivity: SensitivityLevel = options.sensitivity || 'medium';
+    return sensitivity === 'custom' ? preset.medium : preset[sensitivity];
+  }
+
+  const threshold = options.threshold;
+  if (!(threshold > 0 && threshold <= preset.max)) {
+    const range = preset.max === Infinity ? 'a positive number' : `above 0 and at most ${preset.max}`;
+    throw new Error(`Invalid ${algorithm} threshold: ${threshold} (must be ${range})`);
+  }
+
+  return threshold;
+}
+
+/**
+ * Check that two frames can be compared
+ */
+function checkDimensions(prevFrame: RawFrame, curFrame: RawFrame): void {
+  if (prevFrame.width !== curFrame.width || prevFrame.height !== curFrame.height) {
+    throw new Error('Frame dimensions must match');
+  }
+}
+
+/**
+ * Mean absolute difference between the luma planes of two frames (0-255)
+ */
+export function meanAbsoluteDifference(prevFrame: RawFrame, curFrame: RawFrame): number {
+  checkDimensions(prevFrame, curFrame);
+
+  const { width, height } = curFrame;
+  const a = prevFrame.data;
+  const b = curFrame.data;
+  let sum = 0;
+
+  for (let y = 0; y < height; y++) {
+    const rowA = y * prevFrame.stride;
+    const rowB = y * curFrame.stride;
+    for (let x = 0; x < width; x++) {
+      sum += Math.abs(a[rowA + x] - b[rowB + x]);
+    }
+  }
+
+  return sum / (width * height);
+}
+
+/**
+ * Build the normalized luma histogram of a frame
+ *
+ * @param frame Frame to bin
+ * @param bins Number of bins (1-256)
+ * @returns Histogram summing to 1
+ */
+export function lumaHistogram(frame: RawFrame, bins: number = HISTOGRAM_BINS): Float64Array {
+  const { width, height, stride, data } = frame;
+  const histogram = new Float64Array(bins);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    for (let x = 0; x < width; x++) {
+      histogram[(data[row + x] * bins) >> 8]++;
+    }
+  }
+
+  const size = width * height;
+  for (let i = 0; i < bins; i++) {
+    histogram[i] /= size;
+  }
+
+  return histogram;
+}
+
+/**
+ * Xvid motion estimation in WebAssembly, as in vapoursynth-wwxd
+ */
+export class WwxdComparator implements FrameComparator {
+  readonly history = 0;
+
+  private bridge: WasmBridge;
+  private searchRange: SearchRange;
+  private fcode: number = 4;
+  private thresholds: CustomThresholds;
+
+  /**
+   * Create a new wwxd comparator
+   *
+   * @param options Sensitivity, custom thresholds, search range and temporal predictor
+   */
+  constructor(options: ComparatorOptions = {}) {
+    this.bridge = new WasmBridge({ temporalPredictor: options.temporalPredictor });
+    this.searchRange = options.searchRange || 'medium';
+    this.thresholds = calculateThresholds(options.sensitivity || 'medium', options.customThresholds);
+  }
+
+  async init(): Promise<void> {
+    await this.bridge.init();
+  }
+
+  /**
+   * Derive fcode for the analysis size and allocate the WASM buffers
+   *
+   * The search range is in source pixels. The thresholds carry over as
+   * they are, since none of them depends on the frame size: intraThresh
+   * compares a macroblock's SAD with its own deviation, sSAD is divided by
+   * the number of macroblocks searched and their complexity, and the intra
+   * block limit is half the macroblock count. A smaller frame samples the
+   * picture with fewer, coarser macroblocks, so a score close to a
+   * threshold can fall either side of it; scaling the thresholds would not
+   * help, as the scores move both ways.
+   */
+  prepare(width: number, height: number, source: { width: number; height: number } = { width, height }): void {
+    validateFrameDimensions(width, height);
+
+    this.fcode = calculateFcode(this.searchRange, source.width, source.height, height / source.height);
+
+    this.bridge.allocateBuffers(width, height);
+  }
+
+  compare(prevFrame: RawFrame, curFrame: RawFrame, intraCount: number): MotionAnalysis {
+    return this.bridge.analyzeFrames(prevFrame, curFrame, intraCount, this.fcode, this.thresholds);
+  }
+
+  release(): void {
+    this.bridge.freeBuffers();
+  }
+
+  destroy(): void {
+    this.bridge.destroy();
+  }
+}
+
+/**
+ * Luma histogram difference: a cut changes the brightness distribution,
+ * motion within a shot mostly doesn't
+ */
+export class HistogramComparator implements FrameComparator {
+  readonly history = 0;
+
+  private threshold: number;
+
+  // Histogram of the last curFrame, reused when it becomes the next prevFrame
+  private lastFrame: RawFrame | null = null;
+  private lastData: Uint8Array | null = null;
+  private lastHistogram: Float64Array | null = null;
+
+  /**
+   * Create a new histogram comparator
+   *
+   * @param options Sensitivity, or a threshold on the difference (0-1)
+   */
+  constructor(options: ComparatorOptions = {}) {
+    this.threshold = resolveThreshold('histogram', options);
+  }
+
+  async init(): Promise<void> {}
+
+  prepare(): void {
+    this.release();
+  }
+
+  compare(prevFrame: RawFrame, curFrame: RawFrame): MotionAnalysis {
+    checkDimensions(prevFrame, curFrame);
+
+    const prevHistogram = prevFrame === this.lastFrame && prevFrame.data === this.lastData
+      ? this.lastHistogram!
+      : lumaHistogram(prevFrame);
+    const curHistogram = lumaHistogram(curFrame);
+    const score = histogramDifference(prevHistogram, curHistogram);
+
+    this.lastFrame = curFrame;
+    this.lastData = curFrame.data;
+    this.lastHistogram = curHistogram;
+
+    return {
+      sceneChange: score >= this.threshold,
+      metrics: { score, threshold: this.threshold }
+    };
+  }
+
+  release(): void {
+    this.lastFrame = null;
+    this.lastData = null;
+    this.lastHistogram = null;
+  }
+
+  destroy(): void {
+    this.release();
+  }
+}
+
+/**
+ * ffmpeg's scdet: the mean absolute frame difference (mafd, 0-100), less
+ * the previous pair's mafd when that is smaller
+ *
+ * A cut makes mafd jump; a steady pan keeps it high but level, so the
+ * difference between consecutive mafd values stays low.
+ */
+export class ScdetComparator implements FrameComparator {
+  readonly history = 1;
+
+  private threshold: number;
+  private previousMafd: number = 0;
+  private lastFrame: RawFrame | null = null;
+  private lastData: Uint8Array | null = null;
+
+  /**
+   * Create a new scdet comparator
+   *
+   * @param options Sensitivity, or a threshold on the score (0-100, ffmpeg's default is 10)
+   */
+  constructor(options: ComparatorOptions = {}) {
+    this.threshold = resolveThreshold('scdet', options);
+  }
+
+  async init(): Promise<void> {}
+
+  prepare(): void {
+    this.release();
+  }
+
+  compare(prevFrame: RawFrame, curFrame: RawFrame): MotionAnalysis {
+    // Like ffmpeg, the first pair is measured against an mafd of 0
+    const sequential = prevFrame === this.lastFrame && prevFrame.data === this.lastData;
+    const previousMafd = sequential ? this.previousMafd : 0;
+
+    const mafd = (meanAbsoluteDifference(prevFrame, curFrame) * 100) / 256;
+    const score = Math.min(100, Math.min(mafd, Math.abs(mafd - previousMafd)));
+
+    this.previousMafd = mafd;
+    this.lastFrame = curFrame;
+    this.lastData = curFrame.data;
+
+    return {
+      sceneChange: score >= this.threshold,
+      metrics: { score, threshold: this.threshold }
+    };
+  }
+
+  release(): void {
+    this.previousMafd = 0;
+    this.lastFrame = null;
+    this.lastData = null;
+  }
+
+  destroy(): void {
+    this.release();
+  }
+}
+
+/**
+ * PySceneDetect's AdaptiveDetector on luma: a pair's mean absolute pixel
+ * difference divided by the average of the pairs before it
+ *
+ * Fast motion raises the average along with the difference, so only a
+ * change that stands out from its neighborhood counts, and it must also
+ * reach a minimum difference. PySceneDetect averages the frames on both
+ * sides; only earlier pairs are used here, so no decision waits for later
+ * frames. The first pair of a run has nothing to compare with and is never
+ * a cut.
+ */
+export class AdaptiveComparator implements FrameComparator {
+  readonly history = ADAPTIVE_WINDOW;
+
+  private threshold: number;
+  private scores: number[] = [];
+  private lastFrame: RawFrame | null = null;
+  private lastData: Uint8Array | null = null;
+
+  /**
+   * Create a new adaptive comparator
+   *
+   * @param options Sensitivity, or a threshold on the ratio (PySceneDetect's default is 3)
+   */
+  constructor(options: ComparatorOptions = {}) {
+    this.threshold = resolveThreshold('adaptive', options);
+  }
+
+  async init(): Promise<void> {}
+
+  prepare(): void {
+    this.release();
+  }
+
+  compare(prevFrame: RawFrame, curFrame: RawFrame): MotionAnalysis {
+    if (prevFrame !== this.lastFrame || prevFrame.data !== this.lastData) {
+      this.scores = [];
+    }
+
+    const content = meanAbsoluteDifference(prevFrame, curFrame);
+    let score = 0;
+
+    if (this.scores.length > 0) {
+      const average = this.scores.reduce((sum, value) => sum + value, 0) / this.scores.length;
+
+      // A still window makes any real change infinitely large; PySceneDetect caps it at 255
+      score = average > 1e-5 ? content / average : (content >= MIN_CONTENT_VALUE ? 255 : 0);
+    }
+
+    this.scores.push(content);
+    if (this.scores.length > ADAPTIVE_WINDOW) {
+      this.scores.shift();
+    }
+    this.lastFrame = curFrame;
+    this.lastData = curFrame.data;
+
+    return {
+      sceneChange: score >= this.threshold && content >= MIN_CONTENT_VALUE,
+      metrics: { score, threshold: this.threshold }
+    };
+  }
+
+  release(): void {
+    this.scores = [];
+    this.lastFrame = null;
+    this.lastData = null;
+  }
+
+  destroy(): void {
+    this.release();
+  }
+}
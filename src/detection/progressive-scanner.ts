@@ -0,0 +1,214 @@
+/**
+ * Progressive Scanner - Coarse-to-fine scene change search
+ *
+ * The first pass compares every Nth frame. Only the intervals where
+ * MEanalysis flags a change are decoded again, at each refinement step in
+ * turn, until the exact frame of the cut is found.
+ */
+
+import { FFmpegDecoder } from '../decoder/ffmpeg-decoder';
+import { MotionAnalysis, ProgressiveProcessing, RawFrame } from '../types';
+
+/**
+ * Compare two frames (intraCount = frames since the last scene change)
+ */
+export type FrameAnalyzer = (
+  prevFrame: RawFrame,
+  curFrame: RawFrame,
+  intraCount: number
+) => MotionAnalysis;
+
+/**
+ * Receive a scene change; return false to stop the scan
+ */
+export type CutHandler = (
+  frameNumber: number,
+  pts: number,
+  analysis: MotionAnalysis
+) => Promise<boolean | void> | boolean | void;
+
+/**
+ * Interval flagged by the coarse pass; only frame numbers are kept, so a
+ * long video with many cuts doesn't hold a decoded frame for each
+ */
+interface FlaggedInterval {
+  prev: number;
+  cur: number;
+  pts: number;
+  analysis: MotionAnalysis;
+}
+
+export class ProgressiveScanner {
+  private decoder: FFmpegDecoder;
+  private analyze: FrameAnalyzer;
+  private steps: number[];
+  private lastCut: number = 0;
+  private framesDecoded: number = 0;
+
+  /**
+   * Create a new progressive scanner
+   *
+   * @param decoder Decoder for the video being scanned
+   * @param analyze Frame pair comparison
+   * @param options Initial step and refinement steps; a final step of 1 is added if missing
+   */
+  constructor(decoder: FFmpegDecoder, analyze: FrameAnalyzer, options: ProgressiveProcessing) {
+    const { initialStep, refinementSteps } = options;
+
+    if (!Number.isInteger(initialStep) || initialStep < 1) {
+      throw new Error(`Invalid initialStep: ${initialStep} (must be a positive integer)`);
+    }
+
+    for (const step of refinementSteps) {
+      if (!Number.isInteger(step) || step < 1) {
+        throw new Error(`Invalid refinement step: ${step} (must be a positive integer)`);
+      }
+    }
+
+    // Strictly decreasing steps, always ending at single frames
+    const refinement = Array.from(new Set(refinementSteps))
+      .filter(step => step < initialStep)
+      .sort((a, b) => b - a);
+
+    if (initialStep > 1 && refinement[refinement.length - 1] !== 1) {
+      refinement.push(1);
+    }
+
+    this.decoder = decoder;
+    this.analyze = analyze;
+    this.steps = [initialStep, ...refinement];
+  }
+
+  /**
+   * Scan the whole video, or a range of it
+   *
+   * @param onCut Called for each scene change, in frame order; awaited, and false stops the scan
+   * @param onProgress Optional progress callback for the coarse pass
+   * @param startFrame First frame of the range; it starts a scene (default: 0)
+   * @param endFrame Last frame of the range, inclusive (default: the last frame)
+   * @returns Number of frames decoded across all passes
+   */
+  async scan(
+    onCut: CutHandler,
+    onProgress?: (current: number, total: number) => void,
+    startFrame: number = 0,
+    endFrame?: number
+  ): Promise<number> {
+    const metadata = await this.decoder.getMetadata();
+    const initialStep = this.steps[0];
+    const lastFrame = Math.max(startFrame, Math.min(endFrame ?? Infinity, metadata.totalFrames - 1));
+
+    this.lastCut = startFrame;
+    this.framesDecoded = 0;
+
+    // Coarse pass: the last flagged sample stands in for the last cut
+    const flagged: FlaggedInterval[] = [];
+    let prevFrame: RawFrame | null = null;
+    let lastFlag = startFrame;
+
+    try {
+      await this.decoder.extractFrameRange(startFrame, lastFrame, initialStep, (frame: RawFrame) => {
+        this.framesDecoded++;
+
+        if (prevFrame) {
+          const analysis = this.analyze(prevFrame, frame, frame.frameNumber - lastFlag);
+
+          if (analysis.sceneChange) {
+            flagged.push({ prev: prevFrame.frameNumber, cur: frame.frameNumber, pts: frame.pts, analysis });
+            lastFlag = frame.frameNumber;
+          }
+
+          // Only the newest frame is compared again; the rest go back to the decoder's pool
+          releaseFrame(prevFrame);
+        }
+
+        prevFrame = frame;
+
+        if (onProgress) {
+          onProgress(frame.frameNumber, metadata.totalFrames);
+        }
+      });
+    } finally {
+      if (prevFrame) {
+        releaseFrame(prevFrame);
+      }
+    }
+
+    // Refinement: revisit only the flagged intervals, in order
+    for (const interval of flagged) {
+      let more: boolean | void;
+
+      if (initialStep === 1) {
+        this.lastCut = interval.cur;
+        more = await onCut(interval.cur, interval.pts, interval.analysis);
+      } else {
+        more = await this.refine(interval.prev, interval.cur, 1, onCut);
+      }
+
+      if (more === false) {
+        break;
+      }
+    }
+
+    return this.framesDecoded;
+  }
+
+  /**
+   * Decode an interval at the given refinement level and narrow down any
+   * flagged sub-intervals
+   *
+   * @returns false if onCut asked to stop
+   */
+  private async refine(
+    start: number,
+    end: number,
+    level: number,
+    onCut: CutHandler
+  ): Promise<boolean> {
+    const frames: RawFrame[] = [];
+
+    await this.decoder.extractFrameRange(start, end, this.steps[level], (frame: RawFrame) => {
+      frames.push(frame);
+    });
+
+    this.framesDecoded += frames.length;
+
+    try {
+      for (let i = 1; i < frames.length; i++) {
+        const prev = frames[i - 1];
+        const cur = frames[i];
+        const analysis = this.analyze(prev, cur, cur.frameNumber - this.lastCut);
+
+        if (!analysis.sceneChange) {
+          continue;
+        }
+
+        let more: boolean | void = true;
+
+        if (cur.frameNumber - prev.frameNumber === 1) {
+          this.lastCut = cur.frameNumber;
+          more = await onCut(cur.frameNumber, cur.pts, analysis);
+        } else if (level + 1 < this.steps.length) {
+          more = await this.refine(prev.frameNumber, cur.frameNumber, level + 1, onCut);
+        }
+
+        if (more === false) {
+          return false;
+        }
+      }
+
+      return true;
+    } finally {
+      frames.forEach(releaseFrame);
+    }
+  }
+}
+
+/**
+ * Hand a frame's buffer back to the decoder's pool, if it came from one
+ */
+function releaseFrame(frame: RawFrame): void {
+  if (frame.release) {
+    frame.release();
+  }
+}
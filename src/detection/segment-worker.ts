@@ -0,0 +1,204 @@
+/**
+ * Segment Worker - Scene change detection over one frame range
+ *
+ * Used both inside worker threads (see worker-pool.ts) and on the main
+ * thread to re-check the start of a segment once the real intraCount at its
+ * boundary is known.
+ */
+
+import { isMainThread, parentPort, workerData } from 'worker_threads';
+import { FFmpegDecoder } from '../decoder/ffmpeg-decoder';
+import { FrameBuffer } from '../decoder/frame-buffer';
+import { createComparator } from './frame-comparators';
+import {
+  ChromaDetection,
+  ComparatorOptions,
+  DetectionAlgorithm,
+  FrameComparator,
+  MotionAnalysis,
+  RawFrame,
+  VideoMetadata
+} from '../types';
+import { validateFrame } from '../utils/frame-processor';
+import { ChromaComparator } from '../utils/chroma-histogram';
+
+/**
+ * Marker that identifies worker threads started by the worker pool
+ */
+export const SEGMENT_WORKER = 'scenecut-segment-worker';
+
+/**
+ * A range of frames to analyse
+ */
+export interface SegmentTask {
+  /** Path to the video file */
+  videoPath: string;
+  /** Metadata probed on the main thread, frame timestamps included */
+  metadata: VideoMetadata;
+  /** First frame tested for a scene change (frame startFrame - 1 is decoded as its reference) */
+  startFrame: number;
+  /** First frame decoded: startFrame - 1, or earlier to rebuild the comparator's history */
+  decodeFrom: number;
+  /** Last frame tested (inclusive), or Infinity for the end of the stream */
+  endFrame: number;
+  /** intraCount in force for startFrame */
+  intraCount: number;
+  /** Frame comparison method */
+  algorithm: DetectionAlgorithm;
+  /** Settings the comparator is created from */
+  comparator: ComparatorOptions;
+  /** Height frames are scaled down to before analysis (0 or unset: source resolution) */
+  analysisResolution?: number;
+  /** Chroma histogram check, when enabled (the decoder must deliver yuv420p) */
+  chroma?: ChromaDetection;
+}
+
+/**
+ * A scene change found inside a segment
+ */
+export interface SegmentCut {
+  frameNumber: number;
+  pts: number;
+  analysis: MotionAnalysis;
+}
+
+/**
+ * Result of analysing a segment
+ */
+export interface SegmentResult {
+  /** Scene changes in frame order */
+  cuts: SegmentCut[];
+  /** Number of frames decoded, including the reference frame */
+  framesDecoded: number;
+  /** Last frame tested */
+  lastFrame: number;
+}
+
+/**
+ * Messages posted from a segment worker to the pool
+ */
+export type SegmentWorkerMessage =
+  | { type: 'progress'; framesDecoded: number }
+  | { type: 'result'; result: SegmentResult }
+  | { type: 'error'; message: string };
+
+/**
+ * Messages posted from the pool to a segment worker
+ */
+export type SegmentControlMessage = { type: 'stop' };
+
+/**
+ * Analyse a segment frame by frame, tracking intraCount exactly as the
+ * sequential detector does
+ *
+ * Pairs before startFrame only feed the comparator's history; their
+ * decisions are ignored.
+ *
+ * @param decoder Decoder for the video
+ * @param comparator Initialized comparator, prepared for the frame size
+ * @param task Segment to analyse
+ * @param shouldStop Optional check after each frame, given the intraCount for the next one
+ * @param onProgress Optional callback with the running number of decoded frames
+ */
+export async function analyzeSegment(
+  decoder: FFmpegDecoder,
+  comparator: FrameComparator,
+  task: SegmentTask,
+  shouldStop?: (frameNumber: number, nextIntraCount: number) => boolean,
+  onProgress?: (framesDecoded: number) => void
+): Promise<SegmentResult> {
+  const cuts: SegmentCut[] = [];
+  const chroma = task.chroma ? new ChromaComparator(task.chroma) : null;
+  let intraCount = task.intraCount;
+  let framesDecoded = 0;
+  let lastFrame = task.startFrame - 1;
+
+  // Holds the frame pair under analysis; evicted frames go back to the decoder's buffer pool
+  const frameBuffer = new FrameBuffer(2);
+
+  await decoder.extractFrameRange(task.decodeFrom, task.endFrame, 1, (frame: RawFrame) => {
+    validateFrame(frame, Infinity);
+    framesDecoded++;
+
+    frameBuffer.push(frame);
+    const prevFrame = frameBuffer.getPrevious();
+
+    if (prevFrame && frame.frameNumber < task.startFrame) {
+      // Warming up: the state this leaves behind is all that matters
+      comparator.compare(prevFrame, frame, intraCount);
+    } else if (prevFrame) {
+      let analysis = comparator.compare(prevFrame, frame, intraCount);
+
+      if (chroma) {
+        analysis = chroma.apply(analysis, prevFrame, frame);
+      }
+
+      if (analysis.sceneChange) {
+        cuts.push({ frameNumber: frame.frameNumber, pts: frame.pts, analysis });
+        intraCount = 1;
+      } else {
+        intraCount++;
+      }
+
+      lastFrame = frame.frameNumber;
+    }
+
+    if (onProgress && framesDecoded % 30 === 0) {
+      onProgress(framesDecoded);
+    }
+
+    // Stop once the caller has seen enough (never before the first tested frame)
+    return !(shouldStop && lastFrame >= task.startFrame && shouldStop(lastFrame, intraCount));
+  });
+
+  frameBuffer.clear();
+
+  return { cuts, framesDecoded, lastFrame };
+}
+
+/**
+ * Worker thread entry point
+ */
+async function runSegmentWorker(task: SegmentTask): Promise<void> {
+  const decoder = new FFmpegDecoder(task.videoPath, {
+    pixelFormat: task.chroma ? 'yuv420p' : 'gray',
+    metadata: task.metadata,
+    maxHeight: task.analysisResolution
+  });
+  const comparator = createComparator(task.algorithm, task.comparator);
+  let stopRequested = false;
+
+  // Asked to stop: end the segment early so ffmpeg is killed before the thread exits
+  const onControl = (message: SegmentControlMessage) => {
+    if (message.type === 'stop') {
+      stopRequested = true;
+    }
+  };
+  parentPort!.on('message', onControl);
+
+  try {
+    await comparator.init();
+
+    const metadata = await decoder.getMetadata();
+    const { width, height } = decoder.getFrameDimensions(metadata);
+    comparator.prepare(width, height, metadata.resolution);
+
+    const result = await analyzeSegment(decoder, comparator, task, () => stopRequested, (framesDecoded) => {
+      parentPort!.postMessage({ type: 'progress', framesDecoded } as SegmentWorkerMessage);
+    });
+
+    parentPort!.postMessage({ type: 'result', result } as SegmentWorkerMessage);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    parentPort!.postMessage({ type: 'error', message } as SegmentWorkerMessage);
+  } finally {
+    parentPort!.off('message', onControl);
+    comparator.destroy();
+    decoder.destroy();
+  }
+}
+
+// Started by the worker pool: analyse the segment passed in workerData
+if (!isMainThread && workerData && workerData.kind === SEGMENT_WORKER) {
+  runSegmentWorker(workerData.task as SegmentTask);
+}
@@ -8,21 +8,37 @@
  * - Data marshalling between JS and WASM
  */
 
-import { WasmModule, RawFrame } from '../types';
+import { WasmModule, RawFrame, CustomThresholds, MotionAnalysis, WasmBridgeOptions } from '../types';
 import * as path from 'path';
 import * as fs from 'fs';
 
 export class WasmBridge {
+  /** Number of int32 fields in the MEstats struct */
+  private static readonly STATS_FIELDS = 5;
+
+  /** Detection context frame slots */
+  private static readonly REFERENCE_SLOT = 0;
+  private static readonly CURRENT_SLOT = 1;
+
   private module: WasmModule | null = null;
   private initialized: boolean = false;
+  private temporalPredictor: boolean;
 
   // Pre-allocated WASM buffers for frame processing
-  private prevFramePtr: number = 0;      // Raw previous frame
-  private curFramePtr: number = 0;       // Raw current frame
-  private prevPaddedPtr: number = 0;     // Padded previous frame
-  private curPaddedPtr: number = 0;      // Padded current frame
-  private allocatedFrameSize: number = 0;  // Size of raw frame buffers
-  private allocatedPaddedSize: number = 0; // Size of padded frame buffers
+  private rawFramePtr: number = 0;       // Raw frame on its way to being padded
+  private contextPtr: number = 0;        // Detection context: padded frames and macroblocks
+  private allocatedFrameSize: number = 0;  // Size of raw frame buffer
+  private contextWidth: number = 0;      // Frame size the context was created for
+  private contextHeight: number = 0;
+  private statsPtr: number = 0;          // MEstats output struct
+
+  // Frame held in the context's current slot, reused as the next call's reference
+  private paddedFrame: RawFrame | null = null;
+  private paddedData: Uint8Array | null = null;
+
+  constructor(options: WasmBridgeOptions = {}) {
+    this.temporalPredictor = options.temporalPredictor || false;
+  }
 
   /**
    * Initialize the WASM module
@@ -39,7 +55,8 @@ export class WasmBridge {
       if (!fs.existsSync(wasmPath)) {
         throw new Error(
           `WASM module not found at ${wasmPath}. ` +
-          `Please run 'npm run build:wasm' to compile the WASM module.`
+          `Please run 'npm run build:wasm' to compile the WASM module, ` +
+          `or pick an algorithm that doesn't need it ('histogram', 'scdet' or 'adaptive').`
         );
       }
 
@@ -65,6 +82,9 @@ export class WasmBridge {
    * Pre-allocate WASM buffers for frame processing
    * This eliminates per-frame allocation overhead and reduces memory copies
    *
+   * The detection context (padded frames and macroblocks) is created once
+   * per resolution and replaced when the size changes.
+   *
    * @param width Frame width
    * @param height Frame height
    */
@@ -72,47 +92,79 @@ export class WasmBridge {
     this.ensureInitialized();
 
     const frameSize = width * height;
-    const paddedSize = this.module!._calculate_padded_size(width, height);
 
-    // Allocate or re-allocate raw frame buffers if size changed
+    // Allocate or re-allocate the raw frame buffer if size changed
     if (frameSize !== this.allocatedFrameSize) {
-      if (this.prevFramePtr) this.module!._free(this.prevFramePtr);
-      if (this.curFramePtr) this.module!._free(this.curFramePtr);
+      if (this.rawFramePtr) this.module!._free(this.rawFramePtr);
 
-      this.prevFramePtr = this.module!._malloc(frameSize);
-      this.curFramePtr = this.module!._malloc(frameSize);
+      this.rawFramePtr = this.module!._malloc(frameSize);
       this.allocatedFrameSize = frameSize;
     }
 
-    // Allocate or re-allocate padded frame buffers if size changed
-    if (paddedSize !== this.allocatedPaddedSize) {
-      if (this.prevPaddedPtr) this.module!._free(this.prevPaddedPtr);
-      if (this.curPaddedPtr) this.module!._free(this.curPaddedPtr);
+    // Create or re-create the detection context if the resolution changed
+    if (!this.contextPtr || width !== this.contextWidth || height !== this.contextHeight) {
+      if (this.contextPtr) this.module!._destroy_context(this.contextPtr);
 
-      this.prevPaddedPtr = this.module!._malloc(paddedSize);
-      this.curPaddedPtr = this.module!._malloc(paddedSize);
-      this.allocatedPaddedSize = paddedSize;
+      this.contextPtr = this.module!._create_context(width, height);
+      if (!this.contextPtr) {
+        throw new Error(`Failed to create WASM detection context for ${width}x${height}`);
+      }
+      this.contextWidth = width;
+      this.contextHeight = height;
+      this.paddedFrame = null;
+      this.paddedData = null;
+    }
+
+    // MEstats holds five int32 fields
+    if (!this.statsPtr) {
+      this.statsPtr = this.module!._malloc(WasmBridge.STATS_FIELDS * 4);
     }
   }
 
   /**
    * Detect scene change between two frames
    *
-   * Uses pre-allocated WASM buffers to eliminate per-frame allocation
-   * and reduce memory copies from 3 to 1 per frame.
-   *
    * @param prevFrame Previous frame
    * @param curFrame Current frame
    * @param intraCount Number of consecutive non-scene-change frames
    * @param fcode Motion search range parameter (default: 4 = 256 pixels)
+   * @param thresholds Base intra/sSAD thresholds (default: wwxd's 2000/90)
    * @returns true if scene change detected, false otherwise
    */
   detectSceneChange(
     prevFrame: RawFrame,
     curFrame: RawFrame,
     intraCount: number,
-    fcode: number = 4
+    fcode: number = 4,
+    thresholds: CustomThresholds = { intraThresh: 2000, intraThresh2: 90 }
   ): boolean {
+    return this.analyzeFrames(prevFrame, curFrame, intraCount, fcode, thresholds).sceneChange;
+  }
+
+  /**
+   * Run motion analysis between two frames and return the values behind
+   * the decision
+   *
+   * Uses pre-allocated WASM buffers to eliminate per-frame allocation.
+   * When prevFrame is the previous call's curFrame (sequential decoding),
+   * its padded copy is still in WASM memory: the context's frame slots swap
+   * roles and only curFrame is copied in and padded. Any other pair clears
+   * the motion vectors kept for the temporal predictor.
+   *
+   * @param prevFrame Previous frame
+   * @param curFrame Current frame
+   * @param intraCount Number of consecutive non-scene-change frames
+   * @param fcode Motion search range parameter (default: 4 = 256 pixels)
+   * @param thresholds Base intra/sSAD thresholds (default: wwxd's 2000/90)
+   * @returns Scene change decision and raw motion metrics
+   */
+  analyzeFrames(
+    prevFrame: RawFrame,
+    curFrame: RawFrame,
+    intraCount: number,
+    fcode: number = 4,
+    thresholds: CustomThresholds = { intraThresh: 2000, intraThresh2: 90 }
+  ): MotionAnalysis {
     this.ensureInitialized();
 
     // Validate inputs
@@ -121,29 +173,64 @@ export class WasmBridge {
     }
 
     // Ensure buffers are allocated (should be done once at start)
-    if (!this.prevFramePtr || this.allocatedFrameSize !== prevFrame.data.length) {
+    if (
+      !this.rawFramePtr ||
+      this.allocatedFrameSize !== prevFrame.data.length ||
+      this.contextWidth !== prevFrame.width ||
+      this.contextHeight !== prevFrame.height
+    ) {
       this.allocateBuffers(prevFrame.width, prevFrame.height);
     }
 
-    // Single copy: Raw frames -> WASM memory (eliminates 2 extra copies)
-    this.module!.HEAPU8.set(prevFrame.data, this.prevFramePtr);
-    this.module!.HEAPU8.set(curFrame.data, this.curFramePtr);
+    if (prevFrame === this.paddedFrame && prevFrame.data === this.paddedData && prevFrame !== curFrame) {
+      // Last call's current frame is this call's reference: swap instead of padding it again
+      this.module!._context_swap_frames(this.contextPtr);
+    } else {
+      // Vectors from an unrelated pair are no use as predictors
+      this.module!._context_reset(this.contextPtr);
+      this.padFrame(prevFrame, WasmBridge.REFERENCE_SLOT);
+    }
+
+    this.padFrame(curFrame, WasmBridge.CURRENT_SLOT);
+    this.paddedFrame = curFrame;
+    this.paddedData = curFrame.data;
 
-    // Pad frames in-place in WASM (no copy back to JS)
-    this.module!._pad_frame(this.prevFramePtr, this.prevPaddedPtr, prevFrame.width, prevFrame.height);
-    this.module!._pad_frame(this.curFramePtr, this.curPaddedPtr, curFrame.width, curFrame.height);
+    // Clear stats so a failed call inside WASM doesn't leave stale values
+    const statsIndex = this.statsPtr >> 2;
+    this.module!.HEAP32.fill(0, statsIndex, statsIndex + WasmBridge.STATS_FIELDS);
 
-    // Run motion estimation on pre-padded buffers
-    const result = this.module!._MEanalysis_js(
-      this.prevPaddedPtr,
-      this.curPaddedPtr,
-      prevFrame.width,
-      prevFrame.height,
+    // Run motion estimation on the context's padded frames
+    const result = this.module!._context_analyze(
+      this.contextPtr,
       intraCount,
-      fcode
+      fcode,
+      thresholds.intraThresh,
+      thresholds.intraThresh2,
+      this.temporalPredictor ? 1 : 0,
+      this.statsPtr
     );
 
-    return result === 1;
+    // Read MEstats (HEAP32 may be replaced on memory growth, so read it fresh)
+    const heap = this.module!.HEAP32;
+
+    return {
+      sceneChange: result === 1,
+      metrics: {
+        intraBlocks: heap[statsIndex],
+        intraBlockLimit: heap[statsIndex + 1],
+        sSAD: heap[statsIndex + 2],
+        intraThresh: heap[statsIndex + 3],
+        intraThresh2: heap[statsIndex + 4]
+      }
+    };
+  }
+
+  /**
+   * Copy a frame into WASM memory and pad it into a context slot (no copy back to JS)
+   */
+  private padFrame(frame: RawFrame, slot: number): void {
+    this.module!.HEAPU8.set(frame.data, this.rawFramePtr);
+    this.module!._context_pad_frame(this.contextPtr, this.rawFramePtr, slot);
   }
 
   /**
@@ -189,23 +276,33 @@ export class WasmBridge {
   }
 
   /**
-   * Clean up resources
+   * Free the pre-allocated WASM buffers, keeping the module loaded
+   *
+   * allocateBuffers() must be called again before the next analysis.
    */
-  destroy(): void {
-    // Free pre-allocated WASM buffers
+  freeBuffers(): void {
     if (this.module) {
-      if (this.prevFramePtr) this.module._free(this.prevFramePtr);
-      if (this.curFramePtr) this.module._free(this.curFramePtr);
-      if (this.prevPaddedPtr) this.module._free(this.prevPaddedPtr);
-      if (this.curPaddedPtr) this.module._free(this.curPaddedPtr);
+      if (this.rawFramePtr) this.module._free(this.rawFramePtr);
+      if (this.contextPtr) this.module._destroy_context(this.contextPtr);
+      if (this.statsPtr) this.module._free(this.statsPtr);
     }
 
-    this.prevFramePtr = 0;
-    this.curFramePtr = 0;
-    this.prevPaddedPtr = 0;
-    this.curPaddedPtr = 0;
+    this.rawFramePtr = 0;
+    this.contextPtr = 0;
+    this.statsPtr = 0;
     this.allocatedFrameSize = 0;
-    this.allocatedPaddedSize = 0;
+    this.contextWidth = 0;
+    this.contextHeight = 0;
+    this.paddedFrame = null;
+    this.paddedData = null;
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    // Free pre-allocated WASM buffers
+    this.freeBuffers();
 
     this.module = null;
     this.initialized = false;
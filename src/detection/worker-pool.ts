@@ -0,0 +1,334 @@
+/**
+ * Worker Pool - Parallel scene change detection using worker_threads
+ *
+ * The video is split into consecutive segments that overlap by one frame:
+ * each worker decodes the frame before its segment as the first reference
+ * (and a few more when the comparator builds on earlier pairs) and runs its
+ * own comparator. A worker cannot know how long ago the last
+ * scene change before its segment was, so it starts at the steady-state
+ * intraCount. When segments are stitched together in order, the start of
+ * each segment is re-checked on the main thread with the real intraCount
+ * until both runs are in the same state again, which makes the result
+ * identical to a single-threaded run.
+ */
+
+import { Worker } from 'worker_threads';
+import { FFmpegDecoder } from '../decoder/ffmpeg-decoder';
+import { ChromaDetection, ComparatorOptions, DetectionAlgorithm, FrameComparator, VideoMetadata } from '../types';
+import { AbortError, throwIfAborted } from '../utils/errors';
+import {
+  analyzeSegment,
+  SegmentCut,
+  SegmentResult,
+  SegmentTask,
+  SegmentWorkerMessage,
+  SegmentControlMessage,
+  SEGMENT_WORKER
+} from './segment-worker';
+
+/** MEanalysis stops raising its thresholds once intraCount reaches this value (the other comparators ignore it) */
+const STEADY_INTRA_COUNT = 30;
+
+/** How long a worker gets to kill its ffmpeg process before it is terminated */
+const STOP_TIMEOUT_MS = 5000;
+
+/** Segments shorter than this are not worth a worker thread */
+export const MIN_SEGMENT_FRAMES = 300;
+
+/**
+ * Frame range handled by one worker
+ */
+export interface Segment {
+  /** First frame tested for a scene change */
+  startFrame: number;
+  /** Last frame tested (inclusive), or Infinity for the end of the stream */
+  endFrame: number;
+}
+
+/**
+ * Options for a parallel detection run
+ */
+export interface ParallelDetectionOptions {
+  /** Path to the video file */
+  videoPath: string;
+  /** Video metadata from the main-thread decoder, passed on so workers don't probe again */
+  metadata: VideoMetadata;
+  /** Maximum number of worker threads */
+  workers: number;
+  /** First frame of the range to analyse; it starts a scene */
+  startFrame: number;
+  /** Last frame of the range, inclusive, or Infinity for the end of the stream */
+  endFrame: number;
+  /** Frame comparison method */
+  algorithm: DetectionAlgorithm;
+  /** Settings the comparator is created from */
+  comparator: ComparatorOptions;
+  /** Height frames are scaled down to before analysis (0 or unset: source resolution) */
+  analysisResolution?: number;
+  /** Chroma histogram check, when enabled */
+  chroma?: ChromaDetection;
+  /** Called for each scene change, in frame order; awaited, and false stops the run */
+  onCut: (cut: SegmentCut) => Promise<boolean | void> | boolean | void;
+  /** Called with the total number of frames decoded so far */
+  onProgress?: (framesDecoded: number) => void;
+  /** Stop all workers and reject with AbortError when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Split a video (or a range of it) into segments for parallel detection
+ *
+ * The first frame of the range is never tested (it always starts a scene)
+ * and when the range runs to the end of the video the last segment runs to
+ * the end of the stream, so an inexact frame count is harmless.
+ *
+ * @param totalFrames Estimated number of frames
+ * @param workers Maximum number of segments
+ * @param startFrame First frame of the range (default: 0)
+ * @param endFrame Last frame of the range, inclusive (default: Infinity, the end of the stream)
+ * @returns Segments in frame order (a single segment means no parallelism)
+ */
+export function planSegments(
+  totalFrames: number,
+  workers: number,
+  startFrame: number = 0,
+  endFrame: number = Infinity
+): Segment[] {
+  const lastFrame = Math.min(endFrame, totalFrames - 1);
+  const tested = Math.max(0, lastFrame - startFrame);
+  const count = Math.max(1, Math.min(workers, Math.floor(tested / MIN_SEGMENT_FRAMES)));
+  const length = Math.ceil(tested / count);
+  const segments: Segment[] = [];
+
+  for (let i = 0; i < count; i++) {
+    segments.push({
+      startFrame: startFrame + 1 + i * length,
+      endFrame: i === count - 1 ? endFrame : startFrame + (i + 1) * length
+    });
+  }
+
+  return segments;
+}
+
+export class WorkerPool {
+  private decoder: FFmpegDecoder;
+  private comparator: FrameComparator;
+  private workers: Set<Worker> = new Set();
+
+  /**
+   * Create a new worker pool
+   *
+   * @param decoder Main-thread decoder, used to re-check segment starts
+   * @param comparator Main-thread comparator, created from the same options and prepared
+   */
+  constructor(decoder: FFmpegDecoder, comparator: FrameComparator) {
+    this.decoder = decoder;
+    this.comparator = comparator;
+  }
+
+  /**
+   * Run detection over the whole video
+   *
+   * @param options Parallel detection options
+   * @returns Number of frames decoded across all threads
+   */
+  async run(options: ParallelDetectionOptions): Promise<number> {
+    throwIfAborted(options.signal);
+
+    const segments = planSegments(options.metadata.totalFrames, options.workers, options.startFrame, options.endFrame);
+    const history = this.comparator.history || 0;
+    const progress: number[] = new Array(segments.length).fill(0);
+    let fixupFrames = 0;
+
+    const reportProgress = () => {
+      if (options.onProgress) {
+        options.onProgress(progress.reduce((sum, frames) => sum + frames, 0) + fixupFrames);
+      }
+    };
+
+    const pending = segments.map((segment, index) => {
+      const task: SegmentTask = {
+        videoPath: options.videoPath,
+        metadata: options.metadata,
+        startFrame: segment.startFrame,
+        endFrame: segment.endFrame,
+        // Never before the range: a single-threaded run has no history there either
+        decodeFrom: Math.max(options.startFrame, segment.startFrame - 1 - history),
+        intraCount: index === 0 ? 1 : STEADY_INTRA_COUNT,
+        algorithm: options.algorithm,
+        comparator: options.comparator,
+        analysisResolution: options.analysisResolution,
+        chroma: options.chroma
+      };
+
+      const promise = this.runWorker(task, (framesDecoded: number) => {
+        progress[index] = framesDecoded;
+        reportProgress();
+      });
+
+      // Failures are handled in order below; avoid unhandled rejections meanwhile
+      promise.catch(() => {});
+      return { task, promise };
+    });
+
+    // Rejects as soon as the signal fires, so waiting on a worker never outlasts an abort
+    const signal = options.signal;
+    let onAbort: (() => void) | null = null;
+    const aborted = new Promise<never>((_, reject) => {
+      if (signal) {
+        onAbort = () => reject(new AbortError(signal.reason));
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+    });
+    aborted.catch(() => {});
+
+    // Frame 0 always starts a scene
+    let lastCut = 0;
+    let stopped = false;
+
+    try {
+      for (let index = 0; index < pending.length && !stopped; index++) {
+        const { task, promise } = pending[index];
+        const result = await Promise.race([promise, aborted]);
+        progress[index] = result.framesDecoded;
+
+        let cuts = result.cuts;
+
+        if (index > 0 && task.startFrame - lastCut < STEADY_INTRA_COUNT) {
+          const fixup = await this.recheckSegmentStart(task, result, task.startFrame - lastCut);
+          fixupFrames += fixup.framesDecoded;
+          cuts = [...fixup.cuts, ...result.cuts.filter(cut => cut.frameNumber > fixup.lastFrame)];
+        }
+
+        for (const cut of cuts) {
+          lastCut = cut.frameNumber;
+
+          if ((await options.onCut(cut)) === false) {
+            stopped = true;
+            break;
+          }
+        }
+
+        reportProgress();
+      }
+    } finally {
+      if (signal && onAbort) {
+        signal.removeEventListener('abort', onAbort);
+      }
+      await this.terminate();
+    }
+
+    return progress.reduce((sum, frames) => sum + frames, 0) + fixupFrames;
+  }
+
+  /**
+   * Stop all running workers
+   *
+   * Each worker is asked to stop first so it can kill its ffmpeg process;
+   * workers that don't exit in time are terminated.
+   */
+  async terminate(): Promise<void> {
+    const workers = Array.from(this.workers);
+    this.workers.clear();
+    await Promise.all(workers.map(worker => this.stopWorker(worker)));
+  }
+
+  /**
+   * Ask a worker to stop and wait for it to exit
+   */
+  private stopWorker(worker: Worker): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        worker.terminate().then(() => resolve(), () => resolve());
+      }, STOP_TIMEOUT_MS);
+
+      worker.once('exit', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+
+      worker.postMessage({ type: 'stop' } as SegmentControlMessage);
+    });
+  }
+
+  /**
+   * Re-run the start of a segment with its real intraCount until the state
+   * matches the worker's run (same intraCount, or both past the steady-state
+   * value), after which the worker's decisions are exact
+   */
+  private async recheckSegmentStart(
+    task: SegmentTask,
+    workerResult: SegmentResult,
+    intraCount: number
+  ): Promise<SegmentResult> {
+    const workerCuts = workerResult.cuts;
+    let workerIndex = 0;
+    let lastWorkerCut = -1;
+
+    return analyzeSegment(
+      this.decoder,
+      this.comparator,
+      { ...task, intraCount },
+      (frameNumber: number, nextIntraCount: number) => {
+        while (workerIndex < workerCuts.length && workerCuts[workerIndex].frameNumber <= frameNumber) {
+          lastWorkerCut = workerCuts[workerIndex].frameNumber;
+          workerIndex++;
+        }
+
+        const workerIntraCount = lastWorkerCut >= 0
+          ? frameNumber + 1 - lastWorkerCut
+          : STEADY_INTRA_COUNT + frameNumber + 1 - task.startFrame;
+
+        return nextIntraCount === workerIntraCount ||
+          (nextIntraCount >= STEADY_INTRA_COUNT && workerIntraCount >= STEADY_INTRA_COUNT);
+      }
+    );
+  }
+
+  /**
+   * Analyse one segment in a worker thread
+   */
+  private runWorker(
+    task: SegmentTask,
+    onProgress: (framesDecoded: number) => void
+  ): Promise<SegmentResult> {
+    return new Promise((resolve, reject) => {
+      // This module (or the bundle containing it) doubles as the worker script;
+      // import.meta.url names it in both the CommonJS and the ES module build
+      const worker = new Worker(new URL(import.meta.url), {
+        workerData: { kind: SEGMENT_WORKER, task }
+      });
+      let settled = false;
+
+      this.workers.add(worker);
+
+      worker.on('message', (message: SegmentWorkerMessage) => {
+        switch (message.type) {
+          case 'progress':
+            onProgress(message.framesDecoded);
+            break;
+          case 'result':
+            settled = true;
+            resolve(message.result);
+            break;
+          case 'error':
+            settled = true;
+            reject(new Error(`Worker failed on frames ${task.startFrame}-${task.endFrame}: ${message.message}`));
+            break;
+        }
+      });
+
+      worker.on('error', (err: Error) => {
+        settled = true;
+        reject(err);
+      });
+
+      worker.on('exit', (code: number) => {
+        this.workers.delete(worker);
+        if (!settled) {
+          reject(new Error(`Worker for frames ${task.startFrame}-${task.endFrame} exited with code ${code}`));
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Encoder Formats - Outputs that drive encoders and muxers from scene lists
+ *
+ * - x264/x265 qpfile (forced I-frames)
+ * - ffmpeg -force_key_frames argument
+ * - av1an / SVT-AV1 scenes JSON
+ * - Matroska XML chapters and OGM chapter text
+ */
+
+import {
+  DetectionResult,
+  SceneInfo,
+  QpfileExportOptions,
+  FfmpegKeyframeExportOptions,
+  ChapterExportOptions
+} from '../types';
+import { formatTimecode } from '../utils/frame-processor';
+
+/**
+ * x264/x265 qpfile with one forced frame per scene change
+ *
+ * Pass to the encoder with `--qpfile`.
+ */
+export function exportQpfile(result: DetectionResult, options: QpfileExportOptions = {}): string {
+  const frameType = options.frameType || 'I';
+
+  if (options.qp !== undefined && (!Number.isInteger(options.qp) || options.qp < 0 || options.qp > 69)) {
+    throw new Error(`Invalid QP: ${options.qp} (must be an integer from 0 to 69)`);
+  }
+
+  const qp = options.qp !== undefined ? ` ${options.qp}` : '';
+  let output = '';
+
+  for (const scene of result.scenes) {
+    output += `${scene.frameNumber} ${frameType}${qp}\n`;
+  }
+
+  return output;
+}
+
+/**
+ * Value for ffmpeg's `-force_key_frames` option
+ *
+ * The time list form is what ffmpeg documents for keyframe lists; the expr
+ * form matches frame numbers exactly, which is safer for VFR sources.
+ */
+export function exportFfmpegKeyframes(result: DetectionResult, options: FfmpegKeyframeExportOptions = {}): string {
+  const mode = options.mode || 'timestamps';
+
+  if (mode === 'expr') {
+    if (result.scenes.length === 0) {
+      return 'expr:0';
+    }
+    return 'expr:' + result.scenes.map(scene => `eq(n,${scene.frameNumber})`).join('+');
+  }
+
+  // ffmpeg forces the first frame at or after each time, so never round up past the frame
+  return result.scenes.map(scene => (Math.floor(scene.timestamp * 1e6) / 1e6).toFixed(6)).join(',');
+}
+
+/**
+ * av1an / SVT-AV1 scenes file
+ *
+ * Each scene runs from its scene change to the next one; end_frame is
+ * exclusive. Load it with `av1an --scenes scenes.json`.
+ */
+export function exportAv1anScenes(result: DetectionResult): string {
+  const totalFrames = result.metadata.totalFrames;
+
+  const scenes = result.scenes.map((scene, i) => {
+    const next = result.scenes[i + 1];
+    return {
+      start_frame: scene.frameNumber,
+      end_frame: next ? next.frameNumber : Math.max(totalFrames, scene.frameNumber + 1),
+      zone_overrides: null
+    };
+  });
+
+  return JSON.stringify({ scenes, frames: totalFrames }, null, 2) + '\n';
+}
+
+/**
+ * Matroska XML chapters, one chapter per scene
+ *
+ * Mux with `mkvmerge --chapters chapters.xml`.
+ */
+export function exportMatroskaChapters(result: DetectionResult, options: ChapterExportOptions = {}): string {
+  const language = options.language || 'eng';
+
+  let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
+  xml += '<!DOCTYPE Chapters SYSTEM "matroskachapters.dtd">\n';
+  xml += '<Chapters>\n';
+  xml += '  <EditionEntry>\n';
+
+  result.scenes.forEach((scene, i) => {
+    xml += '    <ChapterAtom>\n';
+    xml += `      <ChapterTimeStart>${formatNanosecondTimestamp(scene.timestamp)}</ChapterTimeStart>\n`;
+    xml += '      <ChapterDisplay>\n';
+    xml += `        <ChapterString>${escapeXml(chapterName(scene, i, options))}</ChapterString>\n`;
+    xml += `        <ChapterLanguage>${escapeXml(language)}</ChapterLanguage>\n`;
+    xml += '      </ChapterDisplay>\n';
+    xml += '    </ChapterAtom>\n';
+  });
+
+  xml += '  </EditionEntry>\n';
+  xml += '</Chapters>\n';
+
+  return xml;
+}
+
+/**
+ * OGM (simple) chapter text, one chapter per scene
+ */
+export function exportOgmChapters(result: DetectionResult, options: ChapterExportOptions = {}): string {
+  const digits = Math.max(2, String(result.scenes.length).length);
+  let output = '';
+
+  result.scenes.forEach((scene, i) => {
+    const id = `CHAPTER${(i + 1).toString().padStart(digits, '0')}`;
+    output += `${id}=${scene.timecode || formatTimecode(scene.timestamp)}\n`;
+    output += `${id}NAME=${chapterName(scene, i, options)}\n`;
+  });
+
+  return output;
+}
+
+/**
+ * Expand the chapter name template for a scene
+ */
+function chapterName(scene: SceneInfo, index: number, options: ChapterExportOptions): string {
+  const template = options.nameTemplate || 'Scene {n}';
+
+  return template
+    .replace(/\{n\}/g, String(index + 1))
+    .replace(/\{frame\}/g, String(scene.frameNumber))
+    .replace(/\{timecode\}/g, scene.timecode || formatTimecode(scene.timestamp));
+}
+
+/**
+ * Format seconds as HH:MM:SS.nnnnnnnnn (Matroska chapter time)
+ */
+function formatNanosecondTimestamp(seconds: number): string {
+  const totalNs = Math.round(seconds * 1e9);
+  const ns = totalNs % 1e9;
+  const totalSeconds = Math.floor(totalNs / 1e9);
+  const ss = totalSeconds % 60;
+  const mm = Math.floor(totalSeconds / 60) % 60;
+  const hh = Math.floor(totalSeconds / 3600);
+
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${pad(hh)}:${pad(mm)}:${pad(ss)}.${ns.toString().padStart(9, '0')}`;
+}
+
+/**
+ * Escape text for XML element content
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
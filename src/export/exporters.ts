@@ -0,0 +1,273 @@
+/**
+ * Exporters - Serialise detection results to keyframe and edit list formats
+ */
+
+import {
+  DetectionResult,
+  ExportFormat,
+  ExportOptions,
+  JsonExportOptions,
+  CsvExportOptions,
+  EdlExportOptions,
+  QpfileExportOptions,
+  FfmpegKeyframeExportOptions,
+  ChapterExportOptions
+} from '../types';
+import { formatTimecode } from '../utils/frame-processor';
+import {
+  exportQpfile,
+  exportFfmpegKeyframes,
+  exportAv1anScenes,
+  exportMatroskaChapters,
+  exportOgmChapters
+} from './encoder-formats';
+
+/**
+ * Export a detection result in the given format
+ *
+ * @param result Detection result
+ * @param format Output format
+ * @param options Format-specific options
+ * @returns Formatted output
+ *
+ * @example
+ * ```typescript
+ * const results = await detectSceneChanges('input.mp4');
+ * fs.writeFileSync('cuts.edl', exportScenes(results, 'edl', { title: 'Reel 1' }));
+ * ```
+ */
+export function exportScenes(result: DetectionResult, format: 'json', options?: JsonExportOptions): string;
+export function exportScenes(result: DetectionResult, format: 'csv', options?: CsvExportOptions): string;
+export function exportScenes(result: DetectionResult, format: 'edl', options?: EdlExportOptions): string;
+export function exportScenes(result: DetectionResult, format: 'qpfile', options?: QpfileExportOptions): string;
+export function exportScenes(result: DetectionResult, format: 'ffmpeg', options?: FfmpegKeyframeExportOptions): string;
+export function exportScenes(
+  result: DetectionResult,
+  format: 'matroska-chapters' | 'ogm-chapters',
+  options?: ChapterExportOptions
+): string;
+export function exportScenes(result: DetectionResult, format: ExportFormat, options?: ExportOptions): string;
+export function exportScenes(result: DetectionResult, format: ExportFormat, options: ExportOptions = {}): string {
+  switch (format) {
+    case 'json':
+      return exportJSON(result, options as JsonExportOptions);
+    case 'csv':
+      return exportCSV(result, options as CsvExportOptions);
+    case 'edl':
+      return exportEDL(result, options as EdlExportOptions);
+    case 'aegisub':
+      return exportAegisub(result);
+    case 'timecode':
+      return exportTimecodes(result);
+    case 'timecodes-v2':
+      return exportTimecodesV2(result);
+    case 'qpfile':
+      return exportQpfile(result, options as QpfileExportOptions);
+    case 'ffmpeg':
+      return exportFfmpegKeyframes(result, options as FfmpegKeyframeExportOptions);
+    case 'av1an':
+      return exportAv1anScenes(result);
+    case 'matroska-chapters':
+      return exportMatroskaChapters(result, options as ChapterExportOptions);
+    case 'ogm-chapters':
+      return exportOgmChapters(result, options as ChapterExportOptions);
+    default:
+      throw new Error(`Unknown export format: ${format}`);
+  }
+}
+
+/**
+ * JSON with full metadata
+ */
+export function exportJSON(result: DetectionResult, options: JsonExportOptions = {}): string {
+  const indent = options.indent ?? 2;
+
+  // One entry per frame would dwarf the scene list
+  let output: DetectionResult = result;
+  if (!options.timestamps && result.metadata.timestamps) {
+    const { timestamps, ...metadata } = result.metadata;
+    output = { ...result, metadata };
+  }
+
+  return JSON.stringify(output, null, indent > 0 ? indent : undefined);
+}
+
+/**
+ * CSV with frame, timestamp, timecode and confidence columns
+ */
+export function exportCSV(result: DetectionResult, options: CsvExportOptions = {}): string {
+  const header = options.header ?? true;
+  const delimiter = options.delimiter ?? ',';
+
+  const row = (fields: (string | number)[]) =>
+    fields.map(field => escapeCsvField(String(field), delimiter)).join(delimiter) + '\n';
+
+  let csv = header ? row(['frame', 'timestamp', 'timecode', 'confidence']) : '';
+
+  for (const scene of result.scenes) {
+    csv += row([
+      scene.frameNumber,
+      scene.timestamp,
+      scene.timecode || formatTimecode(scene.timestamp),
+      scene.confidence ?? ''
+    ]);
+  }
+
+  return csv;
+}
+
+/**
+ * Aegisub keyframes format (one frame number per line)
+ */
+export function exportAegisub(result: DetectionResult): string {
+  let output = '# keyframe format v1\n';
+  output += `fps ${result.metadata.fps}\n`;
+
+  for (const scene of result.scenes) {
+    output += `${scene.frameNumber}\n`;
+  }
+
+  return output;
+}
+
+/**
+ * Simple timecode list (HH:MM:SS.mmm), one per line
+ */
+export function exportTimecodes(result: DetectionResult): string {
+  let output = '';
+
+  for (const scene of result.scenes) {
+    output += `${scene.timecode || formatTimecode(scene.timestamp)}\n`;
+  }
+
+  return output;
+}
+
+/**
+ * Matroska timecodes v2: the timestamp of every frame in milliseconds
+ *
+ * Uses the container's frame timestamps when the decoder read them, so VFR
+ * timing survives a re-encode (mkvmerge --timestamps 0:file.txt); otherwise
+ * frames are spaced at the nominal frame rate.
+ */
+export function exportTimecodesV2(result: DetectionResult): string {
+  const { timestamps, totalFrames, fps } = result.metadata;
+  let output = '# timecode format v2\n';
+
+  const count = timestamps ? timestamps.length : totalFrames;
+  for (let i = 0; i < count; i++) {
+    const seconds = timestamps ? timestamps[i] : i / fps;
+    output += `${formatMilliseconds(seconds)}\n`;
+  }
+
+  return output;
+}
+
+/**
+ * Seconds as milliseconds with up to 6 decimal places and no trailing zeros
+ */
+function formatMilliseconds(seconds: number): string {
+  return String(Math.round(seconds * 1e9) / 1e6);
+}
+
+/**
+ * CMX3600 edit decision list with one event per scene
+ *
+ * Source and record timecodes are both counted from 00:00:00:00; each event
+ * runs from its scene change to the next one (the last to the end of the
+ * video).
+ */
+export function exportEDL(result: DetectionResult, options: EdlExportOptions = {}): string {
+  const fcm = options.fcm || 'NON-DROP FRAME';
+  const dropFrame = fcm === 'DROP FRAME';
+  const fps = result.metadata.fps;
+  const reel = (options.reel || 'AX').slice(0, 8).padEnd(8);
+  const title = options.title || 'Scene Changes';
+
+  if (result.scenes.length > 999) {
+    throw new Error(`CMX3600 EDLs are limited to 999 events (got ${result.scenes.length} scenes)`);
+  }
+
+  let edl = `TITLE: ${title}\n`;
+  edl += `FCM: ${fcm}\n\n`;
+
+  result.scenes.forEach((scene, i) => {
+    const next = result.scenes[i + 1];
+    const inFrame = scene.frameNumber;
+    const outFrame = next ? next.frameNumber : Math.max(result.metadata.totalFrames, inFrame + 1);
+
+    const tcIn = formatSmpteTimecode(inFrame, fps, dropFrame);
+    const tcOut = formatSmpteTimecode(outFrame, fps, dropFrame);
+    const event = (i + 1).toString().padStart(3, '0');
+
+    edl += `${event}  ${reel} V     C        ${tcIn} ${tcOut} ${tcIn} ${tcOut}\n`;
+
+    if (options.clipName) {
+      edl += `* FROM CLIP NAME: ${options.clipName}\n`;
+    }
+  });
+
+  return edl;
+}
+
+/**
+ * Format a frame number as an SMPTE timecode (HH:MM:SS:FF, or HH:MM:SS;FF
+ * for drop-frame)
+ *
+ * Drop-frame is only defined for the NTSC rates (29.97 and 59.94), where
+ * frame numbers 0 and 1 (0-3 at 59.94) are skipped at the start of every
+ * minute except each tenth minute.
+ *
+ * @param frame Frame number (0-indexed)
+ * @param fps Frames per second
+ * @param dropFrame Use drop-frame counting
+ */
+export function formatSmpteTimecode(frame: number, fps: number, dropFrame: boolean = false): string {
+  if (!Number.isInteger(frame) || frame < 0) {
+    throw new Error(`Invalid frame number: ${frame}`);
+  }
+
+  const base = Math.round(fps);
+  if (base <= 0) {
+    throw new Error(`Invalid frame rate: ${fps}`);
+  }
+
+  let count = frame;
+
+  if (dropFrame) {
+    if (Math.abs(fps - base * 1000 / 1001) > 0.01 || base % 30 !== 0) {
+      throw new Error(`Drop-frame timecode requires 29.97 or 59.94 fps (got ${fps})`);
+    }
+
+    const dropped = base / 15;                       // 2 at 29.97, 4 at 59.94
+    const framesPerMinute = base * 60 - dropped;
+    const framesPer10Minutes = framesPerMinute * 10 + dropped;
+
+    const tens = Math.floor(count / framesPer10Minutes);
+    const rest = count % framesPer10Minutes;
+
+    count += dropped * 9 * tens;
+    if (rest > dropped) {
+      count += dropped * Math.floor((rest - dropped) / framesPerMinute);
+    }
+  }
+
+  const ff = count % base;
+  const totalSeconds = Math.floor(count / base);
+  const ss = totalSeconds % 60;
+  const mm = Math.floor(totalSeconds / 60) % 60;
+  const hh = Math.floor(totalSeconds / 3600) % 24;
+
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${pad(hh)}:${pad(mm)}:${pad(ss)}${dropFrame ? ';' : ':'}${pad(ff)}`;
+}
+
+/**
+ * Quote a CSV field if it contains the delimiter, quotes or line breaks
+ */
+function escapeCsvField(field: string, delimiter: string): string {
+  if (field.includes(delimiter) || /["\r\n]/.test(field)) {
+    return `"${field.replace(/"/g, '""')}"`;
+  }
+  return field;
+}
@@ -0,0 +1,485 @@
+/**
+ * Importers - Parse keyframe files from other tools back into detection results
+ *
+ * Supported formats:
+ * - Aegisub keyframes (`# keyframe format v1`)
+ * - x264/x265 `--qpfile` (I/i/K frames are scene changes)
+ * - XviD 2-pass stats, as written by SCXviD and read by Aegisub
+ * - CSV and JSON as written by exportScenes()
+ */
+
+import {
+  DetectionResult,
+  DetectionStats,
+  ImportFormat,
+  ImportOptions,
+  SceneInfo
+} from '../types';
+import { formatTimecode } from '../utils/frame-processor';
+import { KeyframeParseError } from '../utils/errors';
+
+/**
+ * Parse a keyframe file
+ *
+ * @param content File contents
+ * @param format Input format (detected from the content if omitted)
+ * @param options Import options
+ * @returns Detection result with scenes sorted by frame number
+ *
+ * @example
+ * ```typescript
+ * const text = fs.readFileSync('episode.qp', 'utf8');
+ * const result = importScenes(text, 'qpfile', { fps: 24000 / 1001 });
+ * ```
+ */
+export function importScenes(
+  content: string,
+  format?: ImportFormat,
+  options: ImportOptions = {}
+): DetectionResult {
+  switch (format || detectImportFormat(content)) {
+    case 'aegisub':
+      return parseAegisubKeyframes(content, options);
+    case 'qpfile':
+      return parseQpfile(content, options);
+    case 'xvid':
+      return parseXvidStats(content, options);
+    case 'csv':
+      return parseScenesCSV(content, options);
+    case 'json':
+      return parseScenesJSON(content, options);
+    default:
+      throw new Error(`Unknown import format: ${format}`);
+  }
+}
+
+/**
+ * Guess the format of a keyframe file from its content
+ */
+export function detectImportFormat(content: string): ImportFormat {
+  const text = stripBom(content).trimStart();
+  const firstLine = text.split(/\r?\n/, 1)[0].trim();
+
+  if (/^#\s*keyframe format v1/i.test(firstLine)) {
+    return 'aegisub';
+  }
+  if (/^#\s*XviD 2pass stat file/i.test(firstLine)) {
+    return 'xvid';
+  }
+  if (text.startsWith('{')) {
+    return 'json';
+  }
+  if (/^\d+\s+[IiKPpBbO]\b/.test(firstLine)) {
+    return 'qpfile';
+  }
+  if (/^"?frame"?\W/i.test(firstLine)) {
+    return 'csv';
+  }
+
+  throw new Error('Unable to detect keyframe file format');
+}
+
+/**
+ * Parse an Aegisub keyframes file
+ *
+ * An `fps 0` line (written when the frame rate is unknown) falls back to
+ * options.fps.
+ */
+export function parseAegisubKeyframes(content: string, options: ImportOptions = {}): DetectionResult {
+  const format = 'Aegisub keyframes';
+  const lines = splitLines(content);
+  let fps: number | undefined;
+  const frames: number[] = [];
+
+  if (lines.length === 0 || !/^#\s*keyframe format v1\s*$/i.test(lines[0].trim())) {
+    throw new KeyframeParseError(format, "expected '# keyframe format v1' header", 1);
+  }
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const lineNumber = i + 1;
+
+    if (line === '' || line.startsWith('#')) {
+      continue;
+    }
+
+    const fpsMatch = /^fps\s+(\S+)$/i.exec(line);
+    if (fpsMatch) {
+      const value = Number(fpsMatch[1]);
+      if (!Number.isFinite(value) || value < 0) {
+        throw new KeyframeParseError(format, `invalid frame rate '${fpsMatch[1]}'`, lineNumber);
+      }
+      fps = value > 0 ? value : undefined;
+      continue;
+    }
+
+    frames.push(parseFrameNumber(line, format, lineNumber));
+  }
+
+  return buildResult(frames, resolveFps(fps, options, format), options);
+}
+
+/**
+ * Parse an x264/x265 qpfile
+ *
+ * Each line is `<frame> <type> [qp]`; I, i and K frames are scene changes,
+ * P, B, b and O (auto) frames are skipped.
+ */
+export function parseQpfile(content: string, options: ImportOptions = {}): DetectionResult {
+  const format = 'qpfile';
+  const frames: number[] = [];
+
+  splitLines(content).forEach((raw, i) => {
+    const line = raw.trim();
+    const lineNumber = i + 1;
+
+    if (line === '') {
+      return;
+    }
+
+    const fields = line.split(/\s+/);
+    if (fields.length < 2 || fields.length > 3) {
+      throw new KeyframeParseError(format, `expected '<frame> <type> [qp]', got '${line}'`, lineNumber);
+    }
+
+    const frame = parseFrameNumber(fields[0], format, lineNumber);
+    const type = fields[1];
+
+    if (!/^[IiKPpBbO]$/.test(type)) {
+      throw new KeyframeParseError(format, `unknown frame type '${type}'`, lineNumber);
+    }
+
+    if (fields.length === 3 && !/^-?\d+$/.test(fields[2])) {
+      throw new KeyframeParseError(format, `invalid QP '${fields[2]}'`, lineNumber);
+    }
+
+    if (type === 'I' || type === 'i' || type === 'K') {
+      frames.push(frame);
+    }
+  });
+
+  return buildResult(frames, resolveFps(undefined, options, format), options);
+}
+
+/**
+ * Parse an XviD 2-pass stats file
+ *
+ * Every line after the `#` header describes one frame, starting with its
+ * type: 'i' for intra (a scene change), 'p', 'b' or 's' otherwise.
+ */
+export function parseXvidStats(content: string, options: ImportOptions = {}): DetectionResult {
+  const format = 'XviD stats';
+  const frames: number[] = [];
+  let frameCount = 0;
+
+  splitLines(content).forEach((raw, i) => {
+    const line = raw.trim();
+
+    if (line === '' || line.startsWith('#')) {
+      return;
+    }
+
+    const type = line[0].toLowerCase();
+
+    if (type === 'i') {
+      frames.push(frameCount);
+    } else if (type !== 'p' && type !== 'b' && type !== 's') {
+      throw new KeyframeParseError(format, `unknown frame type '${line[0]}'`, i + 1);
+    }
+
+    frameCount++;
+  });
+
+  return buildResult(frames, resolveFps(undefined, options, format), {
+    totalFrames: frameCount,
+    ...options
+  });
+}
+
+/**
+ * Parse CSV written by exportCSV()
+ *
+ * The header row is optional; without one the columns are taken to be
+ * frame, timestamp, timecode and confidence. The frame rate is inferred from
+ * the timestamps when not given.
+ */
+export function parseScenesCSV(content: string, options: ImportOptions = {}): DetectionResult {
+  const format = 'CSV';
+  const delimiter = options.delimiter ?? ',';
+  const lines = splitLines(content);
+  let columns = { frame: 0, timestamp: 1, confidence: 3 };
+  const scenes: SceneInfo[] = [];
+
+  lines.forEach((raw, i) => {
+    const lineNumber = i + 1;
+
+    if (raw.trim() === '') {
+      return;
+    }
+
+    const fields = splitCsvLine(raw, delimiter, format, lineNumber);
+
+    // Header row
+    if (scenes.length === 0 && fields[0].trim().toLowerCase() === 'frame') {
+      const names = fields.map(field => field.trim().toLowerCase());
+      columns = {
+        frame: 0,
+        timestamp: names.indexOf('timestamp'),
+        confidence: names.indexOf('confidence')
+      };
+      return;
+    }
+
+    const frameNumber = parseFrameNumber(fields[columns.frame] ?? '', format, lineNumber);
+    const scene: SceneInfo = { frameNumber, timestamp: NaN };
+
+    const timestampField = columns.timestamp >= 0 ? fields[columns.timestamp] : undefined;
+    if (timestampField !== undefined && timestampField.trim() !== '') {
+      const timestamp = Number(timestampField);
+      if (!Number.isFinite(timestamp) || timestamp < 0) {
+        throw new KeyframeParseError(format, `invalid timestamp '${timestampField}'`, lineNumber);
+      }
+      scene.timestamp = timestamp;
+    }
+
+    const confidenceField = columns.confidence >= 0 ? fields[columns.confidence] : undefined;
+    if (confidenceField !== undefined && confidenceField.trim() !== '') {
+      const confidence = Number(confidenceField);
+      if (!Number.isFinite(confidence) || confidence < 0 || confidence > 1) {
+        throw new KeyframeParseError(format, `invalid confidence '${confidenceField}'`, lineNumber);
+      }
+      scene.confidence = confidence;
+    }
+
+    scenes.push(scene);
+  });
+
+  const fps = resolveFps(options.fps ?? inferFps(scenes), options, format);
+  return buildResultFromScenes(scenes, fps, options);
+}
+
+/**
+ * Parse JSON written by exportJSON()
+ */
+export function parseScenesJSON(content: string, options: ImportOptions = {}): DetectionResult {
+  const format = 'JSON';
+  let data: unknown;
+
+  try {
+    data = JSON.parse(stripBom(content));
+  } catch (error) {
+    throw new KeyframeParseError(format, `invalid JSON (${(error as Error).message})`);
+  }
+
+  if (!isRecord(data) || !Array.isArray(data.scenes)) {
+    throw new KeyframeParseError(format, "missing 'scenes' array");
+  }
+
+  const scenes: SceneInfo[] = data.scenes.map((scene: unknown, i: number) => {
+    if (!isRecord(scene) || !isNumber(scene.frameNumber) || !Number.isInteger(scene.frameNumber) || scene.frameNumber < 0) {
+      throw new KeyframeParseError(format, `scenes[${i}] has an invalid frameNumber`);
+    }
+
+    const { frameNumber, timestamp, confidence } = scene;
+    if (timestamp !== undefined && (!isNumber(timestamp) || timestamp < 0)) {
+      throw new KeyframeParseError(format, `scenes[${i}] has an invalid timestamp`);
+    }
+    if (confidence !== undefined && (!isNumber(confidence) || confidence < 0 || confidence > 1)) {
+      throw new KeyframeParseError(format, `scenes[${i}] has an invalid confidence`);
+    }
+
+    return { ...scene, frameNumber, timestamp: timestamp ?? NaN };
+  });
+
+  const metadata = isRecord(data.metadata) ? data.metadata : {};
+  const fileFps = isNumber(metadata.fps) && metadata.fps > 0 ? metadata.fps : inferFps(scenes);
+  const fps = resolveFps(options.fps ?? fileFps, options, format);
+
+  const result = buildResultFromScenes(scenes, fps, {
+    totalFrames: isNumber(metadata.totalFrames) && Number.isInteger(metadata.totalFrames) ? metadata.totalFrames : undefined,
+    resolution: isResolution(metadata.resolution) ? metadata.resolution : undefined,
+    ...options
+  });
+
+  if (isStats(data.stats)) {
+    result.stats = data.stats;
+  }
+
+  return result;
+}
+
+/**
+ * Narrow a parsed JSON value to an object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Narrow a parsed JSON value to a finite number
+ */
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Narrow a parsed JSON value to a resolution
+ */
+function isResolution(value: unknown): value is { width: number; height: number } {
+  return isRecord(value) && isNumber(value.width) && isNumber(value.height);
+}
+
+/**
+ * Narrow a parsed JSON value to processing statistics
+ */
+function isStats(value: unknown): value is DetectionStats {
+  return isRecord(value) && isNumber(value.processingTime) && isNumber(value.framesPerSecond);
+}
+
+/**
+ * Build a result from bare frame numbers
+ */
+function buildResult(frames: number[], fps: number, options: ImportOptions): DetectionResult {
+  return buildResultFromScenes(
+    frames.map(frameNumber => ({ frameNumber, timestamp: NaN })),
+    fps,
+    options
+  );
+}
+
+/**
+ * Sort and de-duplicate scenes, fill in missing timestamps and timecodes,
+ * and derive metadata
+ */
+function buildResultFromScenes(scenes: SceneInfo[], fps: number, options: ImportOptions): DetectionResult {
+  const byFrame = new Map<number, SceneInfo>();
+  for (const scene of scenes) {
+    if (!byFrame.has(scene.frameNumber)) {
+      byFrame.set(scene.frameNumber, scene);
+    }
+  }
+
+  const sorted = Array.from(byFrame.values())
+    .sort((a, b) => a.frameNumber - b.frameNumber)
+    .map(scene => {
+      const timestamp = Number.isNaN(scene.timestamp) ? scene.frameNumber / fps : scene.timestamp;
+      return {
+        ...scene,
+        timestamp,
+        timecode: scene.timecode || formatTimecode(timestamp)
+      };
+    });
+
+  const lastFrame = sorted.length > 0 ? sorted[sorted.length - 1].frameNumber : -1;
+  const totalFrames = options.totalFrames ?? lastFrame + 1;
+
+  return {
+    scenes: sorted,
+    metadata: {
+      totalFrames,
+      duration: totalFrames / fps,
+      fps,
+      resolution: options.resolution || { width: 0, height: 0 }
+    }
+  };
+}
+
+/**
+ * Pick the frame rate from the file or the options
+ */
+function resolveFps(fromFile: number | undefined, options: ImportOptions, format: string): number {
+  const fps = options.fps ?? fromFile;
+
+  if (fps === undefined) {
+    throw new KeyframeParseError(format, 'frame rate unknown; pass options.fps');
+  }
+  if (!Number.isFinite(fps) || fps <= 0) {
+    throw new KeyframeParseError(format, `invalid frame rate ${fps}`);
+  }
+
+  return fps;
+}
+
+/**
+ * Estimate the frame rate from scenes that have both a frame number and a
+ * timestamp (median of frame / timestamp)
+ */
+function inferFps(scenes: SceneInfo[]): number | undefined {
+  const ratios = scenes
+    .filter(scene => scene.frameNumber > 0 && scene.timestamp > 0)
+    .map(scene => scene.frameNumber / scene.timestamp)
+    .sort((a, b) => a - b);
+
+  if (ratios.length === 0) {
+    return undefined;
+  }
+
+  return ratios[Math.floor(ratios.length / 2)];
+}
+
+/**
+ * Parse a non-negative integer frame number
+ */
+function parseFrameNumber(text: string, format: string, line: number): number {
+  const trimmed = text.trim();
+
+  if (!/^\d+$/.test(trimmed)) {
+    throw new KeyframeParseError(format, `invalid frame number '${trimmed}'`, line);
+  }
+
+  return parseInt(trimmed, 10);
+}
+
+/**
+ * Split a CSV line, honouring double-quoted fields
+ */
+function splitCsvLine(line: string, delimiter: string, format: string, lineNumber: number): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (line.startsWith(delimiter, i)) {
+      fields.push(field);
+      field = '';
+      i += delimiter.length - 1;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new KeyframeParseError(format, 'unterminated quoted field', lineNumber);
+  }
+
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * Split text into lines, dropping a byte order mark and a trailing newline
+ */
+function splitLines(content: string): string[] {
+  const lines = stripBom(content).split(/\r?\n/);
+  if (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+function stripBom(content: string): string {
+  return content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+}
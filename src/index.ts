@@ -7,15 +7,41 @@
 
 export { SceneDetector } from './detection/detector';
 export { FFmpegDecoder } from './decoder/ffmpeg-decoder';
+export { PushFrameSource, ReadableFrameSource } from './decoder/frame-source';
+export { Y4mDecoder, parseY4mHeader } from './decoder/y4m-decoder';
 export { WasmBridge } from './detection/wasm-bridge';
+export {
+  createComparator,
+  WwxdComparator,
+  HistogramComparator,
+  ScdetComparator,
+  AdaptiveComparator,
+  lumaHistogram,
+  meanAbsoluteDifference
+} from './detection/frame-comparators';
 export { FrameBuffer } from './decoder/frame-buffer';
 export { BufferPool } from './utils/buffer-pool';
+export { TemporalSmoother, applyTemporalSmoothing } from './utils/temporal-smoothing';
+export {
+  enforceMinSceneLength,
+  enforceMaxSceneLength,
+  snapToKeyframes,
+  offsetScenes,
+  convertFrameRate
+} from './utils/scene-list';
+export { ChromaComparator, chromaHistogram, histogramDifference } from './utils/chroma-histogram';
+export { generateThumbnails } from './thumbnails/thumbnails';
+export { createHtmlReport } from './report/html-report';
+export { splitByScenes } from './split/scene-splitter';
 
 // Export types
 export type {
   DetectionOptions,
   DetectionResult,
   SceneInfo,
+  MotionMetrics,
+  MotionAnalysis,
+  FrameAnalysis,
   VideoMetadata,
   DetectionStats,
   Progress,
@@ -23,30 +49,100 @@ export type {
   SensitivityLevel,
   SearchRange,
   CustomThresholds,
+  DetectionAlgorithm,
+  FrameComparator,
+  ComparatorOptions,
   TemporalSmoothing,
+  ChromaDetection,
   ProgressiveProcessing,
-  FrameExtractionOptions
+  FrameExtractionOptions,
+  ExportFormat,
+  ExportOptions,
+  JsonExportOptions,
+  CsvExportOptions,
+  EdlExportOptions,
+  QpfileExportOptions,
+  FfmpegKeyframeExportOptions,
+  ChapterExportOptions,
+  ImportFormat,
+  ImportOptions,
+  FrameSource,
+  PushFrameSourceOptions,
+  ReadableFrameSourceOptions,
+  Rational,
+  Y4mHeader,
+  Y4mDecoderOptions,
+  ThumbnailFormat,
+  ThumbnailOptions,
+  ContactSheetOptions,
+  ThumbnailInfo,
+  ContactSheetInfo,
+  ThumbnailManifest,
+  HtmlReportOptions,
+  SplitMode,
+  SplitOptions,
+  SplitClip,
+  SplitManifest,
+  FrameRateConversionOptions,
+  WasmBridgeOptions
 } from './types';
 
+// Export formats
+export {
+  exportScenes,
+  exportJSON,
+  exportCSV,
+  exportEDL,
+  exportAegisub,
+  exportTimecodes,
+  exportTimecodesV2,
+  formatSmpteTimecode
+} from './export/exporters';
+export {
+  exportQpfile,
+  exportFfmpegKeyframes,
+  exportAv1anScenes,
+  exportMatroskaChapters,
+  exportOgmChapters
+} from './export/encoder-formats';
+
+// Import formats
+export {
+  importScenes,
+  detectImportFormat,
+  parseAegisubKeyframes,
+  parseQpfile,
+  parseXvidStats,
+  parseScenesCSV,
+  parseScenesJSON
+} from './import/importers';
+
+// Errors
+export { KeyframeParseError, AbortError, DecodeTimeoutError } from './utils/errors';
+
 // Export utilities
 export {
   formatTimecode,
   calculateFcode,
   calculateThresholds,
+  validateThresholds,
+  calculateConfidence,
+  calculateAnalysisSize,
   validateFrame,
   validateFrameDimensions,
   calculateMBParam,
   calculateFrameMemory,
   estimateProcessingTime
 } from './utils/frame-processor';
+export { downscaleFrame } from './utils/downscale';
 
 import { SceneDetector } from './detection/detector';
-import { DetectionOptions, DetectionResult } from './types';
+import { DetectionOptions, DetectionResult, FrameSource } from './types';
 
 /**
  * Detect scene changes in a video file (simple API)
  *
- * @param videoPath Path to video file
+ * @param videoPath Path to video file, or a FrameSource such as PushFrameSource or ReadableFrameSource
  * @param options Detection options
  * @returns Detection results with scene changes and metadata
  *
@@ -63,7 +159,7 @@ import { DetectionOptions, DetectionResult } from './types';
  * ```
  */
 export async function detectSceneChanges(
-  videoPath: string,
+  videoPath: string | FrameSource,
   options?: DetectionOptions
 ): Promise<DetectionResult> {
   const detector = new SceneDetector(options);
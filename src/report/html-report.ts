@@ -0,0 +1,405 @@
+/**
+ * HTML Report - Self-contained page for reviewing a detection result
+ *
+ * Shows a timeline of the scenes, graphs of the per-frame scores against
+ * the thresholds in force, and a thumbnail of each scene. Graphs
+ * are inline SVG and thumbnails are data URIs, so the file can be mailed or
+ * archived on its own.
+ */
+
+import { FFmpegDecoder } from '../decoder/ffmpeg-decoder';
+import { DetectionResult, FrameAnalysis, HtmlReportOptions, MotionMetrics, SceneInfo } from '../types';
+import { throwIfAborted } from '../utils/errors';
+import { formatTimecode } from '../utils/frame-processor';
+import { encodeImage, scaleFrame } from '../thumbnails/image';
+
+/** Default thumbnail width in pixels */
+const DEFAULT_THUMBNAIL_WIDTH = 160;
+
+/** Frames fetched per extractFrames() call */
+const BATCH_SIZE = 32;
+
+/** Graph geometry in SVG units */
+const PLOT_LEFT = 56;
+const PLOT_WIDTH = 1000;
+const PLOT_HEIGHT = 160;
+const PLOT_TOP = 10;
+const PLOT_BOTTOM = 24;
+
+/** Most points drawn per series; longer videos keep the frame furthest above its threshold in each bucket */
+const MAX_POINTS = 1000;
+
+/**
+ * A score plotted against the threshold it is compared with
+ */
+interface ScoreSeries {
+  title: string;
+  value: (metrics: MotionMetrics) => number | undefined;
+  threshold: (metrics: MotionMetrics) => number | undefined;
+  /** Top of the y axis, given the largest threshold */
+  yMax: (maxThreshold: number) => number;
+  /** Heading of the scene table column showing the score, if it has one */
+  column?: string;
+}
+
+const SERIES: ScoreSeries[] = [
+  {
+    title: 'sSAD (motion-compensated difference) vs. intraThresh2',
+    value: m => m.sSAD,
+    threshold: m => m.intraThresh2,
+    yMax: maxThreshold => maxThreshold * 2.5,
+    column: 'sSAD / threshold'
+  },
+  {
+    title: 'Intra macroblocks vs. limit',
+    value: m => m.intraBlocks,
+    threshold: m => m.intraBlockLimit,
+    yMax: maxThreshold => maxThreshold * 1.25,
+    column: 'Intra blocks / limit'
+  },
+  {
+    title: 'Difference score vs. threshold',
+    value: m => m.score,
+    threshold: m => m.threshold,
+    yMax: maxThreshold => maxThreshold * 2.5,
+    column: 'Score / threshold'
+  },
+  {
+    title: 'Chroma histogram difference vs. threshold',
+    value: m => m.chromaDifference,
+    threshold: m => m.chromaThreshold,
+    yMax: () => 1
+  }
+];
+
+/**
+ * Frame range shown on the x axis
+ */
+interface Domain {
+  start: number;
+  end: number;
+}
+
+/**
+ * Build a self-contained HTML report for a detection result
+ *
+ * @param result Detection result
+ * @param options Per-frame metrics, video path for thumbnails, title
+ * @returns The HTML document
+ *
+ * @example
+ * ```typescript
+ * const frames: FrameAnalysis[] = [];
+ * const result = await detectSceneChanges('input.mp4', { onAnalysis: frame => frames.push(frame) });
+ * fs.writeFileSync('report.html', await createHtmlReport(result, { frames, video: 'input.mp4' }));
+ * ```
+ */
+export async function createHtmlReport(result: DetectionResult, options: HtmlReportOptions = {}): Promise<string> {
+  const thumbnailWidth = options.thumbnailWidth || DEFAULT_THUMBNAIL_WIDTH;
+
+  if (!Number.isInteger(thumbnailWidth) || thumbnailWidth < 16) {
+    throw new Error(`Invalid thumbnail width: ${thumbnailWidth} (must be an integer of at least 16)`);
+  }
+
+  const title = options.title || 'Scene detection report';
+  const frames = (options.frames || []).slice().sort((a, b) => a.frameNumber - b.frameNumber);
+  const { scenes, metadata } = result;
+
+  const lastFrame = frames.length > 0
+    ? frames[frames.length - 1].frameNumber
+    : Math.max(metadata.totalFrames - 1, scenes.length > 0 ? scenes[scenes.length - 1].frameNumber : 0);
+  const domain: Domain = { start: scenes.length > 0 ? scenes[0].frameNumber : 0, end: lastFrame };
+
+  const thumbnails = options.video
+    ? await createThumbnails(options.video, scenes, thumbnailWidth, options.signal)
+    : [];
+
+  const graphs = SERIES
+    .filter(series => frames.some(frame => series.value(frame.metrics) !== undefined))
+    .map(series => renderGraph(series, frames, scenes, domain));
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font: 14px/1.4 system-ui, sans-serif; margin: 24px; color: #222; }
+h1 { font-size: 22px; }
+h2 { font-size: 17px; margin-top: 32px; }
+table { border-collapse: collapse; }
+td, th { padding: 4px 10px; text-align: left; border-bottom: 1px solid #ddd; vertical-align: middle; }
+th { background: #f4f4f4; }
+.summary th { background: none; font-weight: normal; color: #666; }
+.num { text-align: right; font-variant-numeric: tabular-nums; }
+svg { width: 100%; max-width: 1080px; display: block; }
+svg text { font: 11px system-ui, sans-serif; fill: #666; }
+.graph h3 { font-size: 14px; margin: 16px 0 4px; }
+.legend span { margin-right: 16px; }
+.swatch { display: inline-block; width: 12px; height: 3px; vertical-align: middle; margin-right: 4px; }
+img { display: block; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${renderSummary(result, options, domain)}
+<h2>Timeline</h2>
+${renderTimeline(scenes, domain)}
+${graphs.length > 0 ? `<h2>Per-frame scores</h2>
+<p class="legend"><span><i class="swatch" style="background:#2b6cb0"></i>score</span><span><i class="swatch" style="background:#e53e3e"></i>threshold in force</span><span><i class="swatch" style="background:#38a169"></i>scene change</span></p>
+<p>Values above the top of a graph are drawn at the top. On long videos each point stands for several frames and shows the one that came closest to a cut.</p>
+${graphs.join('\n')}` : ''}
+<h2>Scenes</h2>
+${renderSceneTable(scenes, domain, metadata.fps, thumbnails)}
+</body>
+</html>
+`;
+}
+
+/**
+ * Encode a thumbnail of each scene's first frame as a data URI
+ */
+async function createThumbnails(
+  videoPath: string,
+  scenes: SceneInfo[],
+  width: number,
+  signal?: AbortSignal
+): Promise<string[]> {
+  const decoder = new FFmpegDecoder(videoPath, { pixelFormat: 'yuv420p', signal });
+
+  try {
+    const metadata = await decoder.getMetadata();
+    const { width: videoWidth, height: videoHeight } = metadata.resolution;
+    const thumbnailWidth = Math.round(width / 2) * 2;
+    const thumbnailHeight = Math.max(2, Math.round((thumbnailWidth * videoHeight) / videoWidth / 2) * 2);
+    const thumbnails: string[] = [];
+
+    for (let start = 0; start < scenes.length; start += BATCH_SIZE) {
+      const batch = scenes.slice(start, start + BATCH_SIZE);
+      const frames = await decoder.extractFrames(batch.map(scene => scene.frameNumber));
+
+      for (const frame of frames) {
+        throwIfAborted(signal);
+
+        const jpeg = await encodeImage(scaleFrame(frame, thumbnailWidth, thumbnailHeight), 'jpeg', signal);
+        thumbnails.push(`data:image/jpeg;base64,${jpeg.toString('base64')}`);
+      }
+    }
+
+    return thumbnails;
+  } finally {
+    decoder.destroy();
+  }
+}
+
+/**
+ * Video and detection facts at the top of the report
+ */
+function renderSummary(result: DetectionResult, options: HtmlReportOptions, domain: Domain): string {
+  const { scenes, metadata, stats } = result;
+  const frameCount = domain.end - domain.start + 1;
+  const rows: [string, string][] = [
+    ['Resolution', `${metadata.resolution.width}x${metadata.resolution.height}`],
+    ['Frame rate', `${formatNumber(metadata.fps, 3)} fps${metadata.vfr ? ' (variable)' : ''}`],
+    ['Duration', `${formatTimecode(metadata.duration)} (${metadata.totalFrames} frames)`],
+    ['Frames analysed', `${domain.start}-${domain.end}`],
+    ['Scenes', String(scenes.length)],
+    ['Average scene length', scenes.length > 0
+      ? `${formatNumber(frameCount / scenes.length, 1)} frames (${formatNumber(frameCount / scenes.length / metadata.fps, 2)} s)`
+      : '-']
+  ];
+
+  if (options.sensitivity) {
+    rows.push(['Sensitivity', options.sensitivity]);
+  }
+
+  if (stats && stats.processingTime > 0) {
+    rows.push(['Processing time', `${formatNumber(stats.processingTime, 1)} s (${formatNumber(stats.framesPerSecond, 1)} fps)`]);
+  }
+
+  return `<table class="summary">
+${rows.map(([name, value]) => `<tr><th>${name}</th><td>${escapeHtml(value)}</td></tr>`).join('\n')}
+</table>`;
+}
+
+/**
+ * Scenes as alternating bars along the frame axis
+ */
+function renderTimeline(scenes: SceneInfo[], domain: Domain): string {
+  const height = 36;
+  const bars = scenes.map((scene, i) => {
+    const end = i + 1 < scenes.length ? scenes[i + 1].frameNumber : domain.end + 1;
+    const x = xPosition(scene.frameNumber, domain);
+    const width = Math.max(0.5, xPosition(end, domain) - x);
+    const label = `Scene ${i + 1}: frames ${scene.frameNumber}-${end - 1} from ${scene.timecode || formatTimecode(scene.timestamp)}`;
+
+    return `<rect x="${formatNumber(x, 2)}" y="0" width="${formatNumber(width, 2)}" height="${height}" fill="${i % 2 === 0 ? '#4a90d9' : '#9cc3ec'}"><title>${escapeHtml(label)}</title></rect>`;
+  });
+
+  return `<svg viewBox="0 0 ${PLOT_LEFT + PLOT_WIDTH + 8} ${height + PLOT_BOTTOM}">
+${bars.join('\n')}
+${renderFrameAxis(domain, height)}
+</svg>`;
+}
+
+/**
+ * One score series against its threshold, with scene changes marked
+ */
+function renderGraph(series: ScoreSeries, frames: FrameAnalysis[], scenes: SceneInfo[], domain: Domain): string {
+  const points = pickPoints(series, frames);
+  const maxThreshold = Math.max(...points.map(point => point.threshold));
+  const yMax = series.yMax(maxThreshold) || Math.max(1, ...points.map(point => point.value));
+  const bottom = PLOT_TOP + PLOT_HEIGHT;
+
+  const y = (value: number) => PLOT_TOP + PLOT_HEIGHT * (1 - Math.min(value, yMax) / yMax);
+  const line = (values: number[]) => points
+    .map((point, i) => `${formatNumber(xPosition(point.frameNumber, domain), 2)},${formatNumber(y(values[i]), 2)}`)
+    .join(' ');
+
+  const grid = [0, 0.25, 0.5, 0.75, 1].map(fraction => {
+    const value = yMax * fraction;
+    return `<line x1="${PLOT_LEFT}" x2="${PLOT_LEFT + PLOT_WIDTH}" y1="${formatNumber(y(value), 2)}" y2="${formatNumber(y(value), 2)}" stroke="#eee"/>` +
+      `<text x="${PLOT_LEFT - 6}" y="${formatNumber(y(value) + 4, 2)}" text-anchor="end">${formatNumber(value, yMax < 10 ? 2 : 0)}</text>`;
+  });
+
+  const cuts = scenes.slice(1).map(scene => {
+    const x = formatNumber(xPosition(scene.frameNumber, domain), 2);
+    return `<line x1="${x}" x2="${x}" y1="${PLOT_TOP}" y2="${bottom}" stroke="#38a169" stroke-opacity="0.5"/>`;
+  });
+
+  return `<div class="graph">
+<h3>${escapeHtml(series.title)}</h3>
+<svg viewBox="0 0 ${PLOT_LEFT + PLOT_WIDTH + 8} ${bottom + PLOT_BOTTOM}">
+${grid.join('\n')}
+${cuts.join('\n')}
+<polyline points="${line(points.map(point => point.value))}" fill="none" stroke="#2b6cb0" stroke-width="1"/>
+<polyline points="${line(points.map(point => point.threshold))}" fill="none" stroke="#e53e3e" stroke-width="1.5"/>
+${renderFrameAxis(domain, bottom)}
+</svg>
+</div>`;
+}
+
+/**
+ * Reduce a series to at most MAX_POINTS, keeping the frame furthest above its threshold in each bucket
+ */
+function pickPoints(
+  series: ScoreSeries,
+  frames: FrameAnalysis[]
+): { frameNumber: number; value: number; threshold: number }[] {
+  const all = frames
+    .map(frame => ({
+      frameNumber: frame.frameNumber,
+      value: series.value(frame.metrics),
+      threshold: series.threshold(frame.metrics)
+    }))
+    .filter((point): point is { frameNumber: number; value: number; threshold: number } =>
+      point.value !== undefined && point.threshold !== undefined);
+
+  if (all.length <= MAX_POINTS) {
+    return all;
+  }
+
+  const picked = [];
+  const bucketSize = Math.ceil(all.length / MAX_POINTS);
+
+  for (let start = 0; start < all.length; start += bucketSize) {
+    let best = all[start];
+
+    for (let i = start + 1; i < Math.min(start + bucketSize, all.length); i++) {
+      const point = all[i];
+      if (point.value - point.threshold > best.value - best.threshold) {
+        best = point;
+      }
+    }
+
+    picked.push(best);
+  }
+
+  return picked;
+}
+
+/**
+ * Frame number ticks under a graph
+ */
+function renderFrameAxis(domain: Domain, top: number): string {
+  const ticks: string[] = [];
+
+  for (let i = 0; i <= 5; i++) {
+    const frame = Math.round(domain.start + ((domain.end - domain.start) * i) / 5);
+    const anchor = i === 0 ? 'start' : i === 5 ? 'end' : 'middle';
+    ticks.push(`<text x="${formatNumber(xPosition(frame, domain), 2)}" y="${top + 16}" text-anchor="${anchor}">${frame}</text>`);
+  }
+
+  return ticks.join('\n');
+}
+
+/**
+ * One row per scene with its thumbnail, timing and the scores behind it
+ */
+function renderSceneTable(scenes: SceneInfo[], domain: Domain, fps: number, thumbnails: string[]): string {
+  // Only the scores the algorithm produced
+  const columns = SERIES.filter(series =>
+    series.column && scenes.some(scene => scene.metrics && series.value(scene.metrics) !== undefined)
+  );
+
+  const rows = scenes.map((scene, i) => {
+    const end = i + 1 < scenes.length ? scenes[i + 1].frameNumber : domain.end + 1;
+    const length = end - scene.frameNumber;
+    const metrics = scene.metrics;
+    const image = thumbnails[i] ? `<img src="${thumbnails[i]}" alt="Frame ${scene.frameNumber}">` : '';
+
+    return `<tr>
+<td class="num">${i + 1}</td>${thumbnails.length > 0 ? `\n<td>${image}</td>` : ''}
+<td class="num">${scene.frameNumber}</td>
+<td>${escapeHtml(scene.timecode || formatTimecode(scene.timestamp))}</td>
+<td class="num">${length} (${formatNumber(length / fps, 2)} s)</td>
+<td class="num">${scene.confidence !== undefined ? formatNumber(scene.confidence, 2) : '-'}</td>
+${columns.map(series => `<td class="num">${formatScore(series, metrics)}</td>`).join('\n')}
+</tr>`;
+  });
+
+  return `<table>
+<tr><th>#</th>${thumbnails.length > 0 ? '<th>First frame</th>' : ''}<th>Frame</th><th>Timecode</th><th>Length (frames)</th><th>Confidence</th>${columns.map(series => `<th>${series.column}</th>`).join('')}</tr>
+${rows.join('\n')}
+</table>`;
+}
+
+/**
+ * A scene's score and threshold as "value / threshold", or '-' when it has none
+ */
+function formatScore(series: ScoreSeries, metrics: MotionMetrics | undefined): string {
+  const value = metrics ? series.value(metrics) : undefined;
+  const threshold = metrics ? series.threshold(metrics) : undefined;
+
+  if (value === undefined || threshold === undefined) {
+    return '-';
+  }
+
+  return `${formatNumber(value, 2)} / ${formatNumber(threshold, 2)}`;
+}
+
+/**
+ * x coordinate of a frame
+ */
+function xPosition(frame: number, domain: Domain): number {
+  const span = Math.max(1, domain.end + 1 - domain.start);
+  return PLOT_LEFT + ((frame - domain.start) / span) * PLOT_WIDTH;
+}
+
+/**
+ * Round for display without trailing zeros
+ */
+function formatNumber(value: number, decimals: number): string {
+  return String(Number(value.toFixed(decimals)));
+}
+
+/**
+ * Escape text for HTML content and attributes
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
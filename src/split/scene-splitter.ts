@@ -0,0 +1,294 @@
+/**
+ * Scene Splitter - Cut a video into one file per scene with ffmpeg
+ *
+ * Clip boundaries come from the scene list, optionally merged (scenes that
+ * are too short) or subdivided (scenes that are too long). Clip timing uses
+ * the video's own frame timestamps, so variable frame rate sources are cut
+ * where the scene list says. A manifest.json maps each file to its frames.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ffmpeg from 'fluent-ffmpeg';
+import { FFmpegDecoder } from '../decoder/ffmpeg-decoder';
+import { DetectionResult, SplitClip, SplitManifest, SplitMode, SplitOptions, VideoMetadata } from '../types';
+import { AbortError, throwIfAborted } from '../utils/errors';
+import { findFrameAtTime, formatTimecode, getFrameTimestamp } from '../utils/frame-processor';
+
+/** Default file name template */
+const DEFAULT_FILE_NAME = '{name}-{n}.{ext}';
+
+/** Default output options for 'encode' mode */
+const DEFAULT_ENCODE_OPTIONS = ['-c:v', 'libx264', '-crf', '18', '-preset', 'fast', '-c:a', 'aac'];
+
+/**
+ * Frames of one clip, before it has a file name
+ */
+interface ClipRange {
+  scene: number;
+  startFrame: number;
+  endFrame: number;
+}
+
+/**
+ * Write one file per scene
+ *
+ * 'copy' mode is fast and lossless, but a stream copy can only start on a
+ * keyframe, so a clip may begin a little before its first frame. 'encode'
+ * mode is frame-exact. The last scene runs to the end of the video.
+ *
+ * @param videoPath Video the scenes were detected in
+ * @param result Detection result (or imported scene list)
+ * @param options Output directory, mode, file names and duration limits
+ * @returns The manifest, also written to manifest.json in the output directory
+ *
+ * @example
+ * ```typescript
+ * const result = await detectSceneChanges('input.mp4');
+ * const manifest = await splitByScenes('input.mp4', result, {
+ *   outputDir: 'clips',
+ *   mode: 'encode',
+ *   minDuration: 1
+ * });
+ * ```
+ */
+export async function splitByScenes(
+  videoPath: string,
+  result: DetectionResult,
+  options: SplitOptions
+): Promise<SplitManifest> {
+  const mode = options.mode || 'copy';
+  const template = options.fileName || DEFAULT_FILE_NAME;
+  const minDuration = options.minDuration || 0;
+  const maxDuration = options.maxDuration || Infinity;
+
+  if (!options.outputDir) {
+    throw new Error('Split options need an outputDir');
+  }
+  if (mode !== 'copy' && mode !== 'encode') {
+    throw new Error(`Invalid split mode: ${mode} (must be 'copy' or 'encode')`);
+  }
+  if (!(minDuration >= 0) || !Number.isFinite(minDuration)) {
+    throw new Error(`Invalid minDuration: ${options.minDuration} (must be a non-negative number of seconds)`);
+  }
+  if (!(maxDuration > 0)) {
+    throw new Error(`Invalid maxDuration: ${options.maxDuration} (must be a positive number of seconds)`);
+  }
+  if (minDuration > maxDuration) {
+    throw new Error(`minDuration (${minDuration}) is longer than maxDuration (${maxDuration})`);
+  }
+
+  // The video's own timestamps, even for imported scene lists
+  const decoder = new FFmpegDecoder(videoPath, { signal: options.signal });
+  const metadata = await decoder.getMetadata();
+  decoder.destroy();
+
+  const ranges = planClips(result, metadata, minDuration, maxDuration);
+  const clips = nameClips(ranges, metadata, videoPath, template);
+
+  await fs.promises.mkdir(options.outputDir, { recursive: true });
+
+  for (let i = 0; i < clips.length; i++) {
+    const clip = clips[i];
+    const outputPath = path.join(options.outputDir, clip.file);
+
+    await fs.promises.mkdir(path.dirname(outputPath), { recursive: true });
+    await writeClip(videoPath, outputPath, clip, metadata, mode, options);
+
+    if (options.onProgress) {
+      options.onProgress(i + 1, clips.length);
+    }
+  }
+
+  const manifest: SplitManifest = { video: videoPath, mode, clips };
+  await fs.promises.writeFile(path.join(options.outputDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+
+  return manifest;
+}
+
+/**
+ * Turn the scene list into clip frame ranges, merging and subdividing by duration
+ */
+function planClips(
+  result: DetectionResult,
+  metadata: VideoMetadata,
+  minDuration: number,
+  maxDuration: number
+): ClipRange[] {
+  const lastFrame = metadata.totalFrames - 1;
+
+  if (lastFrame < 0) {
+    throw new Error('Cannot split a video of unknown length');
+  }
+
+  const starts = result.scenes
+    .map((scene, index) => ({ scene: index, frame: scene.frameNumber }))
+    .filter(start => start.frame <= lastFrame)
+    .sort((a, b) => a.frame - b.frame)
+    .filter((start, i, all) => i === 0 || start.frame !== all[i - 1].frame);
+
+  if (starts.length === 0) {
+    throw new Error('No scenes to split (all scene changes are past the end of the video)');
+  }
+
+  const duration = (range: ClipRange) => clipEnd(metadata, range.endFrame) - getFrameTimestamp(metadata, range.startFrame);
+
+  // Grow short clips into the next scene; a short clip at the end joins the one before it
+  const merged: ClipRange[] = [];
+  starts.forEach((start, i) => {
+    const endFrame = i + 1 < starts.length ? starts[i + 1].frame - 1 : lastFrame;
+    const previous = merged[merged.length - 1];
+
+    if (previous && duration(previous) < minDuration) {
+      previous.endFrame = endFrame;
+    } else {
+      merged.push({ scene: start.scene, startFrame: start.frame, endFrame });
+    }
+  });
+
+  if (merged.length > 1 && duration(merged[merged.length - 1]) < minDuration) {
+    merged[merged.length - 2].endFrame = merged.pop()!.endFrame;
+  }
+
+  // Cut long clips into equal parts, each starting on a frame
+  const clips: ClipRange[] = [];
+  for (const range of merged) {
+    const length = duration(range);
+    const parts = length > maxDuration ? Math.ceil(length / maxDuration) : 1;
+    const startTime = getFrameTimestamp(metadata, range.startFrame);
+    let startFrame = range.startFrame;
+
+    for (let part = 1; part < parts; part++) {
+      const boundary = Math.min(
+        range.endFrame,
+        Math.max(startFrame + 1, findFrameAtTime(metadata, startTime + (length * part) / parts))
+      );
+
+      if (boundary > startFrame && boundary <= range.endFrame) {
+        clips.push({ scene: range.scene, startFrame, endFrame: boundary - 1 });
+        startFrame = boundary;
+      }
+    }
+
+    clips.push({ scene: range.scene, startFrame, endFrame: range.endFrame });
+  }
+
+  return clips;
+}
+
+/**
+ * Apply the file name template to every clip
+ */
+function nameClips(ranges: ClipRange[], metadata: VideoMetadata, videoPath: string, template: string): SplitClip[] {
+  const extension = path.extname(videoPath);
+  const name = path.basename(videoPath, extension);
+  const digits = Math.max(3, String(ranges.length).length);
+  const files = new Set<string>();
+
+  return ranges.map((range, i) => {
+    const startTime = getFrameTimestamp(metadata, range.startFrame);
+    const values: Record<string, string> = {
+      n: String(i + 1).padStart(digits, '0'),
+      name,
+      ext: extension.slice(1),
+      start: String(range.startFrame),
+      end: String(range.endFrame),
+      timecode: formatTimecode(startTime).replace(/:/g, '-')
+    };
+
+    const file = template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] !== undefined ? values[key] : match);
+
+    if (files.has(file)) {
+      throw new Error(`File name template "${template}" gives two clips the name ${file} (use {n} or {start})`);
+    }
+    files.add(file);
+
+    return {
+      file,
+      scene: range.scene,
+      startFrame: range.startFrame,
+      endFrame: range.endFrame,
+      startTime,
+      endTime: clipEnd(metadata, range.endFrame)
+    };
+  });
+}
+
+/**
+ * Time at which a clip ending on a frame ends: the next frame's timestamp
+ */
+function clipEnd(metadata: VideoMetadata, endFrame: number): number {
+  return getFrameTimestamp(metadata, endFrame + 1);
+}
+
+/**
+ * Run ffmpeg for one clip
+ */
+function writeClip(
+  videoPath: string,
+  outputPath: string,
+  clip: SplitClip,
+  metadata: VideoMetadata,
+  mode: SplitMode,
+  options: SplitOptions
+): Promise<void> {
+  const signal = options.signal;
+  throwIfAborted(signal);
+
+  const isLast = clip.endFrame >= metadata.totalFrames - 1;
+  const command = ffmpeg.default(videoPath);
+
+  if (mode === 'copy') {
+    // A stream copy starts on the keyframe at or before the seek point
+    if (clip.startFrame > 0) {
+      command.seekInput(clip.startTime);
+    }
+    if (!isLast) {
+      command.duration(clip.endTime - clip.startTime);
+    }
+    command.outputOptions(['-c', 'copy', '-avoid_negative_ts', 'make_zero']);
+  } else {
+    // Same accurate seek as FFmpegDecoder.extractFrameRange(), then exactly the clip's frames
+    let seekTime = 0;
+    if (clip.startFrame > 0) {
+      seekTime = (getFrameTimestamp(metadata, clip.startFrame - 1) + clip.startTime) / 2;
+      command.seekInput(seekTime);
+    }
+    if (!isLast) {
+      command.duration(clip.endTime - seekTime);
+    }
+    command.outputOptions([
+      '-frames:v', String(clip.endFrame - clip.startFrame + 1),
+      '-vsync', '0',
+      ...(options.encodeOptions || DEFAULT_ENCODE_OPTIONS)
+    ]);
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => command.kill('SIGKILL');
+    if (signal) {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+
+    const cleanup = () => {
+      if (signal) {
+        signal.removeEventListener('abort', onAbort);
+      }
+    };
+
+    command
+      .on('error', (err: Error) => {
+        cleanup();
+        if (signal && signal.aborted) {
+          reject(new AbortError(signal.reason));
+        } else {
+          reject(new Error(`FFmpeg failed on ${clip.file}: ${err.message}`));
+        }
+      })
+      .on('end', () => {
+        cleanup();
+        resolve();
+      })
+      .save(outputPath);
+  });
+}
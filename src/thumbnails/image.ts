@@ -0,0 +1,263 @@
+/**
+ * Image - Minimal yuv420p canvas for thumbnails and contact sheets
+ *
+ * Frames are scaled and composed in planar YUV, then handed to ffmpeg to
+ * encode as JPEG or PNG. Labels use a built-in 5x7 bitmap font, so no font
+ * files or ffmpeg text filters are needed.
+ */
+
+import * as ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import { spawn } from 'child_process';
+import { RawFrame, ThumbnailFormat } from '../types';
+import { AbortError, throwIfAborted } from '../utils/errors';
+
+/** Limited-range black and white */
+const BLACK = 16;
+const WHITE = 235;
+
+/** Neutral chroma */
+const GRAY_CHROMA = 128;
+
+/** Glyph size in font pixels, including one column of spacing */
+const GLYPH_WIDTH = 6;
+const GLYPH_HEIGHT = 7;
+
+/** 5x7 glyphs for timecode labels, one 5-bit row per entry (MSB = left) */
+const FONT: Record<string, number[]> = {
+  '0': [0x0e, 0x11, 0x13, 0x15, 0x19, 0x11, 0x0e],
+  '1': [0x04, 0x0c, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  '2': [0x0e, 0x11, 0x01, 0x02, 0x04, 0x08, 0x1f],
+  '3': [0x1f, 0x02, 0x04, 0x02, 0x01, 0x11, 0x0e],
+  '4': [0x02, 0x06, 0x0a, 0x12, 0x1f, 0x02, 0x02],
+  '5': [0x1f, 0x10, 0x1e, 0x01, 0x01, 0x11, 0x0e],
+  '6': [0x06, 0x08, 0x10, 0x1e, 0x11, 0x11, 0x0e],
+  '7': [0x1f, 0x01, 0x02, 0x04, 0x08, 0x08, 0x08],
+  '8': [0x0e, 0x11, 0x11, 0x0e, 0x11, 0x11, 0x0e],
+  '9': [0x0e, 0x11, 0x11, 0x0f, 0x01, 0x02, 0x0c],
+  ':': [0x00, 0x0c, 0x0c, 0x00, 0x0c, 0x0c, 0x00],
+  '.': [0x00, 0x00, 0x00, 0x00, 0x00, 0x0c, 0x0c],
+  '#': [0x0a, 0x0a, 0x1f, 0x0a, 0x1f, 0x0a, 0x0a]
+};
+
+/**
+ * Planar yuv420p image with even dimensions
+ */
+export interface YuvImage {
+  width: number;
+  height: number;
+  y: Uint8Array;
+  u: Uint8Array;
+  v: Uint8Array;
+}
+
+/**
+ * Create a black image
+ */
+export function createImage(width: number, height: number): YuvImage {
+  if (width < 2 || height < 2 || width % 2 !== 0 || height % 2 !== 0) {
+    throw new Error(`Invalid image size: ${width}x${height} (must be even)`);
+  }
+
+  const chromaSize = (width / 2) * (height / 2);
+
+  return {
+    width,
+    height,
+    y: new Uint8Array(width * height).fill(BLACK),
+    u: new Uint8Array(chromaSize).fill(GRAY_CHROMA),
+    v: new Uint8Array(chromaSize).fill(GRAY_CHROMA)
+  };
+}
+
+/**
+ * Scale a frame to a new size, averaging the source pixels under each output pixel
+ *
+ * Gray frames (no U/V planes) come out gray.
+ */
+export function scaleFrame(frame: RawFrame, width: number, height: number): YuvImage {
+  const image = createImage(width, height);
+  const chromaWidth = Math.ceil(frame.width / 2);
+  const chromaHeight = Math.ceil(frame.height / 2);
+
+  scalePlane(frame.data, frame.stride, frame.width, frame.height, image.y, width, height);
+
+  if (frame.u && frame.v) {
+    scalePlane(frame.u, chromaWidth, chromaWidth, chromaHeight, image.u, width / 2, height / 2);
+    scalePlane(frame.v, chromaWidth, chromaWidth, chromaHeight, image.v, width / 2, height / 2);
+  }
+
+  return image;
+}
+
+/**
+ * Copy an image into another at an even position
+ */
+export function drawImage(target: YuvImage, source: YuvImage, x: number, y: number): void {
+  copyPlane(source.y, source.width, source.height, target.y, target.width, x, y);
+  copyPlane(source.u, source.width / 2, source.height / 2, target.u, target.width / 2, x / 2, y / 2);
+  copyPlane(source.v, source.width / 2, source.height / 2, target.v, target.width / 2, x / 2, y / 2);
+}
+
+/**
+ * Width of a text label in pixels
+ */
+export function measureText(text: string, scale: number): number {
+  return text.length * GLYPH_WIDTH * scale;
+}
+
+/**
+ * Height of a text label in pixels
+ */
+export function textHeight(scale: number): number {
+  return GLYPH_HEIGHT * scale;
+}
+
+/**
+ * Draw white text in the built-in font; characters it lacks are left blank
+ *
+ * @param scale Size of one font pixel in image pixels
+ */
+export function drawText(image: YuvImage, text: string, x: number, y: number, scale: number): void {
+  for (let i = 0; i < text.length; i++) {
+    const glyph = FONT[text[i]];
+    if (!glyph) {
+      continue;
+    }
+
+    const left = x + i * GLYPH_WIDTH * scale;
+
+    for (let row = 0; row < GLYPH_HEIGHT; row++) {
+      for (let col = 0; col < GLYPH_WIDTH - 1; col++) {
+        if (glyph[row] & (0x10 >> col)) {
+          fillLuma(image, left + col * scale, y + row * scale, scale, WHITE);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Encode an image as JPEG or PNG with ffmpeg
+ */
+export function encodeImage(
+  image: YuvImage,
+  format: ThumbnailFormat,
+  signal?: AbortSignal
+): Promise<Buffer> {
+  throwIfAborted(signal);
+
+  return new Promise((resolve, reject) => {
+    const encoder = spawn(ffmpegInstaller.path, [
+      '-v', 'error',
+      '-f', 'rawvideo',
+      '-pix_fmt', 'yuv420p',
+      '-s', `${image.width}x${image.height}`,
+      '-i', '-',
+      '-frames:v', '1',
+      ...(format === 'jpeg' ? ['-c:v', 'mjpeg', '-q:v', '2'] : ['-c:v', 'png']),
+      '-f', 'image2pipe',
+      'pipe:1'
+    ]);
+
+    const output: Buffer[] = [];
+    let errorOutput = '';
+
+    const onAbort = () => encoder.kill('SIGKILL');
+    if (signal) {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+
+    encoder.stdout.on('data', (chunk: Buffer) => output.push(chunk));
+    encoder.stderr.on('data', (chunk: Buffer) => {
+      errorOutput += chunk.toString();
+    });
+
+    // Encoder failures surface through the exit code; a closed stdin is one of their symptoms
+    encoder.stdin.on('error', () => {});
+
+    encoder.on('error', (err: Error) => {
+      if (signal) {
+        signal.removeEventListener('abort', onAbort);
+      }
+      reject(new Error(`Failed to encode image: ${err.message}`));
+    });
+
+    encoder.on('close', (code: number | null) => {
+      if (signal) {
+        signal.removeEventListener('abort', onAbort);
+      }
+
+      if (signal && signal.aborted) {
+        reject(new AbortError(signal.reason));
+      } else if (code !== 0) {
+        reject(new Error(`Failed to encode image: ${errorOutput.trim() || `ffmpeg exited with code ${code}`}`));
+      } else {
+        resolve(Buffer.concat(output));
+      }
+    });
+
+    encoder.stdin.write(image.y);
+    encoder.stdin.write(image.u);
+    encoder.stdin.end(image.v);
+  });
+}
+
+/**
+ * Area-average one plane into a packed destination plane
+ */
+function scalePlane(
+  source: Uint8Array,
+  sourceStride: number,
+  sourceWidth: number,
+  sourceHeight: number,
+  target: Uint8Array,
+  targetWidth: number,
+  targetHeight: number
+): void {
+  for (let ty = 0; ty < targetHeight; ty++) {
+    const y0 = Math.floor((ty * sourceHeight) / targetHeight);
+    const y1 = Math.max(y0 + 1, Math.floor(((ty + 1) * sourceHeight) / targetHeight));
+
+    for (let tx = 0; tx < targetWidth; tx++) {
+      const x0 = Math.floor((tx * sourceWidth) / targetWidth);
+      const x1 = Math.max(x0 + 1, Math.floor(((tx + 1) * sourceWidth) / targetWidth));
+      let sum = 0;
+
+      for (let sy = y0; sy < y1; sy++) {
+        const row = sy * sourceStride;
+        for (let sx = x0; sx < x1; sx++) {
+          sum += source[row + sx];
+        }
+      }
+
+      target[ty * targetWidth + tx] = Math.round(sum / ((y1 - y0) * (x1 - x0)));
+    }
+  }
+}
+
+/**
+ * Copy a packed plane into a larger one
+ */
+function copyPlane(
+  source: Uint8Array,
+  width: number,
+  height: number,
+  target: Uint8Array,
+  targetWidth: number,
+  x: number,
+  y: number
+): void {
+  for (let row = 0; row < height; row++) {
+    target.set(source.subarray(row * width, (row + 1) * width), (y + row) * targetWidth + x);
+  }
+}
+
+/**
+ * Fill a square of luma, clipped to the image
+ */
+function fillLuma(image: YuvImage, x: number, y: number, size: number, value: number): void {
+  for (let row = Math.max(0, y); row < Math.min(image.height, y + size); row++) {
+    const start = row * image.width;
+    image.y.fill(value, start + Math.max(0, x), start + Math.min(image.width, x + size));
+  }
+}
@@ -0,0 +1,264 @@
+/**
+ * Thumbnails - Save an image per scene and compose contact sheets
+ *
+ * Frames are fetched exactly with FFmpegDecoder.extractFrames(), scaled in
+ * JS and encoded by ffmpeg. A manifest.json next to the images links every
+ * file to its scene and frame number.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { FFmpegDecoder } from '../decoder/ffmpeg-decoder';
+import {
+  ContactSheetInfo,
+  SceneInfo,
+  ThumbnailInfo,
+  ThumbnailManifest,
+  ThumbnailOptions,
+  VideoMetadata
+} from '../types';
+import { throwIfAborted } from '../utils/errors';
+import { formatTimecode, getFrameTimestamp } from '../utils/frame-processor';
+import {
+  YuvImage,
+  createImage,
+  drawImage,
+  drawText,
+  encodeImage,
+  measureText,
+  scaleFrame,
+  textHeight
+} from './image';
+
+/** Default thumbnail width in pixels */
+const DEFAULT_WIDTH = 320;
+
+/** Default contact sheet columns */
+const DEFAULT_COLUMNS = 5;
+
+/** Frames fetched per extractFrames() call, bounding memory for long scene lists */
+const BATCH_SIZE = 32;
+
+/** Space around contact sheet cells and around their labels, in pixels */
+const SHEET_GAP = 8;
+const LABEL_PADDING = 4;
+
+/**
+ * Save a thumbnail of each scene's first frame, and optionally its middle frame and contact sheets
+ *
+ * Pass a decoder created with pixelFormat 'yuv420p' for color images; a
+ * gray decoder gives grayscale thumbnails. Given a path, a yuv420p decoder
+ * is created for the call.
+ *
+ * @param video FFmpegDecoder or path of the video the scenes were detected in
+ * @param scenes Scene changes, sorted by frame number
+ * @param options Output directory, image format and size, extra frames and contact sheet layout
+ * @returns The manifest, also written to manifest.json in the output directory
+ *
+ * @example
+ * ```typescript
+ * const result = await detectSceneChanges('input.mp4');
+ * const manifest = await generateThumbnails('input.mp4', result.scenes, {
+ *   outputDir: 'thumbs',
+ *   middleFrame: true,
+ *   contactSheet: { columns: 6 }
+ * });
+ * ```
+ */
+export async function generateThumbnails(
+  video: FFmpegDecoder | string,
+  scenes: SceneInfo[],
+  options: ThumbnailOptions
+): Promise<ThumbnailManifest> {
+  const format = options.format || 'jpeg';
+  const sheet = options.contactSheet === true ? {} : options.contactSheet || null;
+  const columns = sheet ? sheet.columns || DEFAULT_COLUMNS : 0;
+
+  if (!options.outputDir) {
+    throw new Error('Thumbnail options need an outputDir');
+  }
+  if (format !== 'jpeg' && format !== 'png') {
+    throw new Error(`Invalid thumbnail format: ${format} (must be 'jpeg' or 'png')`);
+  }
+  if (options.width !== undefined && (!Number.isInteger(options.width) || options.width < 16)) {
+    throw new Error(`Invalid thumbnail width: ${options.width} (must be an integer of at least 16)`);
+  }
+  if (sheet && (!Number.isInteger(columns) || columns < 1)) {
+    throw new Error(`Invalid contact sheet columns: ${sheet.columns}`);
+  }
+  if (sheet && sheet.rows !== undefined && (!Number.isInteger(sheet.rows) || sheet.rows < 1)) {
+    throw new Error(`Invalid contact sheet rows: ${sheet.rows}`);
+  }
+  for (const scene of scenes) {
+    if (!Number.isInteger(scene.frameNumber) || scene.frameNumber < 0) {
+      throw new Error(`Invalid scene frame number: ${scene.frameNumber}`);
+    }
+  }
+
+  const decoder = typeof video === 'string'
+    ? new FFmpegDecoder(video, { pixelFormat: 'yuv420p', signal: options.signal })
+    : video;
+
+  try {
+    const metadata = await decoder.getMetadata();
+    const { width: videoWidth, height: videoHeight } = metadata.resolution;
+    const width = toEven(options.width || DEFAULT_WIDTH);
+    const height = Math.max(2, toEven((width * videoHeight) / videoWidth));
+    const thumbnails = planThumbnails(scenes, metadata, format === 'jpeg' ? 'jpg' : 'png', !!options.middleFrame);
+    const cells: YuvImage[] = [];
+
+    await fs.promises.mkdir(options.outputDir, { recursive: true });
+
+    for (let start = 0; start < thumbnails.length; start += BATCH_SIZE) {
+      const batch = thumbnails.slice(start, start + BATCH_SIZE);
+      const frames = await decoder.extractFrames(batch.map(thumbnail => thumbnail.frameNumber));
+
+      for (let i = 0; i < batch.length; i++) {
+        throwIfAborted(options.signal);
+
+        const image = scaleFrame(frames[i], width, height);
+        const encoded = await encodeImage(image, format, options.signal);
+        await fs.promises.writeFile(path.join(options.outputDir, batch[i].file), encoded);
+
+        if (sheet && batch[i].position === 'first') {
+          cells.push(image);
+        }
+      }
+    }
+
+    const firstFrames = thumbnails.filter(thumbnail => thumbnail.position === 'first');
+    const contactSheets: ContactSheetInfo[] = [];
+
+    if (sheet && cells.length > 0) {
+      const rowsPerSheet = sheet.rows || Math.ceil(cells.length / columns);
+      const perSheet = rowsPerSheet * columns;
+      const sheetCount = Math.ceil(cells.length / perSheet);
+      const extension = format === 'jpeg' ? 'jpg' : 'png';
+
+      for (let page = 0; page < sheetCount; page++) {
+        const labels = firstFrames.slice(page * perSheet, (page + 1) * perSheet);
+        const file = sheetCount > 1
+          ? `contact-sheet-${String(page + 1).padStart(String(sheetCount).length, '0')}.${extension}`
+          : `contact-sheet.${extension}`;
+        const image = composeContactSheet(cells.slice(page * perSheet, (page + 1) * perSheet), labels, columns);
+
+        throwIfAborted(options.signal);
+        const encoded = await encodeImage(image.sheet, format, options.signal);
+        await fs.promises.writeFile(path.join(options.outputDir, file), encoded);
+
+        contactSheets.push({
+          file,
+          columns: image.columns,
+          rows: image.rows,
+          frameNumbers: labels.map(label => label.frameNumber)
+        });
+      }
+    }
+
+    const manifest: ThumbnailManifest = { format, width, height, thumbnails, contactSheets };
+    await fs.promises.writeFile(path.join(options.outputDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+
+    return manifest;
+  } finally {
+    if (typeof video === 'string') {
+      decoder.destroy();
+    }
+  }
+}
+
+/**
+ * List the images to save, in scene order
+ */
+function planThumbnails(
+  scenes: SceneInfo[],
+  metadata: VideoMetadata,
+  extension: string,
+  middleFrame: boolean
+): ThumbnailInfo[] {
+  const digits = Math.max(4, String(scenes.length).length);
+  const thumbnails: ThumbnailInfo[] = [];
+
+  scenes.forEach((scene, index) => {
+    const name = `scene-${String(index + 1).padStart(digits, '0')}`;
+
+    thumbnails.push({
+      scene: index,
+      position: 'first',
+      frameNumber: scene.frameNumber,
+      timestamp: scene.timestamp,
+      timecode: scene.timecode || formatTimecode(scene.timestamp),
+      file: `${name}.${extension}`
+    });
+
+    if (!middleFrame) {
+      return;
+    }
+
+    // The last scene runs to the end of the video, if its length is known
+    const next = scenes[index + 1];
+    const lastFrame = next ? next.frameNumber - 1 : metadata.totalFrames - 1;
+    const middle = Math.floor((scene.frameNumber + lastFrame) / 2);
+
+    if (middle > scene.frameNumber) {
+      const timestamp = getFrameTimestamp(metadata, middle);
+
+      thumbnails.push({
+        scene: index,
+        position: 'middle',
+        frameNumber: middle,
+        timestamp,
+        timecode: formatTimecode(timestamp),
+        file: `${name}-middle.${extension}`
+      });
+    }
+  });
+
+  return thumbnails;
+}
+
+/**
+ * Lay thumbnails out in a grid, each labelled with its timecode and frame number
+ */
+function composeContactSheet(
+  cells: YuvImage[],
+  labels: ThumbnailInfo[],
+  maxColumns: number
+): { sheet: YuvImage; columns: number; rows: number } {
+  const { width, height } = cells[0];
+  const columns = Math.min(maxColumns, cells.length);
+  const rows = Math.ceil(cells.length / columns);
+
+  // Double-size text once the thumbnail has room for it
+  const scale = width >= 240 ? 2 : 1;
+  const labelHeight = toEven(textHeight(scale) + 2 * LABEL_PADDING);
+  const cellHeight = height + labelHeight;
+
+  const sheet = createImage(
+    columns * width + (columns + 1) * SHEET_GAP,
+    rows * cellHeight + (rows + 1) * SHEET_GAP
+  );
+
+  cells.forEach((cell, i) => {
+    const x = SHEET_GAP + (i % columns) * (width + SHEET_GAP);
+    const y = SHEET_GAP + Math.floor(i / columns) * (cellHeight + SHEET_GAP);
+    const label = labels[i];
+
+    // Drop the frame number if the label doesn't fit
+    let text = `${label.timecode} #${label.frameNumber}`;
+    if (measureText(text, scale) > width) {
+      text = label.timecode;
+    }
+
+    drawImage(sheet, cell, x, y);
+    drawText(sheet, text, x, y + height + LABEL_PADDING, scale);
+  });
+
+  return { sheet, columns, rows };
+}
+
+/**
+ * Round to the nearest even number (yuv420p needs even dimensions)
+ */
+function toEven(value: number): number {
+  return Math.round(value / 2) * 2;
+}
@@ -26,6 +26,12 @@ export interface RawFrame {
   pts: number;
   /** Frame number (0-indexed) */
   frameNumber: number;
+  /** U plane, 4:2:0 packed (ceil(width/2) × ceil(height/2)), when decoded as yuv420p */
+  u?: Uint8Array;
+  /** V plane, same layout as u */
+  v?: Uint8Array;
+  /** Hand the frame's memory back to the decoder's buffer pool; the frame must not be used afterwards */
+  release?: () => void;
 }
 
 /**
@@ -40,6 +46,61 @@ export interface SceneInfo {
   timecode?: string;
   /** Confidence score (0-1), if available */
   confidence?: number;
+  /** Raw motion analysis values behind the decision, if available */
+  metrics?: MotionMetrics;
+  /** Inserted by enforceMaxSceneLength() rather than detected */
+  forced?: boolean;
+}
+
+/**
+ * Raw values behind the decision for one frame pair
+ *
+ * The MEanalysis fields are set by the wwxd algorithm; the other algorithms
+ * set score and threshold instead.
+ */
+export interface MotionMetrics {
+  /** Number of macroblocks classified as intra (wwxd) */
+  intraBlocks?: number;
+  /** Intra block count above which a scene change is declared outright (wwxd) */
+  intraBlockLimit?: number;
+  /** Normalised sum of absolute differences (wwxd) */
+  sSAD?: number;
+  /** Intra threshold in force for this frame's intraCount (wwxd) */
+  intraThresh?: number;
+  /** sSAD threshold in force for this frame's intraCount (wwxd) */
+  intraThresh2?: number;
+  /** Difference score of the histogram, scdet and adaptive algorithms */
+  score?: number;
+  /** Score at or above which a scene change is declared */
+  threshold?: number;
+  /** Chroma histogram difference (0-1), when chroma detection is enabled */
+  chromaDifference?: number;
+  /** Chroma threshold in force, when chroma detection is enabled */
+  chromaThreshold?: number;
+}
+
+/**
+ * Result of analyzing one frame pair
+ */
+export interface MotionAnalysis {
+  /** Whether the frame comparison reported a scene change */
+  sceneChange: boolean;
+  /** Values behind the decision */
+  metrics: MotionMetrics;
+}
+
+/**
+ * Comparison result for one frame, as passed to DetectionOptions.onAnalysis
+ */
+export interface FrameAnalysis {
+  /** Frame compared with the one before it */
+  frameNumber: number;
+  /** Timestamp of the frame in seconds */
+  timestamp: number;
+  /** Decision for this pair, before temporal smoothing */
+  sceneChange: boolean;
+  /** Values behind the decision */
+  metrics: MotionMetrics;
 }
 
 /**
@@ -52,6 +113,14 @@ export interface VideoMetadata {
   duration: number;
   /** Frames per second */
   fps: number;
+  /** Exact frame rate (e.g. 30000/1001), when the source states one and it is constant */
+  frameRate?: Rational;
+  /** Container start time in seconds; frame timestamps are relative to it, as with ffmpeg -ss */
+  startTime?: number;
+  /** Whether frame durations vary (fps is then the average rate) */
+  vfr?: boolean;
+  /** Presentation time of every frame in seconds, relative to startTime, when read from the container */
+  timestamps?: number[];
   /** Video resolution */
   resolution: {
     width: number;
@@ -59,6 +128,14 @@ export interface VideoMetadata {
   };
 }
 
+/**
+ * Exact ratio such as a frame rate (30000/1001) or pixel aspect ratio
+ */
+export interface Rational {
+  num: number;
+  den: number;
+}
+
 /**
  * Detection statistics
  */
@@ -115,16 +192,93 @@ export interface CustomThresholds {
   intraThresh2: number;
 }
 
+/**
+ * Built-in frame comparison methods
+ *
+ * - 'wwxd': Xvid motion estimation, as in vapoursynth-wwxd (WebAssembly)
+ * - 'histogram': difference between luma histograms
+ * - 'scdet': mean absolute pixel difference, as in ffmpeg's scdet filter
+ * - 'adaptive': content change relative to the previous frames, as in PySceneDetect's AdaptiveDetector
+ */
+export type DetectionAlgorithm = 'wwxd' | 'histogram' | 'scdet' | 'adaptive';
+
+/**
+ * Compares frame pairs and decides where scenes change
+ *
+ * The detector calls init() once, prepare() at the start of every run with
+ * the size frames will have, then compare() for each pair of frames in
+ * order. Pairs are usually consecutive frames: when prevFrame is the
+ * previous call's curFrame, a comparator may build on what it saw before;
+ * any other pair starts over.
+ */
+export interface FrameComparator {
+  /** Load anything the comparison needs, such as a WASM module */
+  init(): Promise<void>;
+  /**
+   * Get ready for frames of width x height
+   *
+   * @param source Source resolution, when frames are downscaled before analysis
+   */
+  prepare(width: number, height: number, source?: { width: number; height: number }): void;
+  /** Compare two frames (intraCount = frames since the last scene change) */
+  compare(prevFrame: RawFrame, curFrame: RawFrame, intraCount: number): MotionAnalysis;
+  /**
+   * Consecutive pairs whose comparison affects later decisions (0 for
+   * comparators that look at each pair on its own); worker threads analyze
+   * this many extra pairs before their segment, so the results match a
+   * single-threaded run. The state kept must not depend on earlier decisions.
+   */
+  readonly history?: number;
+  /** Free memory held between runs; prepare() is called again before the next one */
+  release(): void;
+  /** Free everything */
+  destroy(): void;
+}
+
+/**
+ * Settings the built-in comparators are created from
+ */
+export interface ComparatorOptions {
+  /** Detection sensitivity (default: 'medium') */
+  sensitivity?: SensitivityLevel;
+  /** Base MEanalysis thresholds for sensitivity 'custom' (wwxd) */
+  customThresholds?: CustomThresholds;
+  /** Decision threshold, in place of the sensitivity preset (histogram, scdet and adaptive) */
+  threshold?: number;
+  /** Motion search range (wwxd) */
+  searchRange?: SearchRange;
+  /** Seed each motion search with the previous pair's vectors (wwxd) */
+  temporalPredictor?: boolean;
+}
+
 /**
  * Temporal smoothing configuration
  */
 export interface TemporalSmoothing {
   /** Enable temporal smoothing */
   enabled: boolean;
-  /** Number of frames to consider in sliding window */
+  /** Number of frames to consider in sliding window (cuts closer than this form one cluster) */
   windowSize: number;
-  /** Minimum consecutive frames above threshold */
+  /** Minimum number of cuts in a cluster for it to be treated as a flash/strobe burst */
   minConsecutive: number;
+  /** How a burst is resolved: 'merge' keeps its first cut, 'drop' removes it entirely (default: 'merge') */
+  burstMode?: 'merge' | 'drop';
+  /** Minimum scene length in frames; cuts closer than this to the previous cut are dropped (default: 0) */
+  minSceneLength?: number;
+}
+
+/**
+ * Chroma histogram detection configuration
+ */
+export interface ChromaDetection {
+  /** Enable chroma detection (frames are decoded as yuv420p) */
+  enabled: boolean;
+  /** 'add' declares a cut on a large color change alone, 'confirm' keeps a detected cut only if the color changed too (default: 'add') */
+  mode?: 'add' | 'confirm';
+  /** Histogram difference (0-1) that counts as a color change (default: 0.5 for 'add', 0.15 for 'confirm') */
+  threshold?: number;
+  /** Histogram bins per chroma axis (default: 16) */
+  bins?: number;
 }
 
 /**
@@ -161,11 +315,40 @@ export interface DetectionOptions {
   /** Custom threshold values (only used when sensitivity='custom') */
   customThresholds?: CustomThresholds;
 
+  /**
+   * How frames are compared (default: 'wwxd'). The other built-in methods
+   * are pure TypeScript and work without the WASM build; a FrameComparator
+   * object plugs in a method of your own, analyzed on one thread.
+   */
+  algorithm?: DetectionAlgorithm | FrameComparator;
+  /**
+   * Decision threshold for the histogram, scdet and adaptive algorithms, in
+   * place of the sensitivity preset: the luma histogram difference (0-1),
+   * scdet's score (0-100) or the adaptive ratio
+   */
+  threshold?: number;
+
   // Performance
   /** Motion search range */
   searchRange?: SearchRange;
-  /** Number of worker threads (default: CPU count - 1) */
+  /** Number of worker threads (default: 1); short videos use fewer */
   workers?: number;
+  /**
+   * Start each macroblock's motion search from its vector in the previous
+   * frame pair, as well as the zero and median vectors (default: false).
+   * Cuts can differ slightly from the default search. Detection with the
+   * predictor stays on the calling thread whatever `workers` asks for.
+   */
+  temporalPredictor?: boolean;
+  /**
+   * Height to analyze frames at: taller videos are scaled down, keeping the
+   * aspect ratio, before motion analysis (default: the source resolution).
+   * Video files are scaled by ffmpeg, other sources with a box filter. The
+   * search range is adjusted to match, and the per-macroblock thresholds
+   * carry over; frame numbers and timestamps are unaffected. Sources over
+   * 8192 pixels need it.
+   */
+  analysisResolution?: number;
 
   // Processing
   /** Progressive processing configuration */
@@ -175,6 +358,19 @@ export interface DetectionOptions {
   /** Temporal smoothing to reduce false positives */
   temporalSmoothing?: TemporalSmoothing;
 
+  /** Chroma histogram check alongside the frame comparison, for cuts that only change color */
+  chroma?: ChromaDetection;
+
+  // Range
+  /** First frame to analyse; it starts a scene, as frame 0 does for a whole video (default: 0) */
+  startFrame?: number;
+  /** Last frame to analyse, inclusive (default: the end of the video) */
+  endFrame?: number;
+  /** Start of the range in seconds from the container start, instead of startFrame */
+  startTime?: number;
+  /** End of the range in seconds; frames whose timestamp is before it are analysed (instead of endFrame) */
+  endTime?: number;
+
   // Frame extraction
   /** Frame extraction options */
   frameExtraction?: FrameExtractionOptions;
@@ -184,10 +380,20 @@ export interface DetectionOptions {
   onProgress?: (progress: Progress) => void;
   /** Scene change callback */
   onScene?: (scene: SceneInfo) => void;
+  /**
+   * Called with the metrics of every frame pair analysed, e.g. to plot scores.
+   * Setting it analyses the video on one thread; with progressive processing
+   * the coarse pass is reported too, comparing frames initialStep apart.
+   */
+  onAnalysis?: (frame: FrameAnalysis) => void;
 
   // Output
-  /** Output format */
-  format?: 'json' | 'csv' | 'edl';
+  /** Output format used by SceneDetector.format() */
+  format?: ExportFormat;
+
+  // Cancellation
+  /** Abort a running detection: ffmpeg is killed, WASM buffers are freed and the call rejects with AbortError */
+  signal?: AbortSignal;
 }
 
 /**
@@ -202,7 +408,10 @@ export interface WasmModule {
     width: number,
     height: number,
     intraCount: number,
-    fcode: number
+    fcode: number,
+    intraThresh: number,
+    intraThresh2: number,
+    statsPtr: number
   ) => number;
   _calculate_padded_size: (width: number, height: number) => number;
   _pad_frame: (
@@ -211,7 +420,22 @@ export interface WasmModule {
     width: number,
     height: number
   ) => void;
+  _create_context: (width: number, height: number) => number;
+  _destroy_context: (ctxPtr: number) => void;
+  _context_pad_frame: (ctxPtr: number, srcPtr: number, slot: number) => void;
+  _context_swap_frames: (ctxPtr: number) => void;
+  _context_reset: (ctxPtr: number) => void;
+  _context_analyze: (
+    ctxPtr: number,
+    intraCount: number,
+    fcode: number,
+    intraThresh: number,
+    intraThresh2: number,
+    temporalPredictor: number,
+    statsPtr: number
+  ) => number;
   HEAPU8: Uint8Array;
+  HEAP32: Int32Array;
   ccall: (
     ident: string,
     returnType: string,
@@ -225,14 +449,20 @@ export interface WasmModule {
   ) => (...args: any[]) => any;
 }
 
+/**
+ * WasmBridge options
+ */
+export interface WasmBridgeOptions {
+  /** Seed each motion search with the previous pair's vectors (default: false) */
+  temporalPredictor?: boolean;
+}
+
 /**
  * Internal detection state
  */
 export interface DetectionState {
   /** Number of consecutive non-scene-change frames */
   intraCount: number;
-  /** Motion search range parameter */
-  fcode: number;
   /** Previous frame buffer */
   prevFrame: RawFrame | null;
   /** Current frame buffer */
@@ -255,7 +485,28 @@ export interface MBParam {
 /**
  * Export format options
  */
-export type ExportFormat = 'json' | 'csv' | 'edl';
+export type ExportFormat =
+  | 'json'
+  | 'csv'
+  | 'edl'
+  | 'aegisub'
+  | 'timecode'
+  | 'timecodes-v2'
+  | 'qpfile'
+  | 'ffmpeg'
+  | 'av1an'
+  | 'matroska-chapters'
+  | 'ogm-chapters';
+
+/**
+ * JSON export options
+ */
+export interface JsonExportOptions {
+  /** Indentation in spaces, 0 for a single line (default: 2) */
+  indent?: number;
+  /** Include metadata.timestamps, one entry per frame (default: false) */
+  timestamps?: boolean;
+}
 
 /**
  * CSV export options
@@ -275,4 +526,325 @@ export interface EdlExportOptions {
   title?: string;
   /** Frame rate (FCM) */
   fcm?: 'DROP FRAME' | 'NON-DROP FRAME';
+  /** Source reel name, up to 8 characters (default: 'AX') */
+  reel?: string;
+  /** Clip name written as a comment under each event */
+  clipName?: string;
+}
+
+/**
+ * x264/x265 qpfile export options
+ */
+export interface QpfileExportOptions {
+  /** Frame type written for each scene change: 'I' (IDR), 'i' (non-IDR) or 'K' (keyframe, IDR unless --open-gop) (default: 'I') */
+  frameType?: 'I' | 'i' | 'K';
+  /** Fixed QP for the forced frames, omitted when not set */
+  qp?: number;
+}
+
+/**
+ * ffmpeg -force_key_frames export options
+ */
+export interface FfmpegKeyframeExportOptions {
+  /** 'timestamps' writes a time list, 'expr' a frame-exact expr:eq(n,...) expression (default: 'timestamps') */
+  mode?: 'timestamps' | 'expr';
+}
+
+/**
+ * Matroska XML and OGM chapter export options
+ */
+export interface ChapterExportOptions {
+  /** Chapter name template; {n} is the 1-based scene number, {frame} and {timecode} are also replaced (default: 'Scene {n}') */
+  nameTemplate?: string;
+  /** ISO 639-2 chapter language, Matroska only (default: 'eng') */
+  language?: string;
+}
+
+/**
+ * Options for any export format
+ */
+export type ExportOptions =
+  | JsonExportOptions
+  | CsvExportOptions
+  | EdlExportOptions
+  | QpfileExportOptions
+  | FfmpegKeyframeExportOptions
+  | ChapterExportOptions;
+
+/**
+ * Import format options
+ */
+export type ImportFormat = 'aegisub' | 'qpfile' | 'xvid' | 'csv' | 'json';
+
+/**
+ * Options for importing keyframe files
+ */
+export interface ImportOptions {
+  /** Frame rate; required for formats that don't store it (qpfile, XviD stats) */
+  fps?: number;
+  /** Total number of frames (default: last listed frame + 1, or the frame count of an XviD stats file) */
+  totalFrames?: number;
+  /** Video resolution (default: 0x0, unknown) */
+  resolution?: {
+    width: number;
+    height: number;
+  };
+  /** CSV field delimiter (default: ',') */
+  delimiter?: string;
+}
+
+/**
+ * Anything that can deliver decoded frames to the detector
+ *
+ * FFmpegDecoder is one; PushFrameSource and ReadableFrameSource feed frames
+ * decoded elsewhere. Frames must be packed 8-bit luma (stride === width).
+ */
+export interface FrameSource {
+  /** Resolution and frame rate (totalFrames may be 0 when unknown) */
+  getMetadata(): Promise<VideoMetadata>;
+  /** Deliver frames in order, waiting on onFrame; return false from onFrame to stop early */
+  extractFrames(
+    onFrame: (frame: RawFrame) => Promise<boolean | void> | boolean | void,
+    onProgress?: (current: number, total: number) => void
+  ): Promise<void>;
+  /** Release resources */
+  destroy(): void;
+  /**
+   * Stop taking frames; the detector calls this when a run ends, even one
+   * that failed before reading any, so a producer waiting on the source is released
+   */
+  close?(): void;
+}
+
+/**
+ * Options for a PushFrameSource
+ */
+export interface PushFrameSourceOptions {
+  /** Frame width in pixels */
+  width: number;
+  /** Frame height in pixels */
+  height: number;
+  /** Frames per second */
+  fps: number;
+  /** Number of frames that will be pushed, if known (enables progress reporting) */
+  totalFrames?: number;
+  /** Reject extractFrames() with AbortError when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for a ReadableFrameSource
+ */
+export interface ReadableFrameSourceOptions {
+  /** Stream contents: headerless 8-bit grayscale frames, or YUV4MPEG2 */
+  format: 'gray' | 'y4m';
+  /** Frame width in pixels (required for 'gray', read from the header for 'y4m') */
+  width?: number;
+  /** Frame height in pixels (required for 'gray', read from the header for 'y4m') */
+  height?: number;
+  /** Frames per second (required for 'gray', read from the header for 'y4m') */
+  fps?: number;
+  /** Number of frames in the stream, if known (enables progress reporting) */
+  totalFrames?: number;
+  /** Keep each y4m frame's U/V planes, resampled to 4:2:0, for chroma detection (default: false) */
+  chroma?: boolean;
+  /** Destroy the stream and reject with AbortError when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Parsed YUV4MPEG2 stream header
+ */
+export interface Y4mHeader {
+  /** Frame width in pixels (W) */
+  width: number;
+  /** Frame height in pixels (H) */
+  height: number;
+  /** Exact frame rate (F) */
+  frameRate: Rational;
+  /** Field order (I): p, t, b, m or ? */
+  interlacing: 'progressive' | 'top-first' | 'bottom-first' | 'mixed' | 'unknown';
+  /** Pixel aspect ratio (A), or null when unknown (A0:0 or absent) */
+  pixelAspectRatio: Rational | null;
+  /** Colorspace tag as written (C), e.g. '420jpeg' or '420p10' (default: '420jpeg') */
+  colorspace: string;
+  /** Bits per sample (8 unless the colorspace says otherwise) */
+  bitDepth: number;
+  /** Extension tags (X), without the leading X */
+  comments: string[];
+}
+
+/**
+ * Options for a Y4mDecoder
+ */
+export interface Y4mDecoderOptions {
+  /** Keep each frame's U/V planes, resampled to 4:2:0, for chroma detection (default: false) */
+  chroma?: boolean;
+  /** Destroy the stream and reject with AbortError when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Image format for thumbnails and contact sheets
+ */
+export type ThumbnailFormat = 'jpeg' | 'png';
+
+/**
+ * Contact sheet layout
+ */
+export interface ContactSheetOptions {
+  /** Thumbnails per row (default: 5) */
+  columns?: number;
+  /** Rows per sheet; further scenes continue on a new sheet (default: all scenes on one sheet) */
+  rows?: number;
+}
+
+/**
+ * Options for generateThumbnails()
+ */
+export interface ThumbnailOptions {
+  /** Directory for the images and manifest.json (created if missing) */
+  outputDir: string;
+  /** Image format (default: 'jpeg') */
+  format?: ThumbnailFormat;
+  /** Thumbnail width in pixels; the height follows the aspect ratio (default: 320) */
+  width?: number;
+  /** Also save the middle frame of each scene (default: false) */
+  middleFrame?: boolean;
+  /** Compose the first frames into contact sheets with timecode labels (default: false) */
+  contactSheet?: boolean | ContactSheetOptions;
+  /** Stop the ffmpeg encoder and reject with AbortError when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * One saved thumbnail
+ */
+export interface ThumbnailInfo {
+  /** Index of the scene in the scene list */
+  scene: number;
+  /** Which frame of the scene the image shows */
+  position: 'first' | 'middle';
+  /** Frame number of the image */
+  frameNumber: number;
+  /** Timestamp of the frame in seconds */
+  timestamp: number;
+  /** Timecode of the frame (HH:MM:SS.mmm) */
+  timecode: string;
+  /** Image path relative to the output directory */
+  file: string;
+}
+
+/**
+ * One saved contact sheet
+ */
+export interface ContactSheetInfo {
+  /** Image path relative to the output directory */
+  file: string;
+  /** Grid size */
+  columns: number;
+  rows: number;
+  /** Frame number of each cell, row by row */
+  frameNumbers: number[];
+}
+
+/**
+ * Everything generateThumbnails() wrote, also saved as manifest.json
+ */
+export interface ThumbnailManifest {
+  /** Image format */
+  format: ThumbnailFormat;
+  /** Thumbnail size in pixels */
+  width: number;
+  height: number;
+  /** Thumbnails in scene order, first frame before middle frame */
+  thumbnails: ThumbnailInfo[];
+  /** Contact sheets in order (empty unless requested) */
+  contactSheets: ContactSheetInfo[];
+}
+
+/**
+ * Options for createHtmlReport()
+ */
+export interface HtmlReportOptions {
+  /** Per-frame metrics collected with DetectionOptions.onAnalysis; without them the score graphs are left out */
+  frames?: FrameAnalysis[];
+  /** Path of the video, for scene thumbnails; without it the report has none */
+  video?: string;
+  /** Report title (default: 'Scene detection report') */
+  title?: string;
+  /** Sensitivity the scenes were detected with, shown in the summary */
+  sensitivity?: SensitivityLevel;
+  /** Thumbnail width in pixels (default: 160) */
+  thumbnailWidth?: number;
+  /** Stop fetching thumbnails and reject with AbortError when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * How splitByScenes() writes clips: 'copy' stream-copies (fast, lossless,
+ * cuts land on keyframes), 'encode' re-encodes (frame-exact)
+ */
+export type SplitMode = 'copy' | 'encode';
+
+/**
+ * Options for splitByScenes()
+ */
+export interface SplitOptions {
+  /** Directory for the clips and manifest.json (created if missing) */
+  outputDir: string;
+  /** Stream copy or re-encode (default: 'copy') */
+  mode?: SplitMode;
+  /**
+   * File name template: {n} is the 1-based clip number (zero-padded), {name} the
+   * video's name without extension, {ext} its extension, {start} and {end} the
+   * first and last frame, {timecode} the start time as HH-MM-SS.mmm (default: '{name}-{n}.{ext}')
+   */
+  fileName?: string;
+  /** Scenes shorter than this many seconds are merged into the following scene (default: 0) */
+  minDuration?: number;
+  /** Scenes longer than this many seconds are split into equal parts (default: no limit) */
+  maxDuration?: number;
+  /** ffmpeg output options for 'encode' mode (default: ['-c:v', 'libx264', '-crf', '18', '-preset', 'fast', '-c:a', 'aac']) */
+  encodeOptions?: string[];
+  /** Called after each clip is written */
+  onProgress?: (done: number, total: number) => void;
+  /** Stop ffmpeg and reject with AbortError when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * One clip written by splitByScenes()
+ */
+export interface SplitClip {
+  /** Clip path relative to the output directory */
+  file: string;
+  /** Index of the scene the clip starts in */
+  scene: number;
+  /** First and last frame of the clip (inclusive) */
+  startFrame: number;
+  endFrame: number;
+  /** Start and end of the clip in seconds */
+  startTime: number;
+  endTime: number;
+}
+
+/**
+ * Everything splitByScenes() wrote, also saved as manifest.json
+ */
+export interface SplitManifest {
+  /** Source video */
+  video: string;
+  /** Mode the clips were written with; 'copy' clips may start at the keyframe before startFrame */
+  mode: SplitMode;
+  /** Clips in order */
+  clips: SplitClip[];
+}
+
+/**
+ * Options for convertFrameRate()
+ */
+export interface FrameRateConversionOptions {
+  /** 'time' keeps each cut's timestamp and moves it to the nearest frame; 'frames' keeps frame numbers and rescales timestamps (default: 'time') */
+  preserve?: 'time' | 'frames';
 }
@@ -21,15 +21,18 @@ export class BufferPool {
    * Acquire a buffer of the specified size
    *
    * @param size Buffer size in bytes
+   * @param clear Zero a reused buffer; skip it when the buffer will be overwritten anyway (default: true)
    * @returns Uint8Array buffer
    */
-  acquire(size: number): Uint8Array {
+  acquire(size: number, clear: boolean = true): Uint8Array {
     const poolForSize = this.pool.get(size);
 
     if (poolForSize && poolForSize.length > 0) {
       const buffer = poolForSize.pop()!;
       // Clear the buffer before reuse
-      buffer.fill(0);
+      if (clear) {
+        buffer.fill(0);
+      }
       return buffer;
     }
 
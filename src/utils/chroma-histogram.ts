@@ -0,0 +1,151 @@
+/**
+ * Chroma Histogram - Colour-based check alongside MEanalysis
+ *
+ * MEanalysis only sees luma, so a cut between two shots of the same
+ * brightness but different color can slip through. Each frame's U/V planes
+ * are binned into a joint 2D histogram; the difference between two frames is
+ * half the L1 distance between their normalised histograms (0 = identical
+ * color distribution, 1 = no overlap at all).
+ */
+
+import { ChromaDetection, MotionAnalysis, RawFrame } from '../types';
+
+/** Default histogram bins per chroma axis */
+const DEFAULT_BINS = 16;
+
+/** Default thresholds: adding cuts needs a clear color change, confirming them much less */
+const DEFAULT_THRESHOLDS = { add: 0.5, confirm: 0.15 };
+
+/**
+ * Size of one 4:2:0 chroma plane for a frame
+ */
+export function chromaPlaneSize(width: number, height: number): number {
+  return Math.ceil(width / 2) * Math.ceil(height / 2);
+}
+
+/**
+ * Build the normalised joint U/V histogram of a frame
+ *
+ * @param frame Frame with 4:2:0 u and v planes
+ * @param bins Bins per chroma axis (1-256)
+ * @returns bins × bins histogram summing to 1
+ */
+export function chromaHistogram(frame: RawFrame, bins: number = DEFAULT_BINS): Float64Array {
+  const { u, v } = frame;
+  const size = chromaPlaneSize(frame.width, frame.height);
+
+  if (!u || !v) {
+    throw new Error(`Frame ${frame.frameNumber} has no U/V planes (chroma detection needs yuv420p frames)`);
+  }
+
+  if (u.length < size || v.length < size) {
+    throw new Error(
+      `Chroma plane size mismatch in frame ${frame.frameNumber}: expected ${size}, got ${u.length}/${v.length}`
+    );
+  }
+
+  const histogram = new Float64Array(bins * bins);
+  for (let i = 0; i < size; i++) {
+    histogram[((u[i] * bins) >> 8) * bins + ((v[i] * bins) >> 8)]++;
+  }
+
+  for (let i = 0; i < histogram.length; i++) {
+    histogram[i] /= size;
+  }
+
+  return histogram;
+}
+
+/**
+ * Difference between two normalised histograms (0-1)
+ */
+export function histogramDifference(a: Float64Array, b: Float64Array): number {
+  if (a.length !== b.length) {
+    throw new Error('Histograms must have the same number of bins');
+  }
+
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.abs(a[i] - b[i]);
+  }
+
+  return Math.min(1, sum / 2);
+}
+
+export class ChromaComparator {
+  private mode: 'add' | 'confirm';
+  private threshold: number;
+  private bins: number;
+  private cache: WeakMap<Uint8Array, Float64Array> = new WeakMap();
+
+  /**
+   * Create a new chroma comparator
+   *
+   * @param options Chroma detection configuration (the enabled flag is ignored)
+   */
+  constructor(options: ChromaDetection) {
+    const mode = options.mode || 'add';
+    const threshold = options.threshold !== undefined ? options.threshold : DEFAULT_THRESHOLDS[mode];
+    const bins = options.bins || DEFAULT_BINS;
+
+    if (mode !== 'add' && mode !== 'confirm') {
+      throw new Error(`Invalid chroma mode: ${mode} (must be 'add' or 'confirm')`);
+    }
+
+    if (!(threshold >= 0 && threshold <= 1)) {
+      throw new Error(`Invalid chroma threshold: ${threshold} (must be between 0 and 1)`);
+    }
+
+    if (!Number.isInteger(bins) || bins < 1 || bins > 256) {
+      throw new Error(`Invalid chroma bins: ${bins} (must be an integer from 1 to 256)`);
+    }
+
+    this.mode = mode;
+    this.threshold = threshold;
+    this.bins = bins;
+  }
+
+  /**
+   * Colour difference between two frames (0-1)
+   */
+  difference(prevFrame: RawFrame, curFrame: RawFrame): number {
+    return histogramDifference(this.histogram(prevFrame), this.histogram(curFrame));
+  }
+
+  /**
+   * Combine a MEanalysis result with the chroma difference of the same pair
+   *
+   * In 'add' mode a large color change is a scene change even when
+   * MEanalysis saw none; in 'confirm' mode a MEanalysis cut is only kept if
+   * the color changed as well.
+   */
+  apply(analysis: MotionAnalysis, prevFrame: RawFrame, curFrame: RawFrame): MotionAnalysis {
+    const chromaDifference = this.difference(prevFrame, curFrame);
+    const colorChanged = chromaDifference >= this.threshold;
+
+    return {
+      sceneChange: this.mode === 'add'
+        ? analysis.sceneChange || colorChanged
+        : analysis.sceneChange && colorChanged,
+      metrics: {
+        ...analysis.metrics,
+        chromaDifference,
+        chromaThreshold: this.threshold
+      }
+    };
+  }
+
+  /**
+   * Histogram of a frame, computed once per chroma plane
+   */
+  private histogram(frame: RawFrame): Float64Array {
+    let histogram = frame.u ? this.cache.get(frame.u) : undefined;
+
+    if (!histogram) {
+      histogram = chromaHistogram(frame, this.bins);
+      this.cache.set(frame.u!, histogram);
+    }
+
+    return histogram;
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Chunk Reader - Pull lines and fixed-size blocks out of a byte stream
+ *
+ * Blocks are copied straight from the stream's chunks into the caller's
+ * buffer, so a frame is copied once however the stream splits it up.
+ */
+
+import { Readable } from 'stream';
+
+export class ChunkReader {
+  private iterator: AsyncIterator<Buffer | string>;
+  private chunk: Buffer = Buffer.alloc(0);
+  private offset: number = 0;
+  private ended: boolean = false;
+
+  /**
+   * Create a reader over a stream
+   *
+   * @param stream Stream to read; it is consumed with async iteration, so it is paused between reads
+   */
+  constructor(stream: Readable) {
+    this.iterator = stream[Symbol.asyncIterator]();
+  }
+
+  /**
+   * Read up to the next newline (not included)
+   *
+   * @param maxLength Longest line accepted
+   * @returns Line as latin1 text, or null at the end of the stream
+   */
+  async readLine(maxLength: number): Promise<string | null> {
+    const parts: Buffer[] = [];
+    let length = 0;
+
+    while (await this.fill()) {
+      const newline = this.chunk.indexOf(0x0a, this.offset);
+      const end = newline === -1 ? this.chunk.length : newline;
+
+      parts.push(this.chunk.subarray(this.offset, end));
+      length += end - this.offset;
+      this.offset = newline === -1 ? end : newline + 1;
+
+      if (length > maxLength) {
+        throw new Error(`Line longer than ${maxLength} bytes`);
+      }
+
+      if (newline !== -1) {
+        return Buffer.concat(parts, length).toString('latin1');
+      }
+    }
+
+    if (length > 0) {
+      throw new Error('Unexpected end of stream inside a line');
+    }
+
+    return null;
+  }
+
+  /**
+   * Fill a buffer completely from the stream
+   *
+   * @param target Buffer to fill
+   * @returns false if the stream ended before any byte was read
+   */
+  async readInto(target: Uint8Array): Promise<boolean> {
+    let filled = 0;
+
+    while (filled < target.length) {
+      if (!(await this.fill())) {
+        if (filled === 0) {
+          return false;
+        }
+        throw new Error(`Unexpected end of stream (got ${filled} of ${target.length} bytes)`);
+      }
+
+      const count = Math.min(target.length - filled, this.chunk.length - this.offset);
+      target.set(this.chunk.subarray(this.offset, this.offset + count), filled);
+      this.offset += count;
+      filled += count;
+    }
+
+    return true;
+  }
+
+  /**
+   * Discard bytes from the stream
+   *
+   * @param size Number of bytes to skip
+   */
+  async skip(size: number): Promise<void> {
+    let remaining = size;
+
+    while (remaining > 0) {
+      if (!(await this.fill())) {
+        throw new Error(`Unexpected end of stream (${remaining} bytes short)`);
+      }
+
+      const count = Math.min(remaining, this.chunk.length - this.offset);
+      this.offset += count;
+      remaining -= count;
+    }
+  }
+
+  /**
+   * Stop reading and destroy the stream
+   */
+  async close(): Promise<void> {
+    this.ended = true;
+
+    if (this.iterator.return) {
+      await this.iterator.return();
+    }
+  }
+
+  /**
+   * Make sure unread bytes are available
+   *
+   * @returns false at the end of the stream
+   */
+  private async fill(): Promise<boolean> {
+    while (this.offset >= this.chunk.length) {
+      if (this.ended) {
+        return false;
+      }
+
+      const { value, done } = await this.iterator.next();
+      if (done) {
+        this.ended = true;
+        return false;
+      }
+
+      this.chunk = typeof value === 'string' ? Buffer.from(value, 'latin1') : value;
+      this.offset = 0;
+    }
+
+    return true;
+  }
+}
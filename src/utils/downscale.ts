@@ -0,0 +1,114 @@
+/**
+ * Downscale - Box filter for analyzing frames at a lower resolution
+ *
+ * Video files have ffmpeg scale their frames; frame sources and .y4m files
+ * are read without ffmpeg and go through this filter instead. Each output
+ * pixel is the mean of the block of source pixels it covers, which is what
+ * ffmpeg's area scaler does for whole-pixel blocks.
+ */
+
+import { RawFrame } from '../types';
+import { BufferPool } from './buffer-pool';
+import { chromaPlaneSize } from './chroma-histogram';
+
+/**
+ * Scale a frame down to width x height
+ *
+ * The luma plane is read with the frame's stride; u and v planes, when
+ * present, are scaled to the matching 4:2:0 size. The result is packed
+ * (stride === width) and keeps the frame number and PTS.
+ *
+ * @param frame Frame to scale (not modified or released)
+ * @param width Output width, at most the frame's width
+ * @param height Output height, at most the frame's height
+ * @param pool Pool to take the output buffer from; the new frame's release() returns it
+ * @returns The scaled frame
+ */
+export function downscaleFrame(frame: RawFrame, width: number, height: number, pool?: BufferPool): RawFrame {
+  if (width > frame.width || height > frame.height || width < 1 || height < 1) {
+    throw new Error(`Cannot downscale a ${frame.width}x${frame.height} frame to ${width}x${height}`);
+  }
+
+  const lumaSize = width * height;
+  const chromaSize = frame.u && frame.v ? chromaPlaneSize(width, height) : 0;
+  const size = lumaSize + 2 * chromaSize;
+  const buffer = pool ? pool.acquire(size, false) : new Uint8Array(size);
+
+  boxFilter(frame.data, frame.width, frame.height, frame.stride, buffer.subarray(0, lumaSize), width, height);
+
+  const scaled: RawFrame = {
+    data: buffer.subarray(0, lumaSize),
+    width,
+    height,
+    stride: width,
+    pts: frame.pts,
+    frameNumber: frame.frameNumber
+  };
+
+  if (frame.u && frame.v) {
+    const sourceWidth = Math.ceil(frame.width / 2);
+    const sourceHeight = Math.ceil(frame.height / 2);
+    const chromaWidth = Math.ceil(width / 2);
+    const chromaHeight = Math.ceil(height / 2);
+
+    scaled.u = buffer.subarray(lumaSize, lumaSize + chromaSize);
+    scaled.v = buffer.subarray(lumaSize + chromaSize, size);
+    boxFilter(frame.u, sourceWidth, sourceHeight, sourceWidth, scaled.u, chromaWidth, chromaHeight);
+    boxFilter(frame.v, sourceWidth, sourceHeight, sourceWidth, scaled.v, chromaWidth, chromaHeight);
+  }
+
+  if (pool) {
+    let released = false;
+    scaled.release = () => {
+      if (!released) {
+        released = true;
+        pool.release(buffer);
+      }
+    };
+  }
+
+  return scaled;
+}
+
+/**
+ * Average source pixels into an output plane, one row of output at a time
+ */
+function boxFilter(
+  src: Uint8Array,
+  srcWidth: number,
+  srcHeight: number,
+  srcStride: number,
+  dst: Uint8Array,
+  dstWidth: number,
+  dstHeight: number
+): void {
+  // Output column of each source column
+  const column = new Uint32Array(srcWidth);
+  const columnWidth = new Uint32Array(dstWidth);
+  for (let x = 0; x < srcWidth; x++) {
+    column[x] = Math.min(dstWidth - 1, Math.floor((x * dstWidth) / srcWidth));
+    columnWidth[column[x]]++;
+  }
+
+  const sums = new Uint32Array(dstWidth);
+
+  for (let y = 0; y < dstHeight; y++) {
+    const top = Math.floor((y * srcHeight) / dstHeight);
+    const bottom = Math.floor(((y + 1) * srcHeight) / dstHeight);
+    const rows = bottom - top;
+
+    sums.fill(0);
+    for (let sy = top; sy < bottom; sy++) {
+      const row = sy * srcStride;
+      for (let x = 0; x < srcWidth; x++) {
+        sums[column[x]] += src[row + x];
+      }
+    }
+
+    const out = y * dstWidth;
+    for (let x = 0; x < dstWidth; x++) {
+      const count = columnWidth[x] * rows;
+      dst[out + x] = Math.floor((sums[x] + (count >> 1)) / count);
+    }
+  }
+}
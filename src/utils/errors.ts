@@ -0,0 +1,61 @@
+/**
+ * Error types thrown by the library
+ */
+
+/**
+ * A keyframe or scene list file could not be parsed
+ */
+export class KeyframeParseError extends Error {
+  /** Format being parsed */
+  readonly format: string;
+  /** 1-based line number of the offending line, if known */
+  readonly line?: number;
+
+  constructor(format: string, message: string, line?: number) {
+    super(line !== undefined ? `${format} line ${line}: ${message}` : `${format}: ${message}`);
+    this.name = 'KeyframeParseError';
+    this.format = format;
+    this.line = line;
+  }
+}
+
+/**
+ * Detection was cancelled through an AbortSignal
+ */
+export class AbortError extends Error {
+  /** Same code Node uses for its own abort errors */
+  readonly code = 'ABORT_ERR';
+  /** The signal's abort reason, if any */
+  readonly reason?: unknown;
+
+  constructor(reason?: unknown) {
+    super('Scene detection was aborted');
+    this.name = 'AbortError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * FFmpeg stopped delivering frames for longer than the decoder's timeout
+ */
+export class DecodeTimeoutError extends Error {
+  /** Same code Node uses for its own timeouts */
+  readonly code = 'ETIMEDOUT';
+  /** Inactivity limit that was exceeded, in milliseconds */
+  readonly timeout: number;
+
+  constructor(timeout: number) {
+    super(`FFmpeg delivered no frame for ${timeout} ms`);
+    this.name = 'DecodeTimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Throw an AbortError if the signal has already been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal | null): void {
+  if (signal && signal.aborted) {
+    throw new AbortError(signal.reason);
+  }
+}
@@ -2,20 +2,81 @@
  * Frame Processor - Utilities for frame preprocessing
  */
 
-import { RawFrame } from '../types';
+import { RawFrame, CustomThresholds, MotionMetrics, VideoMetadata } from '../types';
+
+/** Largest frame width or height MEanalysis accepts */
+export const MAX_ANALYSIS_DIMENSION = 8192;
+
+/** Smallest analysisResolution: MEanalysis needs a few rows of macroblocks inside the border */
+const MIN_ANALYSIS_RESOLUTION = 64;
 
 /**
  * Format timestamp as timecode (HH:MM:SS.mmm)
+ *
+ * Milliseconds are truncated, allowing for floating point error: frame
+ * 86400 at 24000/1001 fps is 3603.6 s, not 3603.599.
  */
 export function formatTimecode(seconds: number): string {
-  const hours = Math.floor(seconds / 3600);
-  const minutes = Math.floor((seconds % 3600) / 60);
-  const secs = Math.floor(seconds % 60);
-  const ms = Math.floor((seconds % 1) * 1000);
+  const totalMs = Math.floor(seconds * 1000 + 1e-6);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
 
   return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${ms.toString().padStart(3, '0')}`;
 }
 
+/**
+ * Presentation time of a frame relative to the container start
+ *
+ * Uses the container's timestamps when known; frames past the end of the
+ * list (or sources without timestamps) are extrapolated at the nominal rate.
+ */
+export function getFrameTimestamp(metadata: VideoMetadata, frameNumber: number): number {
+  const timestamps = metadata.timestamps;
+
+  if (!timestamps || timestamps.length === 0) {
+    return frameNumber / metadata.fps;
+  }
+
+  if (frameNumber < timestamps.length) {
+    return timestamps[frameNumber];
+  }
+
+  const last = timestamps.length - 1;
+  return timestamps[last] + (frameNumber - last) / metadata.fps;
+}
+
+/**
+ * First frame whose timestamp is at or after a time (within a microsecond)
+ */
+export function findFrameAtTime(metadata: VideoMetadata, time: number): number {
+  const timestamps = metadata.timestamps;
+  const target = time - 1e-6;
+
+  if (!timestamps || timestamps.length === 0) {
+    return Math.max(0, Math.ceil(target * metadata.fps));
+  }
+
+  const last = timestamps.length - 1;
+  if (target > timestamps[last]) {
+    return last + Math.ceil((target - timestamps[last]) * metadata.fps);
+  }
+
+  let low = 0;
+  let high = last;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (timestamps[mid] < target) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  return low;
+}
+
 /**
  * Calculate macroblock parameters for frame dimensions
  */
@@ -37,21 +98,95 @@ export function calculateMBParam(width: number, height: number) {
 
 /**
  * Check if frame dimensions are valid
+ *
+ * @param maxDimension Largest width or height allowed (default: what MEanalysis accepts;
+ *   Infinity for sources whose frames may be downscaled before analysis)
  */
-export function validateFrameDimensions(width: number, height: number): void {
+export function validateFrameDimensions(
+  width: number,
+  height: number,
+  maxDimension: number = MAX_ANALYSIS_DIMENSION
+): void {
   if (width <= 0 || height <= 0) {
     throw new Error(`Invalid frame dimensions: ${width}x${height}`);
   }
 
-  if (width > 8192 || height > 8192) {
-    throw new Error(`Frame dimensions too large: ${width}x${height} (max: 8192x8192)`);
+  if (width > maxDimension || height > maxDimension) {
+    throw new Error(
+      `Frame dimensions too large: ${width}x${height} (max: ${maxDimension}x${maxDimension}; ` +
+      `set analysisResolution to analyse downscaled frames)`
+    );
   }
 }
 
+/**
+ * Check an analysisResolution option
+ */
+export function validateAnalysisResolution(analysisResolution: number): void {
+  if (!Number.isInteger(analysisResolution) || analysisResolution < MIN_ANALYSIS_RESOLUTION) {
+    throw new Error(
+      `Invalid analysisResolution: ${analysisResolution} (must be an integer of at least ${MIN_ANALYSIS_RESOLUTION})`
+    );
+  }
+}
+
+/**
+ * Size frames are analysed at
+ *
+ * Frames taller than analysisResolution are scaled down to that height,
+ * keeping the aspect ratio (the width is rounded to an even number).
+ * Shorter frames, and any frame when analysisResolution is 0, keep their size.
+ *
+ * @param width Source width
+ * @param height Source height
+ * @param analysisResolution Height to analyse at, or 0 for the source resolution
+ */
+export function calculateAnalysisSize(
+  width: number,
+  height: number,
+  analysisResolution: number
+): { width: number; height: number } {
+  if (!analysisResolution || height <= analysisResolution) {
+    return { width, height };
+  }
+
+  return {
+    width: Math.max(2, Math.round((width * analysisResolution) / height / 2) * 2),
+    height: analysisResolution
+  };
+}
+
 /**
  * Calculate fcode from search range option
+ *
+ * The search range is in source pixels: when frames are analysed at a
+ * fraction of the source size (scale < 1), fcode drops by one for every
+ * halving so the search still covers the same part of the picture.
+ *
+ * @param searchRange Search range option
+ * @param width Source width
+ * @param height Source height
+ * @param scale Analysis size relative to the source (default: 1)
  */
-export function calculateFcode(searchRange: 'auto' | 'small' | 'medium' | 'large', width: number, height: number): number {
+export function calculateFcode(
+  searchRange: 'auto' | 'small' | 'medium' | 'large',
+  width: number,
+  height: number,
+  scale: number = 1
+): number {
+  const fcode = sourceFcode(searchRange, width, height);
+
+  if (scale >= 1) {
+    return fcode;
+  }
+
+  return Math.max(1, fcode - Math.round(Math.log2(1 / scale)));
+}
+
+/**
+ * fcode for analysis at the source resolution
+ */
+function sourceFcode(searchRange: 'auto' | 'small' | 'medium' | 'large', width: number, height: number): number {
   switch (searchRange) {
     case 'small':
       return 2; // 64 pixel range
@@ -72,8 +207,14 @@ export function calculateFcode(searchRange: 'auto' | 'small' | 'medium' | 'large
 
 /**
  * Calculate adaptive thresholds based on sensitivity
+ *
+ * These are the base values handed to MEanalysis; it raises them further
+ * for frames that closely follow a previous scene change.
  */
-export function calculateThresholds(sensitivity: 'low' | 'medium' | 'high' | 'custom'): { intraThresh: number; intraThresh2: number } {
+export function calculateThresholds(
+  sensitivity: 'low' | 'medium' | 'high' | 'custom',
+  customThresholds?: CustomThresholds
+): CustomThresholds {
   switch (sensitivity) {
     case 'low':
       return { intraThresh: 3000, intraThresh2: 150 };  // Less sensitive
@@ -82,17 +223,66 @@ export function calculateThresholds(sensitivity: 'low' | 'medium' | 'high' | 'cu
     case 'high':
       return { intraThresh: 1000, intraThresh2: 50 };   // More sensitive
     case 'custom':
-      // Will be overridden by customThresholds
-      return { intraThresh: 2000, intraThresh2: 90 };
+      if (!customThresholds) {
+        return { intraThresh: 2000, intraThresh2: 90 };
+      }
+      validateThresholds(customThresholds);
+      return { ...customThresholds };
     default:
       return { intraThresh: 2000, intraThresh2: 90 };
   }
 }
 
+/**
+ * Check that threshold values can be passed to MEanalysis
+ */
+export function validateThresholds(thresholds: CustomThresholds): void {
+  const { intraThresh, intraThresh2 } = thresholds;
+
+  if (!Number.isInteger(intraThresh) || intraThresh < 0) {
+    throw new Error(`Invalid intraThresh: ${intraThresh} (must be a non-negative integer)`);
+  }
+
+  if (!Number.isInteger(intraThresh2) || intraThresh2 < 0) {
+    throw new Error(`Invalid intraThresh2: ${intraThresh2} (must be a non-negative integer)`);
+  }
+}
+
+/**
+ * Turn raw comparison values into a confidence score (0-1)
+ *
+ * Each criterion present is expressed as a ratio to its threshold (intra
+ * blocks to the intra block limit, sSAD to intraThresh2, the score of the
+ * other algorithms to their threshold, and the chroma difference to its
+ * threshold when chroma detection is on) and the largest ratio is used.
+ * A ratio of 1 - the decision boundary - maps to 0.5; frames well past a
+ * threshold approach 1.
+ */
+export function calculateConfidence(metrics: MotionMetrics): number {
+  const intraRatio = metrics.intraBlocks !== undefined
+    ? metrics.intraBlocks / Math.max(1, metrics.intraBlockLimit || 0)
+    : 0;
+  const sadRatio = metrics.sSAD !== undefined
+    ? metrics.sSAD / Math.max(1, metrics.intraThresh2 || 0)
+    : 0;
+  const scoreRatio = metrics.score !== undefined && metrics.threshold
+    ? metrics.score / metrics.threshold
+    : 0;
+  const chromaRatio = metrics.chromaDifference !== undefined && metrics.chromaThreshold
+    ? metrics.chromaDifference / metrics.chromaThreshold
+    : 0;
+  const ratio = Math.max(intraRatio, sadRatio, scoreRatio, chromaRatio, 0);
+
+  const confidence = ratio < 1 ? ratio / 2 : 1 - 1 / (2 * ratio);
+  return Math.min(1, Math.max(0, confidence));
+}
+
 /**
  * Validate frame data
+ *
+ * @param maxDimension Largest width or height allowed (default: what MEanalysis accepts)
  */
-export function validateFrame(frame: RawFrame): void {
+export function validateFrame(frame: RawFrame, maxDimension: number = MAX_ANALYSIS_DIMENSION): void {
   if (!frame.data || frame.data.length === 0) {
     throw new Error('Frame data is empty');
   }
@@ -104,7 +294,7 @@ export function validateFrame(frame: RawFrame): void {
     );
   }
 
-  validateFrameDimensions(frame.width, frame.height);
+  validateFrameDimensions(frame.width, frame.height, maxDimension);
 }
 
 /**
@@ -0,0 +1,288 @@
+/**
+ * Scene List - Post-processing for detection results
+ *
+ * Encoders want scene lists with guarantees raw detection doesn't give: no
+ * scene shorter or longer than a limit, cuts on existing keyframes, frame
+ * numbers for a different frame rate. Every function here takes a
+ * DetectionResult and returns a new one; the input is never modified.
+ * Scenes are sorted by frame number and de-duplicated on the way in.
+ */
+
+import { DetectionResult, FrameRateConversionOptions, Rational, SceneInfo, VideoMetadata } from '../types';
+import { formatTimecode, getFrameTimestamp } from './frame-processor';
+
+/**
+ * Drop cuts that come less than minLength frames after the previous cut
+ *
+ * The first scene is always kept. A last scene shorter than minLength (by
+ * metadata.totalFrames) is merged into the one before it.
+ *
+ * @param result Detection result
+ * @param minLength Minimum scene length in frames
+ * @returns Result with the short scenes merged into their predecessors
+ */
+export function enforceMinSceneLength(result: DetectionResult, minLength: number): DetectionResult {
+  validateLength('minLength', minLength);
+
+  const kept: SceneInfo[] = [];
+
+  for (const scene of sortScenes(result.scenes)) {
+    const last = kept[kept.length - 1];
+    if (!last || scene.frameNumber - last.frameNumber >= minLength) {
+      kept.push(scene);
+    }
+  }
+
+  const totalFrames = result.metadata.totalFrames;
+  if (kept.length > 1 && totalFrames - kept[kept.length - 1].frameNumber < minLength) {
+    kept.pop();
+  }
+
+  return { ...result, scenes: kept };
+}
+
+/**
+ * Insert cuts so that no scene is longer than maxLength frames
+ *
+ * A long scene is cut into the fewest equal parts that fit, as av1an's
+ * extra splits do. Inserted scenes are marked `forced`. The last scene
+ * runs to metadata.totalFrames.
+ *
+ * @param result Detection result
+ * @param maxLength Maximum scene length in frames
+ * @returns Result with forced cuts added
+ */
+export function enforceMaxSceneLength(result: DetectionResult, maxLength: number): DetectionResult {
+  validateLength('maxLength', maxLength);
+
+  const metadata = result.metadata;
+  const sorted = sortScenes(result.scenes);
+  const scenes: SceneInfo[] = [];
+
+  sorted.forEach((scene, i) => {
+    const start = scene.frameNumber;
+    const end = i + 1 < sorted.length ? sorted[i + 1].frameNumber : Math.max(metadata.totalFrames, start + 1);
+    const length = end - start;
+    const parts = Math.ceil(length / maxLength);
+
+    scenes.push(scene);
+
+    for (let part = 1; part < parts; part++) {
+      const frameNumber = start + Math.round((length * part) / parts);
+      scenes.push({ ...createScene(metadata, frameNumber), forced: true });
+    }
+  });
+
+  return { ...result, scenes };
+}
+
+/**
+ * Move each cut to the nearest keyframe within tolerance frames
+ *
+ * Cuts with no keyframe in reach stay where they are; on a tie the earlier
+ * keyframe wins. A moved scene keeps its confidence and metrics. When two
+ * cuts land on the same keyframe only the first is kept.
+ *
+ * @param result Detection result
+ * @param keyframes Keyframe frame numbers, e.g. from FFmpegDecoder.getKeyframes()
+ * @param tolerance Maximum distance to move a cut, in frames
+ * @returns Result with cuts on keyframes where possible
+ *
+ * @example
+ * ```typescript
+ * const decoder = new FFmpegDecoder('input.mp4');
+ * const snapped = snapToKeyframes(result, await decoder.getKeyframes(), 12);
+ * ```
+ */
+export function snapToKeyframes(result: DetectionResult, keyframes: number[], tolerance: number): DetectionResult {
+  if (!Number.isInteger(tolerance) || tolerance < 0) {
+    throw new Error(`Invalid tolerance: ${tolerance} (must be a non-negative integer)`);
+  }
+
+  const sortedKeyframes = Array.from(new Set(keyframes)).sort((a, b) => a - b);
+
+  const scenes = result.scenes.map(scene => {
+    const keyframe = nearestKeyframe(sortedKeyframes, scene.frameNumber);
+
+    if (keyframe === null || keyframe === scene.frameNumber || Math.abs(keyframe - scene.frameNumber) > tolerance) {
+      return scene;
+    }
+
+    return { ...scene, ...createScene(result.metadata, keyframe) };
+  });
+
+  return { ...result, scenes: sortScenes(scenes) };
+}
+
+/**
+ * Shift every cut by a number of frames
+ *
+ * For a video that was trimmed (negative offset) or padded (positive
+ * offset) at the start. Cuts that end up past the end of the video are
+ * dropped; of those that fall before frame 0, the last one moves to frame
+ * 0, since its scene now opens the video.
+ *
+ * @param result Detection result
+ * @param offset Frames to add to every frame number
+ * @returns Result for the shifted video
+ */
+export function offsetScenes(result: DetectionResult, offset: number): DetectionResult {
+  if (!Number.isInteger(offset)) {
+    throw new Error(`Invalid offset: ${offset} (must be an integer)`);
+  }
+
+  const metadata = offsetMetadata(result.metadata, offset);
+  const sorted = sortScenes(result.scenes);
+  const scenes: SceneInfo[] = [];
+
+  sorted.forEach((scene, i) => {
+    const frameNumber = scene.frameNumber + offset;
+    const next = sorted[i + 1];
+
+    if (frameNumber < 0 && next && next.frameNumber + offset <= 0) {
+      return;
+    }
+    if (frameNumber >= metadata.totalFrames) {
+      return;
+    }
+
+    scenes.push({ ...scene, ...createScene(metadata, Math.max(0, frameNumber)) });
+  });
+
+  return { ...result, metadata, scenes };
+}
+
+/**
+ * Convert frame numbers to another frame rate
+ *
+ * By default each cut keeps its time and moves to the nearest frame at the
+ * new rate (a re-encode at a different rate). With `preserve: 'frames'`
+ * frame numbers stay and timestamps are rescaled (a speed change such as
+ * 24 to 25 fps PAL speedup).
+ *
+ * @param result Detection result
+ * @param fps New frame rate
+ * @param options What to preserve
+ * @returns Result at the new frame rate
+ *
+ * @example
+ * ```typescript
+ * const ntsc = convertFrameRate(result, { num: 30000, den: 1001 });
+ * ```
+ */
+export function convertFrameRate(
+  result: DetectionResult,
+  fps: number | Rational,
+  options: FrameRateConversionOptions = {}
+): DetectionResult {
+  const preserve = options.preserve || 'time';
+  const rate = typeof fps === 'number' ? fps : fps.num / fps.den;
+
+  if (!Number.isFinite(rate) || rate <= 0) {
+    throw new Error(`Invalid frame rate: ${typeof fps === 'number' ? fps : `${fps.num}/${fps.den}`}`);
+  }
+  if (preserve !== 'time' && preserve !== 'frames') {
+    throw new Error(`Invalid preserve option: ${preserve} (must be 'time' or 'frames')`);
+  }
+
+  const source = result.metadata;
+  const totalFrames = preserve === 'time' ? Math.round(source.duration * rate) : source.totalFrames;
+  const { timestamps, vfr, frameRate, ...rest } = source;
+  const metadata: VideoMetadata = {
+    ...rest,
+    totalFrames,
+    duration: preserve === 'time' ? source.duration : totalFrames / rate,
+    fps: rate,
+    ...(typeof fps === 'number' ? {} : { frameRate: { num: fps.num, den: fps.den } })
+  };
+
+  const scenes = result.scenes.map(scene => {
+    const frameNumber = preserve === 'time' ? Math.round(scene.timestamp * rate) : scene.frameNumber;
+    return { ...scene, ...createScene(metadata, frameNumber) };
+  });
+
+  return { ...result, metadata, scenes: sortScenes(scenes) };
+}
+
+/**
+ * Metadata for a video shifted by offset frames
+ */
+function offsetMetadata(metadata: VideoMetadata, offset: number): VideoMetadata {
+  const totalFrames = Math.max(0, metadata.totalFrames + offset);
+  let timestamps = metadata.timestamps;
+
+  if (timestamps && timestamps.length > 0) {
+    if (offset < 0) {
+      const base = timestamps[Math.min(-offset, timestamps.length - 1)];
+      timestamps = timestamps.slice(-offset).map(time => time - base);
+    } else {
+      // Padding frames get the nominal frame duration
+      const shift = offset / metadata.fps;
+      timestamps = [
+        ...Array.from({ length: offset }, (_, i) => i / metadata.fps),
+        ...timestamps.map(time => time + shift)
+      ];
+    }
+  }
+
+  return {
+    ...metadata,
+    totalFrames,
+    duration: Math.max(0, metadata.duration + offset / metadata.fps),
+    ...(timestamps ? { timestamps } : {})
+  };
+}
+
+/**
+ * Binary search for the keyframe closest to a frame (the earlier one on a tie)
+ */
+function nearestKeyframe(keyframes: number[], frameNumber: number): number | null {
+  if (keyframes.length === 0) {
+    return null;
+  }
+
+  let low = 0;
+  let high = keyframes.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (keyframes[mid] < frameNumber) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  // keyframes[low] is the first at or after frameNumber (or the last keyframe)
+  if (low > 0 && frameNumber - keyframes[low - 1] <= Math.abs(keyframes[low] - frameNumber)) {
+    return keyframes[low - 1];
+  }
+
+  return keyframes[low];
+}
+
+/**
+ * Frame number, timestamp and timecode of a scene starting on a frame
+ */
+function createScene(metadata: VideoMetadata, frameNumber: number): SceneInfo {
+  const timestamp = getFrameTimestamp(metadata, frameNumber);
+  return { frameNumber, timestamp, timecode: formatTimecode(timestamp) };
+}
+
+/**
+ * Sort scenes by frame number, keeping the first of any duplicates
+ */
+function sortScenes(scenes: SceneInfo[]): SceneInfo[] {
+  return scenes
+    .slice()
+    .sort((a, b) => a.frameNumber - b.frameNumber)
+    .filter((scene, i, all) => i === 0 || scene.frameNumber !== all[i - 1].frameNumber);
+}
+
+/**
+ * Check a scene length limit
+ */
+function validateLength(name: string, value: number): void {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`Invalid ${name}: ${value} (must be a positive integer)`);
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Temporal Smoothing - Post-filter for bursts of false scene changes
+ *
+ * Flashes, strobes and muzzle flares make MEanalysis fire on several
+ * frames in quick succession. Cuts closer together than the window size are
+ * grouped into a cluster; a cluster with at least minConsecutive cuts is a
+ * burst and is either merged into its first cut or dropped.
+ *
+ * A merged burst keeps its first cut rather than its strongest: a flash
+ * shortly after a real cut often scores higher than the cut itself, and the
+ * change starts at the first cut either way.
+ */
+
+import { SceneInfo, TemporalSmoothing } from '../types';
+
+export class TemporalSmoother {
+  private windowSize: number;
+  private minConsecutive: number;
+  private burstMode: 'merge' | 'drop';
+  private minSceneLength: number;
+
+  private cluster: SceneInfo[] = [];
+  private lastKept: number | null = null;
+
+  /**
+   * Create a new temporal smoother
+   *
+   * @param options Smoothing configuration (the enabled flag is ignored)
+   */
+  constructor(options: TemporalSmoothing) {
+    if (!Number.isInteger(options.windowSize) || options.windowSize < 1) {
+      throw new Error(`Invalid windowSize: ${options.windowSize} (must be a positive integer)`);
+    }
+
+    if (!Number.isInteger(options.minConsecutive) || options.minConsecutive < 1) {
+      throw new Error(`Invalid minConsecutive: ${options.minConsecutive} (must be a positive integer)`);
+    }
+
+    this.windowSize = options.windowSize;
+    this.minConsecutive = options.minConsecutive;
+    this.burstMode = options.burstMode || 'merge';
+    this.minSceneLength = options.minSceneLength || 0;
+  }
+
+  /**
+   * Add a detected scene change
+   *
+   * Scenes must be pushed in frame order. The first scene pushed marks the
+   * start of the video and is always kept.
+   *
+   * @param scene Detected scene change
+   * @returns Scenes that are now final, in frame order
+   */
+  push(scene: SceneInfo): SceneInfo[] {
+    if (this.lastKept === null && this.cluster.length === 0) {
+      this.lastKept = scene.frameNumber;
+      return [scene];
+    }
+
+    const last = this.cluster[this.cluster.length - 1];
+    if (last && scene.frameNumber <= last.frameNumber) {
+      throw new Error(
+        `Scenes must be pushed in frame order (got ${scene.frameNumber} after ${last.frameNumber})`
+      );
+    }
+
+    let finalized: SceneInfo[] = [];
+
+    // A gap of at least windowSize frames closes the current cluster
+    if (last && scene.frameNumber - last.frameNumber >= this.windowSize) {
+      finalized = this.resolveCluster();
+    }
+
+    this.cluster.push(scene);
+    return finalized;
+  }
+
+  /**
+   * Resolve any pending cluster (call once all scenes have been pushed)
+   *
+   * @returns Remaining final scenes, in frame order
+   */
+  flush(): SceneInfo[] {
+    return this.resolveCluster();
+  }
+
+  /**
+   * Reset the smoother to its initial state
+   */
+  reset(): void {
+    this.cluster = [];
+    this.lastKept = null;
+  }
+
+  /**
+   * Resolve the current cluster and apply the minimum scene length
+   */
+  private resolveCluster(): SceneInfo[] {
+    const cluster = this.cluster;
+    this.cluster = [];
+
+    let candidates: SceneInfo[];
+    if (cluster.length < this.minConsecutive) {
+      candidates = cluster;
+    } else if (this.burstMode === 'drop') {
+      candidates = [];
+    } else {
+      candidates = [cluster[0]];
+    }
+
+    const kept: SceneInfo[] = [];
+    for (const scene of candidates) {
+      if (this.lastKept !== null && scene.frameNumber - this.lastKept < this.minSceneLength) {
+        continue;
+      }
+      kept.push(scene);
+      this.lastKept = scene.frameNumber;
+    }
+
+    return kept;
+  }
+}
+
+/**
+ * Apply temporal smoothing to a complete scene list
+ *
+ * @param scenes Scene changes in frame order (the first one is always kept)
+ * @param options Smoothing configuration (the enabled flag is ignored)
+ * @returns Filtered scene list
+ */
+export function applyTemporalSmoothing(scenes: SceneInfo[], options: TemporalSmoothing): SceneInfo[] {
+  const smoother = new TemporalSmoother(options);
+  const result: SceneInfo[] = [];
+
+  for (const scene of scenes) {
+    result.push(...smoother.push(scene));
+  }
+  result.push(...smoother.flush());
+
+  return result;
+}
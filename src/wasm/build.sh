@@ -46,8 +46,8 @@ mkdir -p "$OUTPUT_DIR"
   -O3 \
   -msimd128 \
   -s WASM=1 \
-  -s EXPORTED_FUNCTIONS='["_MEanalysis_js","_calculate_padded_size","_pad_frame","_malloc","_free"]' \
-  -s EXPORTED_RUNTIME_METHODS='["ccall","cwrap","getValue","setValue","HEAPU8"]' \
+  -s EXPORTED_FUNCTIONS='["_MEanalysis_js","_calculate_padded_size","_pad_frame","_create_context","_destroy_context","_context_pad_frame","_context_swap_frames","_context_reset","_context_analyze","_malloc","_free"]' \
+  -s EXPORTED_RUNTIME_METHODS='["ccall","cwrap","getValue","setValue","HEAPU8","HEAP32"]' \
   -s MODULARIZE=1 \
   -s EXPORT_NAME='createWasmModule' \
   -s ALLOW_MEMORY_GROWTH=1 \
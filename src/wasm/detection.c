@@ -304,7 +304,8 @@ MEanalyzeMB (   const uint8_t * const pRef,
       const MBParam * const pParam,
       MACROBLOCK * const pMBs,
       SearchData * const Data,
-      const int fcode)
+      const int fcode,
+      const int temporalPredictor)
 {
 
    int i;
@@ -344,8 +345,9 @@ MEanalyzeMB (   const uint8_t * const pRef,
       pmv[2].x = Data->predMV.x;
       pmv[2].y = Data->predMV.y;
 
-      //if (!vector_repeats(pmv, 1)) // branch never taken
-      //   CheckCandidate32I(pmv[1].x, pmv[1].y, Data, 1);
+      /* pmv[0] is only non-zero when it holds the previous frame's vector */
+      if (temporalPredictor && !vector_repeats(pmv, 1))
+         CheckCandidate32I(pmv[1].x, pmv[1].y, Data, 1);
       if (!vector_repeats(pmv, 2))
          CheckCandidate32I(pmv[2].x, pmv[2].y, Data, 2);
 
@@ -413,12 +415,18 @@ MEanalysis(   const uint8_t *pRef,
       const MBParam * const pParam,
       MACROBLOCK * const pMBs,
       const int intraCount,
-      const int fcode)
+      const int fcode,
+      const int intraThresh,
+      const int intraThresh2,
+      const int temporalPredictor,
+      MEstats * const stats)
 {
    uint32_t x, y, intra = 0;
+   const uint32_t intraLimit = ((pParam->mb_height-2)*(pParam->mb_width-2))/2;
    int sSAD = 0;
-   int IntraThresh = 2000,
-       IntraThresh2 = 90;
+   int IntraThresh = intraThresh,
+       IntraThresh2 = intraThresh2;
+   int sceneChange = 0;
 
    int blocks = 10;
    int complexity = 0;
@@ -438,9 +446,11 @@ MEanalysis(   const uint8_t *pRef,
          int i;
          blocks += 10;
 
-         pMBs[x + y * pParam->mb_width].mvs[0] = (VECTOR){ 0, 0 };
+         /* without the temporal predictor every search starts from the zero vector */
+         if (!temporalPredictor)
+            pMBs[x + y * pParam->mb_width].mvs[0] = (VECTOR){ 0, 0 };
 
-         MEanalyzeMB(pRef, pCurrent, x, y, pParam, pMBs, &Data, fcode);
+         MEanalyzeMB(pRef, pCurrent, x, y, pParam, pMBs, &Data, fcode, temporalPredictor);
 
          for (i = 0; i < 4; i++) {
             int dev;
@@ -451,8 +461,11 @@ MEanalysis(   const uint8_t *pRef,
             complexity += VSMAX(dev, 300);
             if (dev + IntraThresh < pMB->sad16) {
                pMB->mode = MODE_INTRA;
-               if (++intra > ((pParam->mb_height-2)*(pParam->mb_width-2))/2)
-                  return 1;
+               if (++intra > intraLimit) {
+                  /* decided already - sSAD below only covers the blocks seen so far */
+                  sceneChange = 1;
+                  goto done;
+               }
             }
 
             if (pMB->mvs[0].x == 0 && pMB->mvs[0].y == 0)
@@ -463,9 +476,22 @@ MEanalysis(   const uint8_t *pRef,
          }
       }
    }
+
+done:
    complexity >>= 7;
 
    sSAD /= complexity + 4*blocks;
 
-   return sSAD > IntraThresh2;
+   if (!sceneChange)
+      sceneChange = sSAD > IntraThresh2;
+
+   if (stats) {
+      stats->intraBlocks = intra;
+      stats->intraLimit = intraLimit;
+      stats->sSAD = sSAD;
+      stats->intraThresh = IntraThresh;
+      stats->intraThresh2 = IntraThresh2;
+   }
+
+   return sceneChange;
 }
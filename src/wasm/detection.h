@@ -36,9 +36,22 @@ typedef struct {
 } SearchData;
 
 
+typedef struct {
+   int32_t intraBlocks;
+   int32_t intraLimit;
+   int32_t sSAD;
+   int32_t intraThresh;
+   int32_t intraThresh2;
+} MEstats;
+
+
 int MEanalysis(	const uint8_t *pRef,
             const uint8_t *pCurrent,
 			const MBParam * const pParam,
          MACROBLOCK * const pMBs,
          const int intraCount,
-         const int fcode);
+         const int fcode,
+         const int intraThresh,
+         const int intraThresh2,
+         const int temporalPredictor,
+         MEstats * const stats);
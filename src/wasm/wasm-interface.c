@@ -3,11 +3,38 @@
 #include <emscripten.h>
 #include "detection.h"
 
+/**
+ * Detection context - state kept in WASM memory between frame pairs
+ *
+ * Created once per resolution. It owns the two padded frames and the
+ * macroblock array, so analysing a pair allocates nothing, and the motion
+ * vectors of one pair are still there to seed the next pair's search.
+ */
+typedef struct {
+    MBParam param;
+    MACROBLOCK *mbs;
+    uint8_t *frames[2];  // reference and current padded frames, by slot
+    int current;         // index into frames of the current slot
+} DetectionContext;
+
+/**
+ * Fill in macroblock parameters for a frame size
+ */
+static void init_param(MBParam *param, uint32_t width, uint32_t height) {
+    param->width = width;
+    param->height = height;
+    param->mb_width = (width + 15) / 16;
+    param->mb_height = (height + 15) / 16;
+    param->edged_width = 16 * param->mb_width + 2 * 64;  // 64 = edge_size
+    param->edged_height = 16 * param->mb_height + 2 * 64;
+    param->edge_size = 64;
+}
+
 /**
  * JavaScript-callable wrapper for MEanalysis
  *
- * This function allocates necessary structures and calls the original
- * MEanalysis function from detection.c
+ * Stateless: allocates the macroblock array for this one call. WasmBridge
+ * uses a detection context instead (see create_context).
  *
  * @param pRefPtr Pointer to reference frame in WASM memory
  * @param pCurPtr Pointer to current frame in WASM memory
@@ -15,6 +42,9 @@
  * @param height Frame height (before padding)
  * @param intraCount Number of consecutive non-scene-change frames
  * @param fcode Motion search range parameter (4 = 256 pixels)
+ * @param intraThresh Base intra threshold (wwxd default: 2000)
+ * @param intraThresh2 Base sSAD threshold (wwxd default: 90)
+ * @param statsPtr Pointer to an MEstats struct to fill in, or 0 to skip
  * @return 1 if scene change detected, 0 otherwise
  */
 EMSCRIPTEN_KEEPALIVE
@@ -24,7 +54,10 @@ int MEanalysis_js(
     uint32_t width,
     uint32_t height,
     int intraCount,
-    int fcode
+    int fcode,
+    int intraThresh,
+    int intraThresh2,
+    uint32_t statsPtr
 ) {
     // Cast pointers from memory addresses
     const uint8_t *pRef = (const uint8_t*)pRefPtr;
@@ -32,13 +65,7 @@ int MEanalysis_js(
 
     // Calculate macroblock parameters
     MBParam param;
-    param.width = width;
-    param.height = height;
-    param.mb_width = (width + 15) / 16;
-    param.mb_height = (height + 15) / 16;
-    param.edged_width = 16 * param.mb_width + 2 * 64;  // 64 = edge_size
-    param.edged_height = 16 * param.mb_height + 2 * 64;
-    param.edge_size = 64;
+    init_param(&param, width, height);
 
     // Allocate macroblock array
     MACROBLOCK *pMBs = (MACROBLOCK*)malloc(param.mb_width * param.mb_height * sizeof(MACROBLOCK));
@@ -56,7 +83,11 @@ int MEanalysis_js(
         &param,
         pMBs,
         intraCount,
-        fcode
+        fcode,
+        intraThresh,
+        intraThresh2,
+        0,
+        (MEstats*)statsPtr
     );
 
     // Free allocated memory
@@ -175,3 +206,135 @@ void pad_frame(
         }
     }
 }
+
+/**
+ * Create a detection context for a frame size
+ *
+ * @param width Frame width (before padding)
+ * @param height Frame height (before padding)
+ * @return Pointer to the context, or 0 if allocation failed
+ */
+EMSCRIPTEN_KEEPALIVE
+uint32_t create_context(uint32_t width, uint32_t height) {
+    DetectionContext *ctx = (DetectionContext*)calloc(1, sizeof(DetectionContext));
+    if (!ctx) {
+        return 0;
+    }
+
+    init_param(&ctx->param, width, height);
+
+    uint32_t mbCount = ctx->param.mb_width * ctx->param.mb_height;
+    uint32_t paddedSize = ctx->param.edged_width * ctx->param.edged_height;
+
+    ctx->mbs = (MACROBLOCK*)calloc(mbCount, sizeof(MACROBLOCK));
+    ctx->frames[0] = (uint8_t*)malloc(paddedSize);
+    ctx->frames[1] = (uint8_t*)malloc(paddedSize);
+
+    if (!ctx->mbs || !ctx->frames[0] || !ctx->frames[1]) {
+        free(ctx->mbs);
+        free(ctx->frames[0]);
+        free(ctx->frames[1]);
+        free(ctx);
+        return 0;
+    }
+
+    return (uint32_t)ctx;
+}
+
+/**
+ * Free a detection context and everything it owns
+ *
+ * @param ctxPtr Pointer returned by create_context
+ */
+EMSCRIPTEN_KEEPALIVE
+void destroy_context(uint32_t ctxPtr) {
+    DetectionContext *ctx = (DetectionContext*)ctxPtr;
+    if (!ctx) {
+        return;
+    }
+
+    free(ctx->mbs);
+    free(ctx->frames[0]);
+    free(ctx->frames[1]);
+    free(ctx);
+}
+
+/**
+ * Pad a frame into one of the context's frame slots
+ *
+ * @param ctxPtr Pointer returned by create_context
+ * @param srcPtr Pointer to source frame data (context width x height)
+ * @param slot 0 for the reference frame, 1 for the current frame
+ */
+EMSCRIPTEN_KEEPALIVE
+void context_pad_frame(uint32_t ctxPtr, uint32_t srcPtr, int slot) {
+    DetectionContext *ctx = (DetectionContext*)ctxPtr;
+    uint8_t *dst = ctx->frames[slot ? ctx->current : 1 - ctx->current];
+
+    pad_frame(srcPtr, (uint32_t)dst, ctx->param.width, ctx->param.height);
+}
+
+/**
+ * Make the current frame the reference for the next pair
+ *
+ * The old reference slot becomes the current slot, ready to be overwritten.
+ *
+ * @param ctxPtr Pointer returned by create_context
+ */
+EMSCRIPTEN_KEEPALIVE
+void context_swap_frames(uint32_t ctxPtr) {
+    DetectionContext *ctx = (DetectionContext*)ctxPtr;
+    ctx->current = 1 - ctx->current;
+}
+
+/**
+ * Forget the motion vectors of earlier pairs
+ *
+ * Call before a pair that doesn't follow the last one, whose vectors would
+ * be poor predictors.
+ *
+ * @param ctxPtr Pointer returned by create_context
+ */
+EMSCRIPTEN_KEEPALIVE
+void context_reset(uint32_t ctxPtr) {
+    DetectionContext *ctx = (DetectionContext*)ctxPtr;
+    memset(ctx->mbs, 0, ctx->param.mb_width * ctx->param.mb_height * sizeof(MACROBLOCK));
+}
+
+/**
+ * Run MEanalysis on the context's reference and current frames
+ *
+ * @param ctxPtr Pointer returned by create_context
+ * @param intraCount Number of consecutive non-scene-change frames
+ * @param fcode Motion search range parameter (4 = 256 pixels)
+ * @param intraThresh Base intra threshold (wwxd default: 2000)
+ * @param intraThresh2 Base sSAD threshold (wwxd default: 90)
+ * @param temporalPredictor 1 to start each macroblock's search from its vector in the last pair
+ * @param statsPtr Pointer to an MEstats struct to fill in, or 0 to skip
+ * @return 1 if scene change detected, 0 otherwise
+ */
+EMSCRIPTEN_KEEPALIVE
+int context_analyze(
+    uint32_t ctxPtr,
+    int intraCount,
+    int fcode,
+    int intraThresh,
+    int intraThresh2,
+    int temporalPredictor,
+    uint32_t statsPtr
+) {
+    DetectionContext *ctx = (DetectionContext*)ctxPtr;
+
+    return MEanalysis(
+        ctx->frames[1 - ctx->current],
+        ctx->frames[ctx->current],
+        &ctx->param,
+        ctx->mbs,
+        intraCount,
+        fcode,
+        intraThresh,
+        intraThresh2,
+        temporalPredictor,
+        (MEstats*)statsPtr
+    );
+}
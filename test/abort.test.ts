@@ -0,0 +1,138 @@
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { DetectionOptions, WasmModule } from '../src/types';
+import { childProcesses, createClip, createTempDir, loadBundle, wasmBuilt, writeVideo } from './helpers';
+
+const { SceneDetector, AbortError, WasmBridge } = loadBundle();
+
+// Without the WASM module the same paths are exercised with a TypeScript comparator
+const algorithm = wasmBuilt ? 'wwxd' : 'scdet';
+
+const temp = createTempDir();
+const video = path.join(temp.dir, 'clip.mkv');
+
+beforeAll(async () => {
+  // 960 frames: enough for three worker segments
+  await writeVideo(video, createClip({ width: 160, height: 96, scenes: 24 }));
+});
+
+afterAll(() => temp.remove());
+
+/**
+ * Count WASM allocations (buffers and detection contexts) not yet freed,
+ * across every WasmBridge created on this thread
+ */
+function trackWasmAllocations(): { live: number; total: number } {
+  const counts = { live: 0, total: 0 };
+  const tracked = new WeakSet<WasmModule>();
+  const init = WasmBridge.prototype.init;
+
+  vi.spyOn(WasmBridge.prototype, 'init').mockImplementation(async function (this: InstanceType<typeof WasmBridge>) {
+    await init.call(this);
+
+    const module = (this as unknown as { module: WasmModule }).module;
+    if (tracked.has(module)) {
+      return;
+    }
+    tracked.add(module);
+
+    const { _malloc, _free, _create_context, _destroy_context } = module;
+    module._malloc = (size: number) => {
+      const ptr = _malloc(size);
+      if (ptr) {
+        counts.live++;
+        counts.total++;
+      }
+      return ptr;
+    };
+    module._free = (ptr: number) => {
+      if (ptr) counts.live--;
+      _free(ptr);
+    };
+    module._create_context = (width: number, height: number) => {
+      const ptr = _create_context(width, height);
+      if (ptr) {
+        counts.live++;
+        counts.total++;
+      }
+      return ptr;
+    };
+    module._destroy_context = (ptr: number) => {
+      if (ptr) counts.live--;
+      _destroy_context(ptr);
+    };
+  });
+
+  return counts;
+}
+
+/**
+ * Start detection and abort it once 100 frames have been analysed
+ *
+ * @returns The rejection, and the most ffmpeg processes seen while running
+ */
+async function abortMidway(options: DetectionOptions) {
+  const controller = new AbortController();
+  let running = 0;
+
+  const detector = new SceneDetector({
+    ...options,
+    signal: controller.signal,
+    onProgress: progress => {
+      running = Math.max(running, childProcesses().length);
+      if (progress.currentFrame >= 100) {
+        controller.abort();
+      }
+    }
+  });
+
+  const error = await detector.detect(video).then(() => null, (err: unknown) => err);
+  return { detector, error, running };
+}
+
+describe('aborting detection', () => {
+  it.each([1, 3])('stops ffmpeg with %i worker(s)', async workers => {
+    const { detector, error, running } = await abortMidway({ algorithm, workers });
+
+    expect(error).toBeInstanceOf(AbortError);
+    expect(running).toBeGreaterThan(0);
+    expect(childProcesses()).toEqual([]);
+
+    detector.destroy();
+  });
+
+  it('stops ffmpeg in progressive mode', async () => {
+    const { detector, error } = await abortMidway({
+      algorithm,
+      progressive: { enabled: true, initialStep: 8, refinementSteps: [2] }
+    });
+
+    expect(error).toBeInstanceOf(AbortError);
+    expect(childProcesses()).toEqual([]);
+
+    detector.destroy();
+  });
+
+  it('rejects before starting ffmpeg when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const detector = new SceneDetector({ algorithm, signal: controller.signal });
+
+    await expect(detector.detect(video)).rejects.toBeInstanceOf(AbortError);
+    expect(childProcesses()).toEqual([]);
+  });
+
+  it.skipIf(!wasmBuilt).each([1, 3])('frees the WASM buffers with %i worker(s)', async workers => {
+    const allocations = trackWasmAllocations();
+
+    const { detector, error } = await abortMidway({ workers });
+
+    expect(error).toBeInstanceOf(AbortError);
+    expect(allocations.total).toBeGreaterThan(0);
+    expect(allocations.live).toBe(0);
+
+    detector.destroy();
+    vi.restoreAllMocks();
+  });
+});
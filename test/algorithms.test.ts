@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { SceneDetector } from '../src/detection/detector';
+import { DetectionOptions } from '../src/types';
+import { createClip, cutFrames, frameSource } from './helpers';
+
+// Cuts at 40, 80, 120, 160 and 200
+const frames = createClip({ scenes: 6 });
+const truth = [40, 80, 120, 160, 200];
+
+const detect = async (options: DetectionOptions) =>
+  cutFrames(await new SceneDetector(options).detect(frameSource(frames)));
+
+describe('TypeScript algorithms', () => {
+  it.each([
+    ['histogram', { algorithm: 'histogram', threshold: 0.1 }],
+    ['scdet', { algorithm: 'scdet', sensitivity: 'high' }],
+    ['adaptive', { algorithm: 'adaptive' }]
+  ] as [string, DetectionOptions][])('find every cut with %s', async (_, options) => {
+    expect(await detect(options)).toEqual(truth);
+  });
+
+  it('report the score behind each cut', async () => {
+    const { scenes } = await new SceneDetector({ algorithm: 'scdet', threshold: 5 }).detect(frameSource(frames));
+
+    for (const scene of scenes.slice(1)) {
+      expect(scene.metrics).toMatchObject({ threshold: 5 });
+      expect(scene.metrics!.score).toBeGreaterThan(5);
+    }
+  });
+});
+
+describe('without the WASM module', () => {
+  // From the source tree the bridge looks for src/dist/detection.wasm.js,
+  // which is never built, just as a package without the WASM build would
+  it('fails the default algorithm with a pointer to the others', async () => {
+    const detection = new SceneDetector().detect(frameSource(frames));
+
+    await expect(detection).rejects.toThrow('WASM module not found');
+    await expect(detection).rejects.toThrow("pick an algorithm that doesn't need it ('histogram', 'scdet' or 'adaptive')");
+  });
+
+  it('still detects with the TypeScript algorithms', async () => {
+    await expect(detect({ algorithm: 'wwxd' })).rejects.toThrow('WASM module not found');
+    expect(await detect({ algorithm: 'adaptive' })).toEqual(truth);
+  });
+});
@@ -0,0 +1,108 @@
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { SceneDetector } from '../src/detection/detector';
+import { DetectionOptions } from '../src/types';
+import { createClip, createTempDir, cutFrames, frameSource, loadBundle, wasmBuilt, writeVideo } from './helpers';
+
+/** Cuts a downscaled run may miss or add compared with the full-resolution run */
+const TOLERANCE = 1;
+
+/** Analysis heights for the 640x384 clip: half, a third and a quarter */
+const HEIGHTS = [192, 128, 96];
+
+/**
+ * Cuts in one list but not the other
+ */
+function differences(found: number[], reference: number[]): number {
+  const missed = reference.filter(frame => !found.includes(frame)).length;
+  const extra = found.filter(frame => !reference.includes(frame)).length;
+  return missed + extra;
+}
+
+// Cuts at 40, 80, 120, 160 and 200
+const frames = createClip({ width: 640, height: 384, scenes: 6 });
+const truth = [40, 80, 120, 160, 200];
+
+const temp = createTempDir();
+const file = path.join(temp.dir, 'clip.mkv');
+
+beforeAll(() => writeVideo(file, frames));
+afterAll(() => temp.remove());
+
+describe('analysisResolution with the adaptive algorithm', () => {
+  const detect = async (input: string | ReturnType<typeof frameSource>, analysisResolution?: number) =>
+    cutFrames(await new SceneDetector({ algorithm: 'adaptive', analysisResolution }).detect(input));
+
+  it('finds every cut at the source resolution', async () => {
+    expect(await detect(frameSource(frames))).toEqual(truth);
+  });
+
+  it.each(HEIGHTS)('stays within tolerance of the full-resolution run at %ip (box filter)', async height => {
+    const full = await detect(frameSource(frames));
+    const downscaled = await detect(frameSource(frames), height);
+
+    expect(differences(downscaled, full)).toBeLessThanOrEqual(TOLERANCE);
+  });
+
+  it('stays within tolerance when ffmpeg scales a video file', async () => {
+    const full = await detect(file);
+    const downscaled = await detect(file, 192);
+
+    expect(full).toEqual(truth);
+    expect(differences(downscaled, full)).toBeLessThanOrEqual(TOLERANCE);
+  });
+});
+
+describe.skipIf(!wasmBuilt)('analysisResolution with each wwxd preset', () => {
+  // A qHD clip with clean and blended cuts, so each preset finds a different set
+  const qhd = createClip({ width: 960, height: 540, scenes: 8, blend: [1, 0.5, 1, 0.35, 1, 0.25, 1] });
+
+  it.each(['low', 'medium', 'high'] as const)('keeps the full-resolution cuts with unchanged thresholds (%s)', async sensitivity => {
+    const { SceneDetector } = loadBundle();
+    const detect = async (analysisResolution?: number) =>
+      cutFrames(await new SceneDetector({ sensitivity, analysisResolution }).detect(frameSource(qhd)));
+
+    const full = await detect();
+
+    expect(full.length).toBeGreaterThan(2);
+    expect(await detect(360)).toEqual(full);
+    expect(await detect(270)).toEqual(full);
+    // Below 480x270, raising intraThresh2 for the smaller grid lost up to three cuts here
+    expect(differences(await detect(216), full)).toBeLessThanOrEqual(TOLERANCE);
+  });
+});
+
+describe.skipIf(!wasmBuilt)('analysisResolution with wwxd', () => {
+  const detect = async (input: string | ReturnType<typeof frameSource>, options: DetectionOptions = {}) => {
+    const { SceneDetector } = loadBundle();
+    return cutFrames(await new SceneDetector({ sensitivity: 'high', ...options }).detect(input));
+  };
+
+  let full: number[];
+  beforeAll(async () => {
+    full = await detect(frameSource(frames));
+  });
+
+  it('finds every cut at the source resolution', () => {
+    expect(full).toEqual(truth);
+  });
+
+  it.each(HEIGHTS)('stays within tolerance of the full-resolution run at %ip (box filter)', async height => {
+    const downscaled = await detect(frameSource(frames), { analysisResolution: height });
+
+    expect(differences(downscaled, full)).toBeLessThanOrEqual(TOLERANCE);
+  });
+
+  it('stays within tolerance at the default sensitivity', async () => {
+    const medium = await detect(frameSource(frames), { sensitivity: 'medium' });
+    const downscaled = await detect(frameSource(frames), { sensitivity: 'medium', analysisResolution: 192 });
+
+    expect(differences(downscaled, medium)).toBeLessThanOrEqual(TOLERANCE);
+  });
+
+  it('stays within tolerance when ffmpeg scales a video file', async () => {
+    const downscaled = await detect(file, { analysisResolution: 192 });
+
+    expect(differences(downscaled, full)).toBeLessThanOrEqual(TOLERANCE);
+  });
+});
@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { SceneDetector } from '../src/detection/detector';
+import { Y4mDecoder } from '../src/decoder/y4m-decoder';
+import { chromaPlaneSize } from '../src/utils/chroma-histogram';
+import { RawFrame } from '../src/types';
+import { createClip, createRandom, createTempDir, cutFrames, frameSource, writeVideo } from './helpers';
+
+const WIDTH = 160;
+const HEIGHT = 96;
+
+/** U/V values of each 40-frame scene: a change of color, never of brightness */
+const COLORS: [number, number][] = [[90, 170], [170, 90], [110, 110]];
+
+/**
+ * One unbroken pan in luma, with the color changing at frames 40 and 80
+ */
+function colorOnlyClip(): RawFrame[] {
+  const luma = createClip({ width: WIDTH, height: HEIGHT, sceneLength: 120, scenes: 1 });
+  const size = chromaPlaneSize(WIDTH, HEIGHT);
+
+  return luma.map(frame => {
+    const [u, v] = COLORS[Math.floor(frame.frameNumber / 40)];
+    const random = createRandom(frame.frameNumber + 1);
+    const plane = (value: number) => Uint8Array.from({ length: size }, () => value + (random() & 3));
+
+    return { ...frame, u: plane(u), v: plane(v) };
+  });
+}
+
+/**
+ * Write frames as YUV4MPEG2, with chroma at 4:2:0, at 4:4:4 (each sample
+ * repeated over its 2x2 block), or not at all
+ */
+function writeY4m(file: string, frames: RawFrame[], colorspace: '420jpeg' | '444' | 'mono'): void {
+  const chunks: Buffer[] = [Buffer.from(`YUV4MPEG2 W${WIDTH} H${HEIGHT} F24:1 Ip A1:1 C${colorspace}\n`)];
+  const halfWidth = Math.ceil(WIDTH / 2);
+
+  const fullSize = (plane: Uint8Array) => {
+    const full = new Uint8Array(WIDTH * HEIGHT);
+    for (let y = 0; y < HEIGHT; y++) {
+      for (let x = 0; x < WIDTH; x++) {
+        full[y * WIDTH + x] = plane[(y >> 1) * halfWidth + (x >> 1)];
+      }
+    }
+    return full;
+  };
+
+  for (const frame of frames) {
+    chunks.push(Buffer.from('FRAME\n'), Buffer.from(frame.data));
+    if (colorspace === '420jpeg') {
+      chunks.push(Buffer.from(frame.u!), Buffer.from(frame.v!));
+    } else if (colorspace === '444') {
+      chunks.push(Buffer.from(fullSize(frame.u!)), Buffer.from(fullSize(frame.v!)));
+    }
+  }
+
+  fs.writeFileSync(file, Buffer.concat(chunks));
+}
+
+/**
+ * Read the first count frames of a .y4m file, then stop
+ */
+async function readFrames(decoder: Y4mDecoder, count: number): Promise<RawFrame[]> {
+  const read: RawFrame[] = [];
+  await decoder.extractFrames(frame => {
+    read.push(frame);
+    return read.length < count;
+  });
+  return read;
+}
+
+const frames = colorOnlyClip();
+const temp = createTempDir();
+afterAll(() => temp.remove());
+
+const lumaOnly = { algorithm: 'adaptive' as const };
+const withChroma = { ...lumaOnly, chroma: { enabled: true } };
+
+describe('chroma detection on clips that differ only in color', () => {
+  it('finds no cuts in luma alone', async () => {
+    const result = await new SceneDetector(lumaOnly).detect(frameSource(frames));
+    expect(cutFrames(result)).toEqual([]);
+  });
+
+  it('adds the color changes from a frame source', async () => {
+    const result = await new SceneDetector(withChroma).detect(frameSource(frames));
+
+    expect(cutFrames(result)).toEqual([40, 80]);
+    expect(result.scenes[1].metrics.chromaDifference).toBeGreaterThan(0.9);
+  });
+
+  it('keeps the color planes of 4:2:0 .y4m files', async () => {
+    const file = path.join(temp.dir, 'color-420.y4m');
+    writeY4m(file, frames, '420jpeg');
+
+    const result = await new SceneDetector(withChroma).detect(file);
+    expect(cutFrames(result)).toEqual([40, 80]);
+
+    const decoded = await readFrames(new Y4mDecoder(file, { chroma: true }), 51);
+    expect(decoded[50].u).toEqual(frames[50].u);
+    expect(decoded[50].v).toEqual(frames[50].v);
+  });
+
+  it('resamples the color planes of 4:4:4 .y4m files to 4:2:0', async () => {
+    const file = path.join(temp.dir, 'color-444.y4m');
+    writeY4m(file, frames, '444');
+
+    const decoded = await readFrames(new Y4mDecoder(file, { chroma: true }), 91);
+    expect(decoded[90].u).toEqual(frames[90].u);
+    expect(decoded[90].v).toEqual(frames[90].v);
+
+    const result = await new SceneDetector(withChroma).detect(file);
+    expect(cutFrames(result)).toEqual([40, 80]);
+  });
+
+  it('finds the same cuts in a video decoded by ffmpeg', async () => {
+    const file = path.join(temp.dir, 'color.mkv');
+    await writeVideo(file, frames);
+
+    const result = await new SceneDetector(withChroma).detect(file);
+    expect(cutFrames(result)).toEqual([40, 80]);
+  });
+
+  it('reads only luma from .y4m files without chroma detection', async () => {
+    const file = path.join(temp.dir, 'color-420.y4m');
+
+    const [frame] = await readFrames(new Y4mDecoder(file), 1);
+    expect(frame.u).toBeUndefined();
+    expect(frame.data).toEqual(frames[0].data);
+  });
+
+  it('rejects mono .y4m files when chroma detection is on', async () => {
+    const file = path.join(temp.dir, 'mono.y4m');
+    writeY4m(file, frames, 'mono');
+
+    await expect(new SceneDetector(withChroma).detect(file)).rejects.toThrow('Y4M stream has no color planes (Cmono)');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { exportScenes } from '../src/export/exporters';
+import { formatTimecode } from '../src/utils/frame-processor';
+import { DetectionResult, SceneInfo } from '../src/types';
+
+/**
+ * Golden files: the expected output of each format lives in
+ * test/fixtures/encoder-formats. After an intended format change, run
+ * `npx vitest run -u test/encoder-formats.test.ts` and review the diff.
+ */
+
+const FPS = 24000 / 1001;
+
+function scene(frameNumber: number): SceneInfo {
+  const timestamp = frameNumber / FPS;
+  return { frameNumber, timestamp, timecode: formatTimecode(timestamp), confidence: 1 };
+}
+
+// An NTSC-rate episode: the first frame, a cut on a non-whole millisecond, one past an hour
+const result: DetectionResult = {
+  scenes: [0, 1, 250, 2158, 34046, 86400].map(scene),
+  metadata: {
+    totalFrames: 90000,
+    duration: 90000 / FPS,
+    fps: FPS,
+    resolution: { width: 1920, height: 1080 }
+  }
+};
+
+const golden = (name: string) => `./fixtures/encoder-formats/${name}`;
+
+describe('encoder formats', () => {
+  it('writes a qpfile', async () => {
+    await expect(exportScenes(result, 'qpfile')).toMatchFileSnapshot(golden('qpfile.txt'));
+    await expect(exportScenes(result, 'qpfile', { frameType: 'K', qp: 18 }))
+      .toMatchFileSnapshot(golden('qpfile-keyframe-qp.txt'));
+  });
+
+  it('rejects an out-of-range QP', () => {
+    expect(() => exportScenes(result, 'qpfile', { qp: 70 })).toThrow('Invalid QP: 70');
+  });
+
+  it('writes ffmpeg force_key_frames values', async () => {
+    await expect(exportScenes(result, 'ffmpeg')).toMatchFileSnapshot(golden('force-key-frames.txt'));
+    await expect(exportScenes(result, 'ffmpeg', { mode: 'expr' }))
+      .toMatchFileSnapshot(golden('force-key-frames-expr.txt'));
+  });
+
+  it('writes av1an scenes', async () => {
+    await expect(exportScenes(result, 'av1an')).toMatchFileSnapshot(golden('av1an-scenes.json'));
+  });
+
+  it('writes Matroska XML chapters', async () => {
+    await expect(exportScenes(result, 'matroska-chapters')).toMatchFileSnapshot(golden('chapters.xml'));
+    await expect(exportScenes(result, 'matroska-chapters', { nameTemplate: 'Cut <{frame}> & {timecode}', language: 'jpn' }))
+      .toMatchFileSnapshot(golden('chapters-named.xml'));
+  });
+
+  it('writes OGM chapters', async () => {
+    await expect(exportScenes(result, 'ogm-chapters')).toMatchFileSnapshot(golden('chapters.txt'));
+    await expect(exportScenes(result, 'ogm-chapters', { nameTemplate: '#{n} at frame {frame}' }))
+      .toMatchFileSnapshot(golden('chapters-named.txt'));
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import {
+  exportAegisub,
+  exportCSV,
+  exportEDL,
+  exportJSON,
+  exportScenes,
+  exportTimecodes,
+  formatSmpteTimecode
+} from '../src/export/exporters';
+import { formatTimecode } from '../src/utils/frame-processor';
+import { DetectionResult, SceneInfo } from '../src/types';
+
+/**
+ * Golden files: the expected output of each format lives in
+ * test/fixtures/exporters. After an intended format change, run
+ * `npx vitest run -u test/exporters.test.ts` and review the diff.
+ */
+
+const FPS = 30000 / 1001;
+
+function scene(frameNumber: number, confidence?: number): SceneInfo {
+  const timestamp = frameNumber / FPS;
+  return { frameNumber, timestamp, timecode: formatTimecode(timestamp), confidence };
+}
+
+// A 29.97 fps broadcast: cuts either side of the first dropped frame numbers and at ten minutes
+const result: DetectionResult = {
+  scenes: [scene(0, 1), scene(1799, 0.82), scene(1800, 0.5), scene(17982), scene(53946, 0.97)],
+  metadata: {
+    totalFrames: 54000,
+    duration: 54000 / FPS,
+    fps: FPS,
+    resolution: { width: 720, height: 480 }
+  }
+};
+
+const golden = (name: string) => `./fixtures/exporters/${name}`;
+
+describe('formatSmpteTimecode', () => {
+  it('drops frame numbers 00 and 01 at each minute except every tenth at 29.97', () => {
+    expect(formatSmpteTimecode(0, FPS, true)).toBe('00:00:00;00');
+    expect(formatSmpteTimecode(1799, FPS, true)).toBe('00:00:59;29');
+    expect(formatSmpteTimecode(1800, FPS, true)).toBe('00:01:00;02');
+    expect(formatSmpteTimecode(17981, FPS, true)).toBe('00:09:59;29');
+    expect(formatSmpteTimecode(17982, FPS, true)).toBe('00:10:00;00');
+    expect(formatSmpteTimecode(107892, FPS, true)).toBe('01:00:00;00');
+  });
+
+  it('drops four frame numbers at 59.94', () => {
+    expect(formatSmpteTimecode(3599, 60000 / 1001, true)).toBe('00:00:59;59');
+    expect(formatSmpteTimecode(3600, 60000 / 1001, true)).toBe('00:01:00;04');
+    expect(formatSmpteTimecode(35964, 60000 / 1001, true)).toBe('00:10:00;00');
+  });
+
+  it('counts every frame without drop-frame', () => {
+    expect(formatSmpteTimecode(1800, FPS)).toBe('00:01:00:00');
+    expect(formatSmpteTimecode(17982, FPS)).toBe('00:09:59:12');
+    expect(formatSmpteTimecode(86399, 24)).toBe('00:59:59:23');
+    expect(formatSmpteTimecode(90000, 25)).toBe('01:00:00:00');
+  });
+
+  it('rejects invalid input', () => {
+    expect(() => formatSmpteTimecode(-1, FPS)).toThrow('Invalid frame number: -1');
+    expect(() => formatSmpteTimecode(1.5, FPS)).toThrow('Invalid frame number: 1.5');
+    expect(() => formatSmpteTimecode(0, 0)).toThrow('Invalid frame rate: 0');
+    expect(() => formatSmpteTimecode(0, 25, true))
+      .toThrow('Drop-frame timecode requires 29.97 or 59.94 fps (got 25)');
+  });
+});
+
+describe('exporters', () => {
+  it('writes a CMX3600 EDL', async () => {
+    await expect(exportEDL(result)).toMatchFileSnapshot(golden('ndf.edl'));
+    await expect(exportEDL(result, { title: 'Episode 1', fcm: 'DROP FRAME', reel: 'TAPE01', clipName: 'ep01.mkv' }))
+      .toMatchFileSnapshot(golden('df.edl'));
+  });
+
+  it('limits an EDL to 999 events', () => {
+    const long: DetectionResult = {
+      ...result,
+      scenes: Array.from({ length: 1000 }, (_, i) => scene(i * 50)),
+      metadata: { ...result.metadata, totalFrames: 50000 }
+    };
+    expect(() => exportEDL(long)).toThrow('CMX3600 EDLs are limited to 999 events (got 1000 scenes)');
+  });
+
+  it('writes CSV', async () => {
+    await expect(exportCSV(result)).toMatchFileSnapshot(golden('scenes.csv'));
+    await expect(exportCSV(result, { header: false, delimiter: '\t' })).toMatchFileSnapshot(golden('scenes.tsv'));
+  });
+
+  it('quotes CSV fields that contain the delimiter or a quote', () => {
+    const quoted: DetectionResult = {
+      ...result,
+      scenes: [
+        { frameNumber: 0, timestamp: 0, timecode: '00:00:00,000' },
+        { frameNumber: 1798, timestamp: 60, timecode: '1\'00"', confidence: 0.5 }
+      ]
+    };
+    expect(exportCSV(quoted)).toBe(
+      'frame,timestamp,timecode,confidence\n' +
+      '0,0,"00:00:00,000",\n' +
+      '1798,60,"1\'00""",0.5\n'
+    );
+    // Timecodes hold colons, so a colon delimiter quotes every one of them
+    expect(exportCSV(quoted, { header: false, delimiter: ':' }).split('\n')[1])
+      .toBe('1798:60:"1\'00""":0.5');
+  });
+
+  it('dispatches each format to its exporter', async () => {
+    expect(exportScenes(result, 'json')).toBe(exportJSON(result));
+    expect(exportScenes(result, 'csv', { delimiter: ';' })).toBe(exportCSV(result, { delimiter: ';' }));
+    expect(exportScenes(result, 'edl', { fcm: 'DROP FRAME' })).toBe(exportEDL(result, { fcm: 'DROP FRAME' }));
+    expect(exportScenes(result, 'aegisub')).toBe(exportAegisub(result));
+    expect(exportScenes(result, 'timecode')).toBe(exportTimecodes(result));
+
+    await expect(exportScenes(result, 'json')).toMatchFileSnapshot(golden('scenes.json'));
+    await expect(exportScenes(result, 'aegisub')).toMatchFileSnapshot(golden('keyframes.txt'));
+    await expect(exportScenes(result, 'timecode')).toMatchFileSnapshot(golden('timecodes.txt'));
+  });
+
+  it('rejects an unknown format', () => {
+    expect(() => exportScenes(result, 'srt' as any)).toThrow('Unknown export format: srt');
+  });
+});
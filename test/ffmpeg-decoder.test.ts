@@ -0,0 +1,119 @@
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { FFmpegDecoder } from '../src/decoder/ffmpeg-decoder';
+import { RawFrame } from '../src/types';
+import { createTempDir, writeVideo } from './helpers';
+
+/**
+ * Frames whose pixels identify them, so any mix-up between frames shows
+ */
+function numberedFrames(count: number, width: number, height: number): RawFrame[] {
+  return Array.from({ length: count }, (_, frameNumber) => {
+    const data = new Uint8Array(width * height);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = (i * 7 + frameNumber * 31) & 255;
+    }
+    return { data, width, height, stride: width, pts: frameNumber / 24, frameNumber };
+  });
+}
+
+/**
+ * Consumer that takes its time over each frame and records what it saw
+ */
+function slowConsumer(delay: number) {
+  const seen: number[] = [];
+  const mismatched: number[] = [];
+  let active = 0;
+  let maxActive = 0;
+
+  const onFrame = async (frame: RawFrame, expected?: RawFrame[]) => {
+    active++;
+    maxActive = Math.max(maxActive, active);
+
+    // Check the pixels before yielding: a reused buffer would be overwritten meanwhile
+    if (expected && !Buffer.from(frame.data).equals(Buffer.from(expected[frame.frameNumber].data))) {
+      mismatched.push(frame.frameNumber);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, delay));
+
+    if (expected && !Buffer.from(frame.data).equals(Buffer.from(expected[frame.frameNumber].data))) {
+      mismatched.push(frame.frameNumber);
+    }
+
+    seen.push(frame.frameNumber);
+    frame.release?.();
+    active--;
+  };
+
+  return { seen, mismatched, onFrame, maxActive: () => maxActive };
+}
+
+const temp = createTempDir();
+afterAll(() => temp.remove());
+
+describe('FFmpegDecoder with a slow consumer', () => {
+  const frames = numberedFrames(48, 160, 96);
+  const file = path.join(temp.dir, 'numbered.mkv');
+
+  beforeAll(() => writeVideo(file, frames));
+
+  it('delivers every frame in order, one at a time', async () => {
+    const consumer = slowConsumer(5);
+
+    await new FFmpegDecoder(file).extractFrames(frame => consumer.onFrame(frame, frames));
+
+    expect(consumer.seen).toEqual(frames.map(frame => frame.frameNumber));
+    expect(consumer.maxActive()).toBe(1);
+    expect(consumer.mismatched).toEqual([]);
+  });
+
+  it('does the same for a frame range', async () => {
+    const consumer = slowConsumer(5);
+
+    await new FFmpegDecoder(file).extractFrameRange(10, 30, 1, frame => consumer.onFrame(frame, frames));
+
+    expect(consumer.seen).toEqual(frames.slice(10, 31).map(frame => frame.frameNumber));
+    expect(consumer.maxActive()).toBe(1);
+    expect(consumer.mismatched).toEqual([]);
+  });
+
+  it('stops when the consumer returns false', async () => {
+    const seen: number[] = [];
+
+    await new FFmpegDecoder(file).extractFrames(async frame => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      seen.push(frame.frameNumber);
+      return frame.frameNumber < 9;
+    });
+
+    expect(seen).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it('matches frames to their timestamps when fetching a list', async () => {
+    const fetched = await new FFmpegDecoder(file).extractFrames([30, 5, 12, 47]);
+
+    expect(fetched.map(frame => frame.frameNumber)).toEqual([30, 5, 12, 47]);
+    for (const frame of fetched) {
+      expect(Buffer.from(frame.data).equals(Buffer.from(frames[frame.frameNumber].data))).toBe(true);
+    }
+  });
+});
+
+describe('FFmpegDecoder with 4K frames', () => {
+  // Each 3840x2160 frame is larger than a fixed 8 MB buffer
+  const frames = numberedFrames(4, 3840, 2160);
+  const file = path.join(temp.dir, 'numbered-4k.mkv');
+
+  beforeAll(() => writeVideo(file, frames));
+
+  it('delivers frames larger than any pipe chunk without overflowing', async () => {
+    const consumer = slowConsumer(50);
+
+    await new FFmpegDecoder(file).extractFrames(frame => consumer.onFrame(frame, frames));
+
+    expect(consumer.seen).toEqual([0, 1, 2, 3]);
+    expect(consumer.maxActive()).toBe(1);
+    expect(consumer.mismatched).toEqual([]);
+  });
+});
@@ -0,0 +1,184 @@
+import { Readable } from 'stream';
+import { describe, expect, it } from 'vitest';
+import { SceneDetector } from '../src/detection/detector';
+import { PushFrameSource, ReadableFrameSource } from '../src/decoder/frame-source';
+import { FrameComparator, RawFrame } from '../src/types';
+import { createClip, cutFrames } from './helpers';
+
+// Cuts at 40, 80 and 120; the adaptive comparator needs no WASM module or ffmpeg
+const frames = createClip({ width: 160, height: 96 });
+const options = { algorithm: 'adaptive' as const };
+
+/**
+ * Push frames until detection stops, then end the source
+ *
+ * @returns What each push() resolved to
+ */
+async function feed(source: PushFrameSource, list: RawFrame[]): Promise<boolean[]> {
+  const accepted: boolean[] = [];
+
+  try {
+    for (const frame of list) {
+      const more = await source.push(frame);
+      accepted.push(more);
+      if (!more) {
+        break;
+      }
+    }
+  } finally {
+    source.end();
+  }
+
+  return accepted;
+}
+
+function pushSource(totalFrames?: number): PushFrameSource {
+  return new PushFrameSource({ width: 160, height: 96, fps: 24, totalFrames });
+}
+
+/**
+ * Comparator whose WASM-like init fails, as wwxd does when the module isn't built
+ */
+function failingComparator(): FrameComparator {
+  return {
+    init: () => Promise.reject(new Error('Failed to initialize WASM module')),
+    prepare() {},
+    compare: () => ({ sceneChange: false, metrics: {} }),
+    release() {},
+    destroy() {}
+  };
+}
+
+describe('PushFrameSource', () => {
+  it('finds the cuts in pushed frames', async () => {
+    const source = pushSource(frames.length);
+    const [result, accepted] = await Promise.all([new SceneDetector(options).detect(source), feed(source, frames)]);
+
+    expect(cutFrames(result)).toEqual([40, 80, 120]);
+    expect(accepted).toEqual(frames.map(() => true));
+    expect(result.metadata.totalFrames).toBe(frames.length);
+  });
+
+  it('repacks frames with padded rows', async () => {
+    const padded = frames.map(frame => {
+      const stride = frame.width + 32;
+      const data = new Uint8Array(stride * frame.height);
+      for (let y = 0; y < frame.height; y++) {
+        data.set(frame.data.subarray(y * frame.width, (y + 1) * frame.width), y * stride);
+      }
+      return { ...frame, data, stride };
+    });
+
+    const source = pushSource();
+    const [result] = await Promise.all([new SceneDetector(options).detect(source), feed(source, padded)]);
+
+    expect(cutFrames(result)).toEqual([40, 80, 120]);
+    expect(result.metadata.totalFrames).toBe(frames.length);
+  });
+
+  it('rejects frames of the wrong size, and frames pushed after end()', async () => {
+    const source = pushSource();
+
+    await expect(source.push({ ...frames[0], width: 80 })).rejects.toThrow('Frame 0 is 80x96, expected 160x96');
+
+    source.end();
+    await expect(source.push(frames[0])).rejects.toThrow('push() called after end()');
+  });
+
+  it('releases the producer when detection fails before reading a frame', async () => {
+    const source = pushSource();
+    const detector = new SceneDetector({ algorithm: failingComparator() });
+
+    const unhandled: unknown[] = [];
+    const onUnhandled = (reason: unknown) => unhandled.push(reason);
+    process.on('unhandledRejection', onUnhandled);
+
+    try {
+      const producer = feed(source, frames);
+      await expect(detector.detect(source)).rejects.toThrow('Failed to initialize WASM module');
+
+      // The first frame was waiting to be read; the producer stops there
+      await expect(producer).resolves.toEqual([false]);
+      await expect(source.push(frames[1])).rejects.toThrow('push() called after end()');
+
+      await new Promise(resolve => setImmediate(resolve));
+      expect(unhandled).toEqual([]);
+    } finally {
+      process.off('unhandledRejection', onUnhandled);
+    }
+  });
+
+  it('resolves a waiting push() with false when the run fails', async () => {
+    const source = pushSource(frames.length);
+
+    // Starts past the end of the video: fails once metadata is known
+    const detection = new SceneDetector({ ...options, startFrame: 1000 }).detect(source);
+    const failure = detection.catch((err: Error) => err);
+
+    await expect(source.push(frames[0])).resolves.toBe(false);
+    await expect(source.push(frames[1])).resolves.toBe(false);
+    expect(await failure).toBeInstanceOf(Error);
+  });
+
+  it('fails detection with the producer error', async () => {
+    const source = pushSource();
+    const detection = new SceneDetector(options).detect(source);
+
+    await source.push(frames[0]);
+    source.error(new Error('decoder crashed'));
+
+    await expect(detection).rejects.toThrow('decoder crashed');
+  });
+
+  it('turns frames away once the consumer of scenes() stops', async () => {
+    const source = pushSource();
+    const found: number[] = [];
+
+    const consume = async () => {
+      for await (const scene of new SceneDetector(options).scenes(source)) {
+        found.push(scene.frameNumber);
+        if (scene.frameNumber > 0) {
+          break;
+        }
+      }
+    };
+
+    const [, accepted] = await Promise.all([consume(), feed(source, frames)]);
+
+    expect(found).toEqual([0, 40]);
+    expect(accepted[accepted.length - 1]).toBe(false);
+    expect(accepted.length).toBeLessThan(frames.length);
+  });
+});
+
+describe('ReadableFrameSource', () => {
+  it('reads headerless gray frames', async () => {
+    const stream = Readable.from(frames.map(frame => Buffer.from(frame.data)));
+    const source = new ReadableFrameSource(stream, { format: 'gray', width: 160, height: 96, fps: 24 });
+
+    const result = await new SceneDetector(options).detect(source);
+
+    expect(cutFrames(result)).toEqual([40, 80, 120]);
+    expect(result.metadata.totalFrames).toBe(frames.length);
+  });
+
+  it('reads YUV4MPEG2, taking the resolution and frame rate from the header', async () => {
+    const chunks = [Buffer.from('YUV4MPEG2 W160 H96 F24000:1001 Ip A1:1 Cmono\n')];
+    for (const frame of frames) {
+      chunks.push(Buffer.from('FRAME\n'), Buffer.from(frame.data));
+    }
+
+    const source = new ReadableFrameSource(Readable.from(chunks), { format: 'y4m' });
+    const result = await new SceneDetector(options).detect(source);
+
+    expect(cutFrames(result)).toEqual([40, 80, 120]);
+    expect(result.metadata.fps).toBeCloseTo(23.976, 3);
+    expect(result.scenes[1].timestamp).toBeCloseTo(40 * 1001 / 24000, 6);
+  });
+
+  it('rejects gray streams without a resolution', () => {
+    const source = new ReadableFrameSource(Readable.from([]), { format: 'gray' });
+
+    return expect(source.getMetadata()).rejects.toThrow('Gray frame streams need width, height and fps options');
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Test helpers - Synthetic frames with known cuts, and the built bundle
+ *
+ * Worker threads and the WASM module are only found relative to the
+ * rollup bundle, so tests that need them load dist/keyframes.cjs.js
+ * (built by `npm test`). The WASM module needs Emscripten and is not part
+ * of that build; tests that run wwxd are skipped until `npm run
+ * build:wasm` has been run.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { createRequire } from 'module';
+import { Worker } from 'worker_threads';
+import * as ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import { FrameSource, RawFrame, VideoMetadata, WasmModule } from '../src/types';
+
+const DIST = path.resolve(__dirname, '../dist');
+
+/** Whether `npm run build:wasm` has produced the WASM module */
+export const wasmBuilt = fs.existsSync(path.join(DIST, 'detection.wasm.js'));
+
+/**
+ * Load the CommonJS bundle, as a consumer of the package would
+ */
+export function loadBundle(): typeof import('../src/index') {
+  return createRequire(__filename)(path.join(DIST, 'keyframes.cjs.js'));
+}
+
+/**
+ * Instantiate the WASM module on its own, without a WasmBridge
+ */
+export function loadWasmModule(): Promise<WasmModule> {
+  return createRequire(__filename)(path.join(DIST, 'detection.wasm.js'))();
+}
+
+export interface SyntheticClipOptions {
+  /** Frame width (default: 320) */
+  width?: number;
+  /** Frame height (default: 192) */
+  height?: number;
+  /** Frames per scene (default: 40, past wwxd's raised thresholds for short scenes) */
+  sceneLength?: number;
+  /** Number of scenes (default: 4) */
+  scenes?: number;
+  /** Length of each scene, in place of sceneLength and scenes */
+  sceneLengths?: number[];
+  /**
+   * How far each cut moves towards a new picture, one value per cut: 1 is
+   * a clean cut, smaller values keep more of the previous scene (default: all 1)
+   */
+  blend?: number[];
+}
+
+/**
+ * Small deterministic PRNG (xorshift32), so every run sees the same frames
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0 || 1;
+  return () => {
+    state ^= state << 13;
+    state >>>= 0;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    state >>>= 0;
+    return state;
+  };
+}
+
+/**
+ * Picture for one scene: smooth waves and a few solid boxes
+ */
+function createTexture(scene: number, width: number, height: number): Float64Array {
+  const random = createRandom(scene * 104729 + 7);
+  const waves = Array.from({ length: 3 }, () => ({
+    fx: ((random() % 1000) / 1000 - 0.5) * 12 * Math.PI / height,
+    fy: ((random() % 1000) / 1000 - 0.5) * 12 * Math.PI / height,
+    phase: (random() % 1000) / 1000 * 2 * Math.PI,
+    amplitude: 20 + (random() % 30)
+  }));
+
+  const texture = new Float64Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = 128;
+      for (const wave of waves) {
+        value += wave.amplitude * Math.sin(wave.fx * x + wave.fy * y + wave.phase);
+      }
+      texture[y * width + x] = value;
+    }
+  }
+
+  for (let i = 0; i < 6; i++) {
+    const w = Math.round(height * (0.05 + (random() % 100) / 500));
+    const h = Math.round(height * (0.05 + (random() % 100) / 500));
+    const left = random() % (width - w);
+    const top = random() % (height - h);
+    const value = random() & 0xff;
+    for (let y = top; y < top + h; y++) {
+      texture.fill(value, y * width + left, y * width + left + w);
+    }
+  }
+
+  return texture;
+}
+
+/**
+ * Luma frames that pan across a different picture in every scene, with a
+ * little noise; scene n starts at frame n * sceneLength unless sceneLengths
+ * says otherwise
+ */
+export function createClip(options: SyntheticClipOptions = {}): RawFrame[] {
+  const { width = 320, height = 192, sceneLength = 40, scenes = 4 } = options;
+  const lengths = options.sceneLengths || Array.from({ length: scenes }, () => sceneLength);
+  const blend = options.blend || [];
+
+  const speed = 2;
+  const margin = speed * Math.max(...lengths);
+  const textureWidth = width + margin;
+  const textureHeight = height + margin;
+
+  const frames: RawFrame[] = [];
+  let texture = createTexture(0, textureWidth, textureHeight);
+
+  for (let scene = 0; scene < lengths.length; scene++) {
+    if (scene > 0) {
+      const next = createTexture(scene, textureWidth, textureHeight);
+      const amount = blend[scene - 1] ?? 1;
+      texture = texture.map((value, i) => value * (1 - amount) + next[i] * amount);
+    }
+
+    for (let t = 0; t < lengths[scene]; t++) {
+      const frameNumber = frames.length;
+      const random = createRandom(frameNumber * 7919 + 1);
+      const dx = t * speed;
+      const dy = Math.round((t * speed * (scene % 3)) / 2);
+
+      const data = new Uint8Array(width * height);
+      for (let y = 0; y < height; y++) {
+        const row = (y + dy) * textureWidth + dx;
+        for (let x = 0; x < width; x++) {
+          data[y * width + x] = Math.max(0, Math.min(255, Math.round(texture[row + x]) + (random() & 7)));
+        }
+      }
+
+      frames.push({ data, width, height, stride: width, pts: frameNumber / 24, frameNumber });
+    }
+  }
+
+  return frames;
+}
+
+/**
+ * Frame source over frames held in memory
+ */
+export function frameSource(frames: RawFrame[], fps: number = 24): FrameSource {
+  return {
+    async getMetadata(): Promise<VideoMetadata> {
+      return {
+        totalFrames: frames.length,
+        duration: frames.length / fps,
+        fps,
+        resolution: { width: frames[0].width, height: frames[0].height }
+      };
+    },
+
+    async extractFrames(onFrame) {
+      for (const frame of frames) {
+        if ((await onFrame(frame)) === false) {
+          break;
+        }
+      }
+    },
+
+    destroy() {}
+  };
+}
+
+/**
+ * Frame numbers of the cuts found, without frame 0
+ */
+export function cutFrames(result: { scenes: { frameNumber: number }[] }): number[] {
+  return result.scenes.map(scene => scene.frameNumber).filter(frame => frame > 0);
+}
+
+/**
+ * Create a scratch directory, removed by the returned cleanup function
+ */
+export function createTempDir(): { dir: string; remove: () => void } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scenecut-test-'));
+  return { dir, remove: () => fs.rmSync(dir, { recursive: true, force: true }) };
+}
+
+/**
+ * Encode frames losslessly (FFV1 in Matroska) so ffmpeg decodes exactly
+ * these pixels; frames with u and v planes are written as yuv420p
+ */
+export function writeVideo(file: string, frames: RawFrame[], fps: number = 24): Promise<void> {
+  const { width, height, u, v } = frames[0];
+  const pixelFormat = u && v ? 'yuv420p' : 'gray';
+
+  const ffmpeg = spawn(ffmpegInstaller.path, [
+    '-v', 'error', '-y',
+    '-f', 'rawvideo', '-pix_fmt', pixelFormat, '-s', `${width}x${height}`, '-r', String(fps), '-i', '-',
+    '-c:v', 'ffv1', '-pix_fmt', pixelFormat, file
+  ], { stdio: ['pipe', 'ignore', 'pipe'] });
+
+  let stderr = '';
+  ffmpeg.stderr.on('data', (chunk: Buffer) => {
+    stderr += chunk;
+  });
+
+  const done = new Promise<void>((resolve, reject) => {
+    ffmpeg.on('error', reject);
+    ffmpeg.on('close', (code: number) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`ffmpeg exited with code ${code}: ${stderr}`));
+      }
+    });
+  });
+
+  for (const frame of frames) {
+    ffmpeg.stdin.write(frame.data);
+    if (frame.u && frame.v) {
+      ffmpeg.stdin.write(frame.u);
+      ffmpeg.stdin.write(frame.v);
+    }
+  }
+  ffmpeg.stdin.end();
+
+  return done;
+}
+
+/**
+ * Count the worker threads a run starts
+ *
+ * Thread ids are handed out in sequence, so a probe worker before and one
+ * after show how many threads were started in between.
+ */
+export async function countWorkerThreads(run: () => Promise<unknown>): Promise<number> {
+  const probe = async () => {
+    const worker = new Worker('', { eval: true });
+    const id = worker.threadId;
+    await worker.terminate();
+    return id;
+  };
+
+  const before = await probe();
+  await run();
+  return (await probe()) - before - 1;
+}
+
+/**
+ * Process ids of this process's children that haven't been reaped yet
+ * (Linux only: read from /proc)
+ */
+export function childProcesses(): number[] {
+  const children: number[] = [];
+
+  for (const entry of fs.readdirSync('/proc')) {
+    if (!/^\d+$/.test(entry)) {
+      continue;
+    }
+
+    let stat: string;
+    try {
+      stat = fs.readFileSync(`/proc/${entry}/stat`, 'utf8');
+    } catch {
+      continue; // Exited while we were looking
+    }
+
+    // pid (comm) state ppid ...; comm may contain spaces and parentheses
+    const ppid = Number(stat.slice(stat.lastIndexOf(')') + 2).split(' ')[1]);
+    if (ppid === process.pid) {
+      children.push(Number(entry));
+    }
+  }
+
+  return children;
+}
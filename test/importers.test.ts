@@ -0,0 +1,199 @@
+import { describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  detectImportFormat,
+  importScenes,
+  parseAegisubKeyframes,
+  parseQpfile,
+  parseScenesCSV,
+  parseScenesJSON,
+  parseXvidStats
+} from '../src/import/importers';
+import { exportJSON, exportScenes } from '../src/export/exporters';
+import { KeyframeParseError } from '../src/utils/errors';
+import { formatTimecode } from '../src/utils/frame-processor';
+import { DetectionResult, SceneInfo } from '../src/types';
+
+const result: DetectionResult = {
+  scenes: [
+    { frameNumber: 0, timestamp: 0, timecode: '00:00:00.000', confidence: 1 },
+    { frameNumber: 48, timestamp: 2, timecode: '00:00:02.000', confidence: 0.75 }
+  ],
+  metadata: { totalFrames: 96, duration: 4, fps: 24, resolution: { width: 1280, height: 720 } },
+  stats: { processingTime: 1.5, framesPerSecond: 64 }
+};
+
+describe('parseScenesJSON', () => {
+  it('reads back what exportJSON writes', () => {
+    const parsed = parseScenesJSON(exportJSON(result));
+
+    expect(parsed.scenes).toEqual(result.scenes);
+    expect(parsed.metadata).toMatchObject({ totalFrames: 96, fps: 24, resolution: { width: 1280, height: 720 } });
+    expect(parsed.stats).toEqual(result.stats);
+  });
+
+  it('ignores metadata and stats of the wrong shape', () => {
+    const parsed = parseScenesJSON(JSON.stringify({
+      scenes: [{ frameNumber: 0 }, { frameNumber: 24 }],
+      metadata: { fps: '24', totalFrames: 1.5, resolution: { width: 'wide' } },
+      stats: { processingTime: 1 }
+    }), { fps: 24 });
+
+    expect(parsed.scenes.map(scene => scene.timestamp)).toEqual([0, 1]);
+    expect(parsed.metadata).toMatchObject({ totalFrames: 25, resolution: { width: 0, height: 0 } });
+    expect(parsed.stats).toBeUndefined();
+  });
+
+  it('rejects malformed scene lists', () => {
+    expect(() => parseScenesJSON('[]')).toThrow("missing 'scenes' array");
+    expect(() => parseScenesJSON('{"scenes": [null]}')).toThrow('scenes[0] has an invalid frameNumber');
+    expect(() => parseScenesJSON('{"scenes": [{"frameNumber": "12"}]}')).toThrow('scenes[0] has an invalid frameNumber');
+    expect(() => parseScenesJSON('{"scenes": [{"frameNumber": 1, "timestamp": -1}]}')).toThrow('scenes[0] has an invalid timestamp');
+    expect(() => parseScenesJSON('{"scenes": [{"frameNumber": 1, "confidence": "high"}]}')).toThrow('scenes[0] has an invalid confidence');
+    expect(() => parseScenesJSON('{"scenes": ')).toThrow('invalid JSON');
+  });
+});
+
+const FPS = 24000 / 1001;
+
+function scene(frameNumber: number, confidence?: number): SceneInfo {
+  const timestamp = frameNumber / FPS;
+  return { frameNumber, timestamp, timecode: formatTimecode(timestamp), confidence };
+}
+
+const ntsc: DetectionResult = {
+  scenes: [scene(0, 1), scene(1, 0.4), scene(250, 0.875), scene(2158), scene(34046, 0.62)],
+  metadata: { totalFrames: 34100, duration: 34100 / FPS, fps: FPS, resolution: { width: 1920, height: 1080 } }
+};
+
+const frames = (parsed: DetectionResult) => parsed.scenes.map(s => s.frameNumber);
+
+/**
+ * Run a parser that should fail and return its KeyframeParseError
+ */
+function parseError(parse: () => unknown): KeyframeParseError {
+  try {
+    parse();
+  } catch (error) {
+    expect(error).toBeInstanceOf(KeyframeParseError);
+    return error as KeyframeParseError;
+  }
+  throw new Error('expected a KeyframeParseError');
+}
+
+describe('round trips through exportScenes', () => {
+  it('reads back Aegisub keyframes with their frame rate', () => {
+    const text = exportScenes(ntsc, 'aegisub');
+    const parsed = importScenes(text);
+
+    expect(detectImportFormat(text)).toBe('aegisub');
+    expect(parsed.metadata.fps).toBe(FPS);
+    expect(parsed.scenes).toEqual(ntsc.scenes.map(({ confidence, ...rest }) => rest));
+  });
+
+  it('reads back a qpfile given the frame rate', () => {
+    const text = exportScenes(ntsc, 'qpfile', { frameType: 'K', qp: 18 });
+    const parsed = importScenes(text, undefined, { fps: FPS, totalFrames: 34100 });
+
+    expect(detectImportFormat(text)).toBe('qpfile');
+    expect(frames(parsed)).toEqual(frames(ntsc));
+    expect(parsed.scenes.map(s => s.timecode)).toEqual(ntsc.scenes.map(s => s.timecode));
+    expect(parsed.metadata).toMatchObject({ fps: FPS, totalFrames: 34100 });
+  });
+
+  it('reads back CSV and infers the frame rate from the timestamps', () => {
+    const text = exportScenes(ntsc, 'csv');
+    const parsed = importScenes(text);
+
+    expect(detectImportFormat(text)).toBe('csv');
+    expect(parsed.scenes).toEqual(ntsc.scenes);
+    expect(parsed.metadata.fps).toBeCloseTo(FPS, 9);
+  });
+
+  it('reads back CSV with another delimiter, no header or quoted fields', () => {
+    const semicolon = exportScenes(ntsc, 'csv', { delimiter: ';' });
+    expect(parseScenesCSV(semicolon, { delimiter: ';' }).scenes).toEqual(ntsc.scenes);
+
+    const bare = exportScenes(ntsc, 'csv', { header: false });
+    expect(parseScenesCSV(bare, { fps: FPS }).scenes).toEqual(ntsc.scenes);
+
+    // Every timecode holds the delimiter, so each one is written quoted
+    const colon = exportScenes(ntsc, 'csv', { delimiter: ':' });
+    expect(colon).toContain('"00:00:10.427"');
+    expect(parseScenesCSV(colon, { delimiter: ':' }).scenes).toEqual(ntsc.scenes);
+  });
+});
+
+describe('parseXvidStats', () => {
+  const stats = fs.readFileSync(path.join(__dirname, 'fixtures/importers/scxvid.stats'), 'utf8');
+
+  it('takes intra frames of an SCXviD stats file as scene changes', () => {
+    const parsed = importScenes(stats, undefined, { fps: FPS });
+
+    expect(detectImportFormat(stats)).toBe('xvid');
+    expect(frames(parsed)).toEqual([0, 12, 25]);
+    expect(parsed.metadata).toMatchObject({ totalFrames: 30, fps: FPS });
+    expect(parsed.scenes[1].timestamp).toBe(12 / FPS);
+  });
+
+  it('needs the frame rate', () => {
+    const error = parseError(() => parseXvidStats(stats));
+    expect(error.message).toBe('XviD stats: frame rate unknown; pass options.fps');
+    expect(error.line).toBeUndefined();
+  });
+});
+
+describe('malformed input', () => {
+  it('reports the line of a bad Aegisub keyframes file', () => {
+    let error = parseError(() => parseAegisubKeyframes('0\n12\n'));
+    expect(error.message).toBe("Aegisub keyframes line 1: expected '# keyframe format v1' header");
+    expect(error.line).toBe(1);
+
+    error = parseError(() => parseAegisubKeyframes('# keyframe format v1\nfps 23.976\n0\n\n12a\n'));
+    expect(error.message).toBe("Aegisub keyframes line 5: invalid frame number '12a'");
+    expect(error.line).toBe(5);
+
+    error = parseError(() => parseAegisubKeyframes('# keyframe format v1\r\nfps -1\r\n0\r\n'));
+    expect(error.message).toBe("Aegisub keyframes line 2: invalid frame rate '-1'");
+    expect(error.line).toBe(2);
+  });
+
+  it('reports the line of a bad qpfile', () => {
+    let error = parseError(() => parseQpfile('0 I\n24 X\n', { fps: 24 }));
+    expect(error.message).toBe("qpfile line 2: unknown frame type 'X'");
+    expect(error.line).toBe(2);
+
+    error = parseError(() => parseQpfile('0 I\n\n48\n', { fps: 24 }));
+    expect(error.message).toBe("qpfile line 3: expected '<frame> <type> [qp]', got '48'");
+    expect(error.line).toBe(3);
+
+    error = parseError(() => parseQpfile('0 I 18\n24 K high\n', { fps: 24 }));
+    expect(error.message).toBe("qpfile line 2: invalid QP 'high'");
+
+    error = parseError(() => parseQpfile('-1 I\n', { fps: 24 }));
+    expect(error.message).toBe("qpfile line 1: invalid frame number '-1'");
+  });
+
+  it('reports the line of a bad XviD stats file', () => {
+    const error = parseError(() => parseXvidStats('# XviD 2pass stat file\n\ni 2 920 0 0 38000 412\nq 2 14 812 94 3123 188\n', { fps: 24 }));
+    expect(error.message).toBe("XviD stats line 4: unknown frame type 'q'");
+    expect(error.line).toBe(4);
+  });
+
+  it('reports the line of a bad CSV file', () => {
+    let error = parseError(() => parseScenesCSV('frame,timestamp,timecode,confidence\n0,0,,1\n24,1,"00:00:01.000,0.5\n'));
+    expect(error.message).toBe('CSV line 3: unterminated quoted field');
+    expect(error.line).toBe(3);
+
+    error = parseError(() => parseScenesCSV('frame,timestamp,timecode,confidence\n0,0,,1\n24,1,,1.5\n'));
+    expect(error.message).toBe("CSV line 3: invalid confidence '1.5'");
+
+    error = parseError(() => parseScenesCSV('frame,timestamp\n0,0\n24,soon\n'));
+    expect(error.message).toBe("CSV line 3: invalid timestamp 'soon'");
+
+    error = parseError(() => parseScenesCSV('frame,timestamp\n0,0\n24.5,1\n'));
+    expect(error.message).toBe("CSV line 3: invalid frame number '24.5'");
+    expect(error.line).toBe(3);
+  });
+});
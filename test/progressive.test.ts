@@ -0,0 +1,90 @@
+import * as path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { SceneDetector } from '../src/detection/detector';
+import { FFmpegDecoder } from '../src/decoder/ffmpeg-decoder';
+import { RawFrame } from '../src/types';
+import { createClip, createTempDir, cutFrames, writeVideo } from './helpers';
+
+const temp = createTempDir();
+const file = path.join(temp.dir, 'clip.mkv');
+
+beforeAll(() => writeVideo(file, createClip({ width: 160, height: 96, scenes: 6 })));
+afterAll(() => temp.remove());
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+/**
+ * Count the frames the decoder hands out in ranges, and how many are released
+ */
+function trackRangeFrames() {
+  const counts = { decoded: 0, released: 0 };
+  const extractFrameRange = FFmpegDecoder.prototype.extractFrameRange;
+
+  vi.spyOn(FFmpegDecoder.prototype, 'extractFrameRange').mockImplementation(function (
+    this: FFmpegDecoder,
+    start: number,
+    end: number,
+    step: number,
+    onFrame: (frame: RawFrame) => Promise<boolean | void> | boolean | void
+  ) {
+    return extractFrameRange.call(this, start, end, step, (frame: RawFrame) => {
+      counts.decoded++;
+
+      const release = frame.release!;
+      let released = false;
+      frame.release = () => {
+        if (!released) {
+          released = true;
+          counts.released++;
+        }
+        release();
+      };
+
+      return onFrame(frame);
+    });
+  });
+
+  return counts;
+}
+
+describe('progressive processing', () => {
+  const options = {
+    algorithm: 'histogram' as const,
+    threshold: 0.1,
+    progressive: { enabled: true, initialStep: 8, refinementSteps: [4, 2, 1] }
+  };
+
+  it('finds the same cuts as a full scan', async () => {
+    const full = await new SceneDetector({ algorithm: 'histogram', threshold: 0.1 }).detect(file);
+
+    const counts = trackRangeFrames();
+    const progressive = await new SceneDetector(options).detect(file);
+
+    expect(cutFrames(full)).toEqual([40, 80, 120, 160, 200]);
+    expect(cutFrames(progressive)).toEqual(cutFrames(full));
+    expect(counts.decoded).toBeLessThan(full.metadata.totalFrames / 2);
+  });
+
+  it('releases every frame it decodes', async () => {
+    const counts = trackRangeFrames();
+
+    await new SceneDetector(options).detect(file);
+
+    expect(counts.decoded).toBeGreaterThan(0);
+    expect(counts.released).toBe(counts.decoded);
+  });
+
+  it('releases the frames of a scan stopped early', async () => {
+    const counts = trackRangeFrames();
+
+    for await (const scene of new SceneDetector(options).scenes(file)) {
+      if (scene.frameNumber >= 80) {
+        break;
+      }
+    }
+
+    expect(counts.decoded).toBeGreaterThan(0);
+    expect(counts.released).toBe(counts.decoded);
+  });
+});
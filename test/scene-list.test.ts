@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+import {
+  convertFrameRate,
+  enforceMaxSceneLength,
+  enforceMinSceneLength,
+  offsetScenes,
+  snapToKeyframes
+} from '../src/utils/scene-list';
+import { formatTimecode } from '../src/utils/frame-processor';
+import { DetectionResult, SceneInfo } from '../src/types';
+
+const FPS = 24;
+
+function scene(frameNumber: number, confidence?: number): SceneInfo {
+  const timestamp = frameNumber / FPS;
+  return { frameNumber, timestamp, timecode: formatTimecode(timestamp), confidence };
+}
+
+function detection(frames: number[], totalFrames: number): DetectionResult {
+  return {
+    scenes: frames.map((frame, i) => scene(frame, 0.5 + i / 100)),
+    metadata: { totalFrames, duration: totalFrames / FPS, fps: FPS, resolution: { width: 1920, height: 1080 } }
+  };
+}
+
+const frames = (result: DetectionResult) => result.scenes.map(s => s.frameNumber);
+
+describe('enforceMinSceneLength', () => {
+  const result = detection([0, 100, 105, 400, 990], 1000);
+
+  it('merges short scenes into the scene before them', () => {
+    expect(frames(enforceMinSceneLength(result, 10))).toEqual([0, 100, 400, 990]);
+    expect(frames(enforceMinSceneLength(result, 300))).toEqual([0, 400]);
+  });
+
+  it('merges a short final scene', () => {
+    // The scene from 990 runs for 10 frames to totalFrames
+    expect(frames(enforceMinSceneLength(result, 11))).toEqual([0, 100, 400]);
+  });
+
+  it('always keeps the first scene', () => {
+    expect(frames(enforceMinSceneLength(detection([0], 5), 10))).toEqual([0]);
+    expect(frames(enforceMinSceneLength(result, 5000))).toEqual([0]);
+  });
+
+  it('sorts and de-duplicates without modifying the input', () => {
+    const shuffled = detection([400, 0, 100, 100], 1000);
+    const before = JSON.stringify(shuffled);
+
+    expect(frames(enforceMinSceneLength(shuffled, 1))).toEqual([0, 100, 400]);
+    expect(JSON.stringify(shuffled)).toBe(before);
+  });
+
+  it('rejects an invalid length', () => {
+    expect(() => enforceMinSceneLength(result, 0)).toThrow('Invalid minLength: 0 (must be a positive integer)');
+  });
+});
+
+describe('enforceMaxSceneLength', () => {
+  it('cuts long scenes into the fewest equal parts', () => {
+    const limited = enforceMaxSceneLength(detection([0, 100], 350), 100);
+
+    // 250 frames from 100 take three parts of 83, 84 and 83 frames
+    expect(frames(limited)).toEqual([0, 100, 183, 267]);
+    expect(limited.scenes.map(s => s.forced)).toEqual([undefined, undefined, true, true]);
+    expect(limited.scenes[2]).toMatchObject({ timestamp: 183 / FPS, timecode: formatTimecode(183 / FPS) });
+  });
+
+  it('leaves scenes that fit', () => {
+    const result = detection([0, 100, 200], 300);
+    expect(enforceMaxSceneLength(result, 100).scenes).toEqual(result.scenes);
+  });
+
+  it('rejects an invalid length', () => {
+    expect(() => enforceMaxSceneLength(detection([0], 10), 2.5)).toThrow('Invalid maxLength: 2.5');
+  });
+});
+
+describe('snapToKeyframes', () => {
+  const keyframes = [300, 0, 104, 96, 96];
+
+  it('moves cuts to the nearest keyframe in reach', () => {
+    const snapped = snapToKeyframes(detection([0, 200, 297], 1000), keyframes, 4);
+
+    expect(frames(snapped)).toEqual([0, 200, 300]);
+    expect(snapped.scenes[2]).toMatchObject({ confidence: 0.52, timestamp: 300 / FPS, timecode: formatTimecode(300 / FPS) });
+  });
+
+  it('prefers the earlier keyframe on a tie', () => {
+    expect(frames(snapToKeyframes(detection([100], 1000), keyframes, 4))).toEqual([96]);
+  });
+
+  it('keeps the first of two cuts that land on one keyframe', () => {
+    const snapped = snapToKeyframes(detection([0, 98, 99, 105], 1000), keyframes, 4);
+
+    expect(frames(snapped)).toEqual([0, 96, 104]);
+    expect(snapped.scenes[1].confidence).toBe(0.51);
+  });
+
+  it('leaves everything without keyframes', () => {
+    const result = detection([0, 50], 100);
+    expect(snapToKeyframes(result, [], 10).scenes).toEqual(result.scenes);
+  });
+
+  it('rejects an invalid tolerance', () => {
+    expect(() => snapToKeyframes(detection([0], 10), keyframes, -1))
+      .toThrow('Invalid tolerance: -1 (must be a non-negative integer)');
+  });
+});
+
+describe('offsetScenes', () => {
+  const result = detection([0, 100, 120, 400], 1000);
+
+  it('moves the last cut before frame 0 to frame 0', () => {
+    const trimmed = offsetScenes(result, -150);
+
+    expect(frames(trimmed)).toEqual([0, 250]);
+    expect(trimmed.scenes[0]).toMatchObject({ confidence: 0.52, timestamp: 0, timecode: '00:00:00.000' });
+    expect(trimmed.metadata).toMatchObject({ totalFrames: 850, duration: 850 / FPS });
+  });
+
+  it('keeps a cut that lands on frame 0 instead of the one before it', () => {
+    const trimmed = offsetScenes(result, -100);
+
+    expect(frames(trimmed)).toEqual([0, 20, 300]);
+    expect(trimmed.scenes[0].confidence).toBe(0.51);
+  });
+
+  it('shifts cuts into padding', () => {
+    const padded = offsetScenes(result, 24);
+
+    expect(frames(padded)).toEqual([24, 124, 144, 424]);
+    expect(padded.scenes[0].timestamp).toBe(1);
+    expect(padded.metadata.totalFrames).toBe(1024);
+  });
+
+  it('rebases variable frame rate timestamps', () => {
+    const vfr = detection([0, 3], 5);
+    vfr.metadata.timestamps = [0, 0.04, 0.08, 0.2, 0.24];
+
+    const trimmed = offsetScenes(vfr, -1);
+    expect(trimmed.metadata.timestamps).toHaveLength(4);
+    expect(trimmed.scenes.map(s => s.frameNumber)).toEqual([0, 2]);
+    expect(trimmed.scenes[1].timestamp).toBeCloseTo(0.16, 9);
+  });
+
+  it('rejects a fractional offset', () => {
+    expect(() => offsetScenes(result, 0.5)).toThrow('Invalid offset: 0.5 (must be an integer)');
+  });
+});
+
+describe('convertFrameRate', () => {
+  const result = detection([0, 48, 1001], 2400);
+
+  it('keeps the time of each cut by default', () => {
+    const ntsc = convertFrameRate(result, { num: 30000, den: 1001 });
+
+    expect(frames(ntsc)).toEqual([0, 60, 1250]);
+    expect(ntsc.scenes[1].timestamp).toBeCloseTo(2, 2);
+    expect(ntsc.metadata).toMatchObject({
+      totalFrames: 2997,
+      duration: 100,
+      fps: 30000 / 1001,
+      frameRate: { num: 30000, den: 1001 }
+    });
+  });
+
+  it('keeps frame numbers and rescales time with preserve: frames', () => {
+    const pal = convertFrameRate(result, 25, { preserve: 'frames' });
+
+    expect(frames(pal)).toEqual([0, 48, 1001]);
+    expect(pal.scenes.map(s => s.timestamp)).toEqual([0, 1.92, 40.04]);
+    expect(pal.metadata).toMatchObject({ totalFrames: 2400, duration: 96, fps: 25 });
+  });
+
+  it('rejects an invalid rate or preserve option', () => {
+    expect(() => convertFrameRate(result, { num: 24, den: 0 })).toThrow('Invalid frame rate: 24/0');
+    expect(() => convertFrameRate(result, 25, { preserve: 'both' as any }))
+      .toThrow("Invalid preserve option: both (must be 'time' or 'frames')");
+  });
+});
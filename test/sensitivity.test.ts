@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { calculateThresholds } from '../src/utils/frame-processor';
+import { createClip, cutFrames, frameSource, loadBundle, wasmBuilt } from './helpers';
+
+describe('calculateThresholds', () => {
+  it('gives each preset its own threshold pair', () => {
+    const pairs = (['low', 'medium', 'high'] as const).map(level => calculateThresholds(level));
+
+    expect(pairs).toEqual([
+      { intraThresh: 3000, intraThresh2: 150 },
+      { intraThresh: 2000, intraThresh2: 90 },
+      { intraThresh: 1000, intraThresh2: 50 }
+    ]);
+  });
+
+  it('uses custom thresholds as given, and medium without them', () => {
+    expect(calculateThresholds('custom', { intraThresh: 2500, intraThresh2: 120 }))
+      .toEqual({ intraThresh: 2500, intraThresh2: 120 });
+    expect(calculateThresholds('custom')).toEqual(calculateThresholds('medium'));
+  });
+
+  it('rejects invalid custom thresholds', () => {
+    expect(() => calculateThresholds('custom', { intraThresh: -1, intraThresh2: 90 })).toThrow();
+  });
+});
+
+describe.skipIf(!wasmBuilt)('sensitivity in MEanalysis', () => {
+  // Cuts at every 40th frame, from a clean cut down to one that keeps 90% of the previous picture
+  const frames = createClip({ scenes: 11, blend: [1, 0.8, 0.6, 0.5, 0.4, 0.3, 0.25, 0.2, 0.15, 0.1] });
+
+  const detect = async (options: object) => {
+    const { SceneDetector } = loadBundle();
+    return cutFrames(await new SceneDetector(options).detect(frameSource(frames)));
+  };
+
+  it('finds a different number of cuts at each sensitivity', async () => {
+    const low = await detect({ sensitivity: 'low' });
+    const medium = await detect({ sensitivity: 'medium' });
+    const high = await detect({ sensitivity: 'high' });
+    const custom = await detect({ sensitivity: 'custom', customThresholds: { intraThresh: 2500, intraThresh2: 120 } });
+
+    expect(low.length).toBeLessThan(custom.length);
+    expect(custom.length).toBeLessThan(medium.length);
+    expect(medium.length).toBeLessThan(high.length);
+
+    // Only real cuts, however sensitive
+    for (const frame of high) {
+      expect(frame % 40).toBe(0);
+    }
+  });
+
+  it('reports the thresholds it used', async () => {
+    const { SceneDetector } = loadBundle();
+    const result = await new SceneDetector({ sensitivity: 'high' }).detect(frameSource(frames));
+
+    const scene = result.scenes.find(scene => scene.frameNumber === 40);
+    expect(scene?.metrics).toMatchObject({ intraThresh: 1000, intraThresh2: 50 });
+  });
+});
@@ -0,0 +1,190 @@
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { CustomThresholds, DetectionResult, MotionAnalysis, RawFrame, WasmModule } from '../src/types';
+import {
+  countWorkerThreads,
+  createClip,
+  createTempDir,
+  cutFrames,
+  frameSource,
+  loadBundle,
+  loadWasmModule,
+  wasmBuilt,
+  writeVideo
+} from './helpers';
+
+/** MEstats fields: intra blocks, intra block limit, sSAD and the two thresholds */
+const STATS_FIELDS = 5;
+
+const PRESETS: Record<string, CustomThresholds> = {
+  low: { intraThresh: 3000, intraThresh2: 150 },
+  medium: { intraThresh: 2000, intraThresh2: 90 },
+  high: { intraThresh: 1000, intraThresh2: 50 }
+};
+
+/**
+ * MEanalysis as the bridge ran it before detection contexts: both frames
+ * padded into fresh buffers and a new macroblock array for every pair
+ */
+function statelessAnalysis(
+  module: WasmModule,
+  prevFrame: RawFrame,
+  curFrame: RawFrame,
+  intraCount: number,
+  fcode: number,
+  thresholds: CustomThresholds
+): MotionAnalysis {
+  const { width, height } = prevFrame;
+  const paddedSize = module._calculate_padded_size(width, height);
+  const raw = module._malloc(width * height);
+  const ref = module._malloc(paddedSize);
+  const cur = module._malloc(paddedSize);
+  const stats = module._malloc(STATS_FIELDS * 4);
+
+  try {
+    module.HEAPU8.set(prevFrame.data, raw);
+    module._pad_frame(raw, ref, width, height);
+    module.HEAPU8.set(curFrame.data, raw);
+    module._pad_frame(raw, cur, width, height);
+
+    const result = module._MEanalysis_js(
+      ref, cur, width, height, intraCount, fcode, thresholds.intraThresh, thresholds.intraThresh2, stats
+    );
+
+    const heap = module.HEAP32;
+    const index = stats >> 2;
+
+    return {
+      sceneChange: result === 1,
+      metrics: {
+        intraBlocks: heap[index],
+        intraBlockLimit: heap[index + 1],
+        sSAD: heap[index + 2],
+        intraThresh: heap[index + 3],
+        intraThresh2: heap[index + 4]
+      }
+    };
+  } finally {
+    [raw, ref, cur, stats].forEach(ptr => module._free(ptr));
+  }
+}
+
+/**
+ * Run an analysis over consecutive frames the way the detector does
+ *
+ * @returns Each pair's analysis, and the frames that start a scene
+ */
+function analyzeSequence(
+  frames: RawFrame[],
+  analyze: (prev: RawFrame, cur: RawFrame, intraCount: number) => MotionAnalysis
+): { analyses: MotionAnalysis[]; cuts: number[] } {
+  const analyses: MotionAnalysis[] = [];
+  const cuts: number[] = [];
+  let intraCount = 1;
+
+  for (let i = 1; i < frames.length; i++) {
+    const analysis = analyze(frames[i - 1], frames[i], intraCount);
+    analyses.push(analysis);
+
+    if (analysis.sceneChange) {
+      cuts.push(frames[i].frameNumber);
+      intraCount = 1;
+    } else {
+      intraCount++;
+    }
+  }
+
+  return { analyses, cuts };
+}
+
+describe.skipIf(!wasmBuilt)('detection contexts without the temporal predictor', () => {
+  // Cuts every 40 frames, from clean ones to blends close to the thresholds
+  const frames = createClip({ scenes: 8, blend: [1, 0.6, 0.4, 0.3, 0.2, 0.15, 0.1] });
+  const fcode = 4;
+
+  let module: WasmModule;
+  beforeAll(async () => {
+    module = await loadWasmModule();
+  });
+
+  it.each(Object.keys(PRESETS))('give the stateless result for every consecutive pair (%s)', async preset => {
+    const { WasmBridge } = loadBundle();
+    const bridge = new WasmBridge({ temporalPredictor: false });
+    await bridge.init();
+
+    try {
+      const thresholds = PRESETS[preset];
+      const context = analyzeSequence(frames, (prev, cur, intraCount) =>
+        bridge.analyzeFrames(prev, cur, intraCount, fcode, thresholds));
+      const stateless = analyzeSequence(frames, (prev, cur, intraCount) =>
+        statelessAnalysis(module, prev, cur, intraCount, fcode, thresholds));
+
+      expect(context.analyses).toEqual(stateless.analyses);
+      expect(context.cuts).toEqual(stateless.cuts);
+    } finally {
+      bridge.destroy();
+    }
+  });
+
+  it('give the stateless result for pairs that are not consecutive', async () => {
+    const { WasmBridge } = loadBundle();
+    const bridge = new WasmBridge({ temporalPredictor: false });
+    await bridge.init();
+
+    // A coarse pass, then a refinement that goes back over an interval
+    const pairs = [[0, 8], [8, 16], [16, 24], [32, 40], [36, 38], [38, 39], [39, 40], [40, 41], [0, 40]];
+
+    try {
+      for (const [prev, cur] of pairs) {
+        const expected = statelessAnalysis(module, frames[prev], frames[cur], 10, fcode, PRESETS.medium);
+        expect(bridge.analyzeFrames(frames[prev], frames[cur], 10, fcode, PRESETS.medium)).toEqual(expected);
+      }
+    } finally {
+      bridge.destroy();
+    }
+  });
+
+  describe('in the detector', () => {
+    const temp = createTempDir();
+    const file = path.join(temp.dir, 'clip.mkv');
+
+    beforeAll(() => writeVideo(file, frames));
+    afterAll(() => temp.remove());
+
+    const statelessCuts = (preset: string) =>
+      analyzeSequence(frames, (prev, cur, intraCount) =>
+        statelessAnalysis(module, prev, cur, intraCount, fcode, PRESETS[preset])).cuts;
+
+    it.each(Object.keys(PRESETS))('keeps the cut list unchanged (%s)', async preset => {
+      const { SceneDetector } = loadBundle();
+      const sensitivity = preset as 'low' | 'medium' | 'high';
+
+      const fromFrames = await new SceneDetector({ sensitivity, temporalPredictor: false }).detect(frameSource(frames));
+      const fromFile = await new SceneDetector({ sensitivity, temporalPredictor: false }).detect(file);
+
+      expect(cutFrames(fromFrames)).toEqual(statelessCuts(preset));
+      expect(cutFrames(fromFile)).toEqual(statelessCuts(preset));
+    });
+
+    it('keeps the cut list unchanged with worker threads', async () => {
+      const { SceneDetector } = loadBundle();
+
+      // 960 frames, enough for three segments, with cuts on the second and third segment starts
+      const long = createClip({ sceneLengths: [150, 171, 150, 170, 160, 159], blend: [1, 0.6, 0.4, 0.3, 0.2] });
+      const longFile = path.join(temp.dir, 'long.mkv');
+      await writeVideo(longFile, long);
+
+      let result: DetectionResult | null = null;
+      const workersStarted = await countWorkerThreads(async () => {
+        result = await new SceneDetector({ temporalPredictor: false, workers: 3 }).detect(longFile);
+      });
+
+      const stateless = analyzeSequence(long, (prev, cur, intraCount) =>
+        statelessAnalysis(module, prev, cur, intraCount, fcode, PRESETS.medium)).cuts;
+
+      expect(workersStarted).toBe(3);
+      expect(cutFrames(result!)).toEqual(stateless);
+      expect(stateless).toEqual(expect.arrayContaining([321, 641]));
+    });
+  });
+});
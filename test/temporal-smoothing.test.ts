@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import { TemporalSmoother, applyTemporalSmoothing } from '../src/utils/temporal-smoothing';
+import { SceneInfo, TemporalSmoothing } from '../src/types';
+
+/**
+ * Scene list from [frame, confidence] pairs at 24 fps, with frame 0 first
+ */
+function scenes(cuts: [number, number][]): SceneInfo[] {
+  return [[0, 1] as [number, number], ...cuts].map(([frameNumber, confidence]) => ({
+    frameNumber,
+    timestamp: frameNumber / 24,
+    timecode: '',
+    confidence
+  }));
+}
+
+function frames(list: SceneInfo[]): number[] {
+  return list.map(scene => scene.frameNumber);
+}
+
+const options: TemporalSmoothing = { enabled: true, windowSize: 5, minConsecutive: 2 };
+
+describe('applyTemporalSmoothing', () => {
+  it('keeps cuts that are further apart than the window', () => {
+    const result = applyTemporalSmoothing(scenes([[50, 0.8], [100, 0.9], [105, 0.7]]), options);
+
+    expect(frames(result)).toEqual([0, 50, 100, 105]);
+  });
+
+  it('merges a burst into its first cut', () => {
+    const result = applyTemporalSmoothing(scenes([[50, 0.8], [100, 0.5], [101, 0.9], [103, 0.6], [200, 0.8]]), options);
+
+    expect(frames(result)).toEqual([0, 50, 100, 200]);
+    expect(result[2].confidence).toBe(0.5);
+  });
+
+  it('keeps a real cut in place when a stronger flash follows it', () => {
+    const result = applyTemporalSmoothing(scenes([[100, 0.6], [102, 0.95], [104, 0.8]]), options);
+
+    expect(frames(result)).toEqual([0, 100]);
+  });
+
+  it('drops a burst in drop mode', () => {
+    const result = applyTemporalSmoothing(
+      scenes([[50, 0.8], [100, 0.5], [101, 0.9], [103, 0.6], [200, 0.8]]),
+      { ...options, burstMode: 'drop' }
+    );
+
+    expect(frames(result)).toEqual([0, 50, 200]);
+  });
+
+  it('leaves clusters smaller than minConsecutive alone', () => {
+    const result = applyTemporalSmoothing(
+      scenes([[100, 0.5], [102, 0.9], [200, 0.4], [201, 0.6], [202, 0.7]]),
+      { ...options, minConsecutive: 3, burstMode: 'drop' }
+    );
+
+    expect(frames(result)).toEqual([0, 100, 102]);
+  });
+
+  it('chains cuts less than a window apart into one cluster', () => {
+    // Each gap is under 5 frames, so all five cuts form one burst
+    const result = applyTemporalSmoothing(scenes([[100, 0.9], [104, 0.9], [108, 0.9], [112, 0.9], [116, 0.9]]), options);
+
+    expect(frames(result)).toEqual([0, 100]);
+  });
+
+  it('drops cuts closer than minSceneLength to the previous kept cut', () => {
+    const result = applyTemporalSmoothing(
+      scenes([[10, 0.9], [30, 0.9], [45, 0.9], [60, 0.9], [61, 0.9]]),
+      { ...options, windowSize: 1, minSceneLength: 24 }
+    );
+
+    expect(frames(result)).toEqual([0, 30, 60]);
+  });
+
+  it('measures minSceneLength from a merged burst', () => {
+    const result = applyTemporalSmoothing(
+      scenes([[100, 0.5], [102, 0.9], [120, 0.9], [130, 0.9]]),
+      { ...options, minSceneLength: 25 }
+    );
+
+    expect(frames(result)).toEqual([0, 100, 130]);
+  });
+
+  it('always keeps the first scene', () => {
+    const result = applyTemporalSmoothing(scenes([[1, 0.9], [2, 0.9]]), { ...options, burstMode: 'drop' });
+
+    expect(frames(result)).toEqual([0]);
+  });
+});
+
+describe('TemporalSmoother', () => {
+  it('holds back a cluster until a gap of windowSize frames has passed', () => {
+    const smoother = new TemporalSmoother(options);
+    const [start, a, b, c, d] = scenes([[100, 0.5], [102, 0.9], [106, 0.9], [111, 0.9]]);
+
+    expect(frames(smoother.push(start))).toEqual([0]);
+    expect(smoother.push(a)).toEqual([]);
+    expect(smoother.push(b)).toEqual([]);
+    expect(smoother.push(c)).toEqual([]);
+    expect(frames(smoother.push(d))).toEqual([100]);
+    expect(frames(smoother.flush())).toEqual([111]);
+  });
+
+  it('matches applyTemporalSmoothing on a long sequence', () => {
+    // Bursts of up to four cuts among isolated ones, from a fixed seed
+    let seed = 12345;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+
+    const cuts: [number, number][] = [];
+    let frame = 0;
+    while (cuts.length < 200) {
+      frame += random() < 0.3 ? 1 + Math.floor(random() * 4) : 5 + Math.floor(random() * 60);
+      cuts.push([frame, Math.round(random() * 100) / 100]);
+    }
+
+    const config = { ...options, minSceneLength: 8 };
+    const smoother = new TemporalSmoother(config);
+    const streamed: SceneInfo[] = [];
+    for (const scene of scenes(cuts)) {
+      streamed.push(...smoother.push(scene));
+    }
+    streamed.push(...smoother.flush());
+
+    expect(frames(streamed)).toEqual(frames(applyTemporalSmoothing(scenes(cuts), config)));
+
+    // No two kept cuts closer than minSceneLength
+    const kept = frames(streamed);
+    for (let i = 1; i < kept.length; i++) {
+      expect(kept[i] - kept[i - 1]).toBeGreaterThanOrEqual(8);
+    }
+  });
+
+  it('rejects scenes pushed out of order', () => {
+    const smoother = new TemporalSmoother(options);
+    const [start, a, b] = scenes([[100, 0.9], [90, 0.9]]);
+
+    smoother.push(start);
+    smoother.push(a);
+    expect(() => smoother.push(b)).toThrow('Scenes must be pushed in frame order (got 90 after 100)');
+  });
+
+  it('starts over after reset()', () => {
+    const smoother = new TemporalSmoother(options);
+    const [start, a] = scenes([[100, 0.9]]);
+
+    smoother.push(start);
+    smoother.push(a);
+    smoother.reset();
+
+    expect(frames(smoother.push(start))).toEqual([0]);
+    expect(smoother.flush()).toEqual([]);
+  });
+
+  it('rejects invalid options', () => {
+    expect(() => new TemporalSmoother({ ...options, windowSize: 0 })).toThrow('Invalid windowSize');
+    expect(() => new TemporalSmoother({ ...options, minConsecutive: 1.5 })).toThrow('Invalid minConsecutive');
+  });
+});
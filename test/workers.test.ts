@@ -0,0 +1,87 @@
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { planSegments } from '../src/detection/worker-pool';
+import { DetectionOptions, DetectionResult } from '../src/types';
+import { countWorkerThreads, createClip, createTempDir, cutFrames, loadBundle, wasmBuilt, writeVideo } from './helpers';
+
+// Worker threads only run from the bundle
+const { SceneDetector } = loadBundle();
+
+/**
+ * 960 frames, so three workers get segments starting at frames 1, 321 and
+ * 641. Cuts sit just before, on and just after the second and third
+ * segment starts, and many are blends close to the thresholds.
+ */
+const SCENE_LENGTHS = [100, 100, 118, 3, 4, 125, 110, 79, 2, 3, 116, 120, 80];
+const BLEND = [1, 0.5, 1, 0.6, 0.4, 1, 0.3, 0.5, 1, 0.35, 0.25, 1];
+
+const temp = createTempDir();
+const video = path.join(temp.dir, 'boundaries.mkv');
+
+beforeAll(() => writeVideo(video, createClip({ width: 160, height: 96, sceneLengths: SCENE_LENGTHS, blend: BLEND })));
+afterAll(() => temp.remove());
+
+/**
+ * Each cut's frame number and metrics, for comparing whole runs
+ */
+function cutDetails(result: DetectionResult) {
+  return result.scenes.map(scene => ({ frameNumber: scene.frameNumber, metrics: scene.metrics }));
+}
+
+/**
+ * Detect on one thread and on three workers
+ */
+async function detectBoth(options: DetectionOptions) {
+  const single = await new SceneDetector({ ...options, workers: 1 }).detect(video);
+
+  let parallel: DetectionResult | null = null;
+  const workersStarted = await countWorkerThreads(async () => {
+    parallel = await new SceneDetector({ ...options, workers: 3 }).detect(video);
+  });
+
+  return { single, parallel: parallel!, workersStarted };
+}
+
+describe('worker threads', () => {
+  it('split the clip into three segments', () => {
+    expect(planSegments(960, 3)).toEqual([
+      { startFrame: 1, endFrame: 320 },
+      { startFrame: 321, endFrame: 640 },
+      { startFrame: 641, endFrame: Infinity }
+    ]);
+  });
+
+  it('run on the calling thread unless asked for', async () => {
+    const started = await countWorkerThreads(() => new SceneDetector({ algorithm: 'scdet' }).detect(video));
+
+    expect(started).toBe(0);
+  });
+
+  it.each([
+    ['adaptive', { algorithm: 'adaptive' }],
+    ['scdet', { algorithm: 'scdet', sensitivity: 'high' }],
+    ['histogram', { algorithm: 'histogram', threshold: 0.1 }]
+  ] as [string, DetectionOptions][])('give the single-threaded result with %s', async (_, options) => {
+    const { single, parallel, workersStarted } = await detectBoth(options);
+
+    expect(workersStarted).toBe(3);
+    expect(cutFrames(single).length).toBeGreaterThan(3);
+    expect(cutDetails(parallel)).toEqual(cutDetails(single));
+  });
+
+  it.skipIf(!wasmBuilt).each(['low', 'medium', 'high'] as const)('give the single-threaded result with wwxd (%s)', async sensitivity => {
+    const { single, parallel, workersStarted } = await detectBoth({ sensitivity });
+
+    expect(workersStarted).toBe(3);
+    expect(cutFrames(single).length).toBeGreaterThan(0);
+    expect(cutDetails(parallel)).toEqual(cutDetails(single));
+  });
+
+  it.skipIf(!wasmBuilt)('stay on the calling thread with the temporal predictor', async () => {
+    const { single, parallel, workersStarted } = await detectBoth({ temporalPredictor: true });
+
+    expect(workersStarted).toBe(0);
+    expect(cutFrames(single).length).toBeGreaterThan(0);
+    expect(cutDetails(parallel)).toEqual(cutDetails(single));
+  });
+});
@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    // A process per test file, so child process checks only see that file's ffmpeg
+    pool: 'forks',
+    // ffmpeg and worker thread runs are slow on small CI machines
+    testTimeout: 60000
+  }
+});